@@ -0,0 +1,8 @@
+/** @type {import("jest").Config} */
+module.exports = {
+  preset: "ts-jest",
+  testEnvironment: "node",
+  roots: ["<rootDir>/src"],
+  testMatch: ["**/*.test.ts"],
+  setupFiles: ["<rootDir>/test/setup-env.ts"],
+};
@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "comentarios" (
+    "id" TEXT NOT NULL,
+    "contenido" TEXT NOT NULL,
+    "esInterno" BOOLEAN NOT NULL DEFAULT false,
+    "ticketId" TEXT NOT NULL,
+    "autorId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "comentarios_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "comentarios_ticketId_idx" ON "comentarios"("ticketId");
+
+-- CreateIndex
+CREATE INDEX "comentarios_autorId_idx" ON "comentarios"("autorId");
+
+-- AddForeignKey
+ALTER TABLE "comentarios" ADD CONSTRAINT "comentarios_ticketId_fkey" FOREIGN KEY ("ticketId") REFERENCES "tickets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "comentarios" ADD CONSTRAINT "comentarios_autorId_fkey" FOREIGN KEY ("autorId") REFERENCES "usuarios"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "adjuntos" (
+    "id" TEXT NOT NULL,
+    "nombreOriginal" TEXT NOT NULL,
+    "nombreAlmacenado" TEXT NOT NULL,
+    "mimeType" TEXT NOT NULL,
+    "tamano" INTEGER NOT NULL,
+    "ticketId" TEXT NOT NULL,
+    "comentarioId" TEXT,
+    "subidoPorId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "adjuntos_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "adjuntos_nombreAlmacenado_key" ON "adjuntos"("nombreAlmacenado");
+
+-- CreateIndex
+CREATE INDEX "adjuntos_ticketId_idx" ON "adjuntos"("ticketId");
+
+-- CreateIndex
+CREATE INDEX "adjuntos_comentarioId_idx" ON "adjuntos"("comentarioId");
+
+-- AddForeignKey
+ALTER TABLE "adjuntos" ADD CONSTRAINT "adjuntos_ticketId_fkey" FOREIGN KEY ("ticketId") REFERENCES "tickets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "adjuntos" ADD CONSTRAINT "adjuntos_comentarioId_fkey" FOREIGN KEY ("comentarioId") REFERENCES "comentarios"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "adjuntos" ADD CONSTRAINT "adjuntos_subidoPorId_fkey" FOREIGN KEY ("subidoPorId") REFERENCES "usuarios"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
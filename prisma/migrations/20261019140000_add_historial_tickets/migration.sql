@@ -0,0 +1,25 @@
+-- CreateEnum
+CREATE TYPE "OrigenCambio" AS ENUM ('USUARIO', 'SLA');
+
+-- CreateTable
+CREATE TABLE "historial_tickets" (
+    "id" TEXT NOT NULL,
+    "ticketId" TEXT NOT NULL,
+    "campo" TEXT NOT NULL,
+    "valorAnterior" TEXT,
+    "valorNuevo" TEXT,
+    "origen" "OrigenCambio" NOT NULL,
+    "usuarioId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "historial_tickets_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "historial_tickets_ticketId_createdAt_idx" ON "historial_tickets"("ticketId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "historial_tickets" ADD CONSTRAINT "historial_tickets_ticketId_fkey" FOREIGN KEY ("ticketId") REFERENCES "tickets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "historial_tickets" ADD CONSTRAINT "historial_tickets_usuarioId_fkey" FOREIGN KEY ("usuarioId") REFERENCES "usuarios"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "tickets" ADD COLUMN     "fechaNivelActual" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- Los tickets existentes toman como inicio de su nivel la fecha de creación
+UPDATE "tickets" SET "fechaNivelActual" = "fechaCreacion";
@@ -0,0 +1,52 @@
+-- AlterTable
+ALTER TABLE "clientes" ADD COLUMN     "calendarioId" TEXT;
+
+-- CreateTable
+CREATE TABLE "calendarios_laborales" (
+    "id" TEXT NOT NULL,
+    "nombre" TEXT NOT NULL,
+    "zonaHoraria" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "calendarios_laborales_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "franjas_horarias" (
+    "id" TEXT NOT NULL,
+    "calendarioId" TEXT NOT NULL,
+    "diaSemana" INTEGER NOT NULL,
+    "horaInicio" TEXT NOT NULL,
+    "horaFin" TEXT NOT NULL,
+
+    CONSTRAINT "franjas_horarias_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "feriados" (
+    "id" TEXT NOT NULL,
+    "calendarioId" TEXT NOT NULL,
+    "fecha" DATE NOT NULL,
+    "descripcion" TEXT,
+
+    CONSTRAINT "feriados_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "calendarios_laborales_nombre_key" ON "calendarios_laborales"("nombre");
+
+-- CreateIndex
+CREATE INDEX "franjas_horarias_calendarioId_idx" ON "franjas_horarias"("calendarioId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "feriados_calendarioId_fecha_key" ON "feriados"("calendarioId", "fecha");
+
+-- AddForeignKey
+ALTER TABLE "clientes" ADD CONSTRAINT "clientes_calendarioId_fkey" FOREIGN KEY ("calendarioId") REFERENCES "calendarios_laborales"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "franjas_horarias" ADD CONSTRAINT "franjas_horarias_calendarioId_fkey" FOREIGN KEY ("calendarioId") REFERENCES "calendarios_laborales"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "feriados" ADD CONSTRAINT "feriados_calendarioId_fkey" FOREIGN KEY ("calendarioId") REFERENCES "calendarios_laborales"("id") ON DELETE CASCADE ON UPDATE CASCADE;
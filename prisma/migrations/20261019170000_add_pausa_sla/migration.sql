@@ -0,0 +1,7 @@
+-- AlterEnum
+ALTER TYPE "EstadoTicket" ADD VALUE 'EN_ESPERA';
+
+-- AlterTable
+ALTER TABLE "tickets" ADD COLUMN     "fechaInicioPausa" TIMESTAMP(3),
+ADD COLUMN     "tiempoPausado" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "tiempoPausadoNivel" INTEGER NOT NULL DEFAULT 0;
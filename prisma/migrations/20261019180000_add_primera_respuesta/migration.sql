@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "tickets" ADD COLUMN     "fechaPrimeraRespuesta" TIMESTAMP(3),
+ADD COLUMN     "tiempoPrimeraRespuesta" INTEGER;
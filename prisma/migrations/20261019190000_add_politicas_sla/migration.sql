@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "politicas_sla" (
+    "id" TEXT NOT NULL,
+    "nombre" TEXT NOT NULL,
+    "activo" BOOLEAN NOT NULL DEFAULT true,
+    "tipoCliente" "TipoCliente",
+    "prioridad" "Prioridad",
+    "clienteId" TEXT,
+    "horasNivel1" DOUBLE PRECISION NOT NULL,
+    "horasNivel2" DOUBLE PRECISION NOT NULL,
+    "minutosPrimeraRespuesta" INTEGER NOT NULL,
+    "horasResolucion" DOUBLE PRECISION NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "politicas_sla_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "politicas_sla_nombre_key" ON "politicas_sla"("nombre");
+
+-- CreateIndex
+CREATE INDEX "politicas_sla_clienteId_idx" ON "politicas_sla"("clienteId");
+
+-- AddForeignKey
+ALTER TABLE "politicas_sla" ADD CONSTRAINT "politicas_sla_clienteId_fkey" FOREIGN KEY ("clienteId") REFERENCES "clientes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
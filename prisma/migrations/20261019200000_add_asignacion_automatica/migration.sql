@@ -0,0 +1,8 @@
+-- AlterEnum
+ALTER TYPE "OrigenCambio" ADD VALUE 'ASIGNACION_AUTOMATICA';
+
+-- AlterTable
+ALTER TABLE "agentes" ADD COLUMN     "peso" INTEGER NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "historial_tickets" ADD COLUMN     "motivo" TEXT;
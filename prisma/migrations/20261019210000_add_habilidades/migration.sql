@@ -0,0 +1,49 @@
+-- CreateTable
+CREATE TABLE "habilidades" (
+    "id" TEXT NOT NULL,
+    "nombre" TEXT NOT NULL,
+    "descripcion" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "habilidades_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "_AgenteHabilidades" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "_TicketHabilidades" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "habilidades_nombre_key" ON "habilidades"("nombre");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "_AgenteHabilidades_AB_unique" ON "_AgenteHabilidades"("A", "B");
+
+-- CreateIndex
+CREATE INDEX "_AgenteHabilidades_B_index" ON "_AgenteHabilidades"("B");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "_TicketHabilidades_AB_unique" ON "_TicketHabilidades"("A", "B");
+
+-- CreateIndex
+CREATE INDEX "_TicketHabilidades_B_index" ON "_TicketHabilidades"("B");
+
+-- AddForeignKey
+ALTER TABLE "_AgenteHabilidades" ADD CONSTRAINT "_AgenteHabilidades_A_fkey" FOREIGN KEY ("A") REFERENCES "agentes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_AgenteHabilidades" ADD CONSTRAINT "_AgenteHabilidades_B_fkey" FOREIGN KEY ("B") REFERENCES "habilidades"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_TicketHabilidades" ADD CONSTRAINT "_TicketHabilidades_A_fkey" FOREIGN KEY ("A") REFERENCES "habilidades"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_TicketHabilidades" ADD CONSTRAINT "_TicketHabilidades_B_fkey" FOREIGN KEY ("B") REFERENCES "tickets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
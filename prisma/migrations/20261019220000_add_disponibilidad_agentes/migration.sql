@@ -0,0 +1,28 @@
+-- CreateEnum
+CREATE TYPE "EstadoDisponibilidad" AS ENUM ('DISPONIBLE', 'OCUPADO', 'AUSENTE');
+
+-- AlterTable
+ALTER TABLE "agentes" ADD COLUMN     "disponibilidad" "EstadoDisponibilidad" NOT NULL DEFAULT 'DISPONIBLE',
+ADD COLUMN     "turnoId" TEXT;
+
+-- CreateTable
+CREATE TABLE "ausencias_agentes" (
+    "id" TEXT NOT NULL,
+    "agenteId" TEXT NOT NULL,
+    "desde" TIMESTAMP(3) NOT NULL,
+    "hasta" TIMESTAMP(3) NOT NULL,
+    "motivo" TEXT,
+    "reasignarTickets" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ausencias_agentes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ausencias_agentes_agenteId_hasta_idx" ON "ausencias_agentes"("agenteId", "hasta");
+
+-- AddForeignKey
+ALTER TABLE "agentes" ADD CONSTRAINT "agentes_turnoId_fkey" FOREIGN KEY ("turnoId") REFERENCES "calendarios_laborales"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ausencias_agentes" ADD CONSTRAINT "ausencias_agentes_agenteId_fkey" FOREIGN KEY ("agenteId") REFERENCES "agentes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
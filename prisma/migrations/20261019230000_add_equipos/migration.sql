@@ -0,0 +1,58 @@
+-- AlterTable
+ALTER TABLE "tickets" ADD COLUMN     "equipoId" TEXT;
+
+-- CreateTable
+CREATE TABLE "equipos" (
+    "id" TEXT NOT NULL,
+    "nombre" TEXT NOT NULL,
+    "descripcion" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "equipos_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "_EquipoAgentes" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "_EquipoSupervisores" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL
+);
+
+-- CreateIndex
+CREATE INDEX "tickets_equipoId_idx" ON "tickets"("equipoId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "equipos_nombre_key" ON "equipos"("nombre");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "_EquipoAgentes_AB_unique" ON "_EquipoAgentes"("A", "B");
+
+-- CreateIndex
+CREATE INDEX "_EquipoAgentes_B_index" ON "_EquipoAgentes"("B");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "_EquipoSupervisores_AB_unique" ON "_EquipoSupervisores"("A", "B");
+
+-- CreateIndex
+CREATE INDEX "_EquipoSupervisores_B_index" ON "_EquipoSupervisores"("B");
+
+-- AddForeignKey
+ALTER TABLE "tickets" ADD CONSTRAINT "tickets_equipoId_fkey" FOREIGN KEY ("equipoId") REFERENCES "equipos"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_EquipoAgentes" ADD CONSTRAINT "_EquipoAgentes_A_fkey" FOREIGN KEY ("A") REFERENCES "agentes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_EquipoAgentes" ADD CONSTRAINT "_EquipoAgentes_B_fkey" FOREIGN KEY ("B") REFERENCES "equipos"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_EquipoSupervisores" ADD CONSTRAINT "_EquipoSupervisores_A_fkey" FOREIGN KEY ("A") REFERENCES "equipos"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_EquipoSupervisores" ADD CONSTRAINT "_EquipoSupervisores_B_fkey" FOREIGN KEY ("B") REFERENCES "usuarios"("id") ON DELETE CASCADE ON UPDATE CASCADE;
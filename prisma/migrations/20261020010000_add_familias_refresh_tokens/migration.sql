@@ -0,0 +1,27 @@
+-- AlterTable
+ALTER TABLE "refresh_tokens" ADD COLUMN "tokenHash" TEXT,
+ADD COLUMN "familiaId" TEXT,
+ADD COLUMN "rotadoAt" TIMESTAMP(3);
+
+-- Los tokens existentes pasan a guardarse como hash y cada uno inicia su propia familia
+UPDATE "refresh_tokens"
+SET "tokenHash" = encode(sha256(convert_to("token", 'UTF8')), 'hex'),
+    "familiaId" = "id";
+
+ALTER TABLE "refresh_tokens" ALTER COLUMN "tokenHash" SET NOT NULL,
+ALTER COLUMN "familiaId" SET NOT NULL;
+
+-- DropIndex
+DROP INDEX "refresh_tokens_token_key";
+
+-- AlterTable
+ALTER TABLE "refresh_tokens" DROP COLUMN "token";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "refresh_tokens_tokenHash_key" ON "refresh_tokens"("tokenHash");
+
+-- CreateIndex
+CREATE INDEX "refresh_tokens_familiaId_idx" ON "refresh_tokens"("familiaId");
+
+-- CreateIndex
+CREATE INDEX "refresh_tokens_usuarioId_idx" ON "refresh_tokens"("usuarioId");
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "refresh_tokens" ADD COLUMN "ip" TEXT,
+ADD COLUMN "userAgent" TEXT,
+ADD COLUMN "dispositivo" TEXT;
@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "usuarios" ADD COLUMN "totpSecret" TEXT,
+ADD COLUMN "totpHabilitado" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "totpUltimoPaso" INTEGER;
+
+-- CreateTable
+CREATE TABLE "codigos_recuperacion" (
+    "id" TEXT NOT NULL,
+    "codigoHash" TEXT NOT NULL,
+    "usuarioId" TEXT NOT NULL,
+    "usedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "codigos_recuperacion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "codigos_recuperacion_usuarioId_idx" ON "codigos_recuperacion"("usuarioId");
+
+-- AddForeignKey
+ALTER TABLE "codigos_recuperacion" ADD CONSTRAINT "codigos_recuperacion_usuarioId_fkey" FOREIGN KEY ("usuarioId") REFERENCES "usuarios"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,28 @@
+-- CreateEnum
+CREATE TYPE "ScopeApiKey" AS ENUM ('TICKETS_LECTURA', 'TICKETS_CREAR', 'TICKETS_COMENTAR', 'CLIENTES_LECTURA', 'CLIENTES_ESCRITURA');
+
+-- CreateTable
+CREATE TABLE "api_keys" (
+    "id" TEXT NOT NULL,
+    "nombre" TEXT NOT NULL,
+    "prefijo" TEXT NOT NULL,
+    "keyHash" TEXT NOT NULL,
+    "scopes" "ScopeApiKey"[],
+    "usuarioId" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3),
+    "lastUsedAt" TIMESTAMP(3),
+    "lastUsedIp" TEXT,
+    "revokedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "api_keys_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "api_keys_keyHash_key" ON "api_keys"("keyHash");
+
+-- CreateIndex
+CREATE INDEX "api_keys_usuarioId_idx" ON "api_keys"("usuarioId");
+
+-- AddForeignKey
+ALTER TABLE "api_keys" ADD CONSTRAINT "api_keys_usuarioId_fkey" FOREIGN KEY ("usuarioId") REFERENCES "usuarios"("id") ON DELETE CASCADE ON UPDATE CASCADE;
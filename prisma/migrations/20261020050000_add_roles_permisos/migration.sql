@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "usuarios" ADD COLUMN "rolPersonalizadoId" TEXT;
+
+-- CreateTable
+CREATE TABLE "roles_permisos" (
+    "id" TEXT NOT NULL,
+    "nombre" TEXT NOT NULL,
+    "descripcion" TEXT,
+    "rolBase" "Rol" NOT NULL,
+    "sistema" BOOLEAN NOT NULL DEFAULT false,
+    "permisos" TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "roles_permisos_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "roles_permisos_nombre_key" ON "roles_permisos"("nombre");
+
+-- AddForeignKey
+ALTER TABLE "usuarios" ADD CONSTRAINT "usuarios_rolPersonalizadoId_fkey" FOREIGN KEY ("rolPersonalizadoId") REFERENCES "roles_permisos"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Roles del sistema con los permisos equivalentes a las reglas anteriores
+INSERT INTO "roles_permisos" ("id", "nombre", "descripcion", "rolBase", "sistema", "permisos", "updatedAt") VALUES
+(gen_random_uuid()::text, 'ADMIN', 'Administrador: todos los permisos', 'ADMIN', true,
+ ARRAY['ticket.create', 'ticket.read', 'ticket.update', 'ticket.delete', 'ticket.history', 'ticket.comment', 'ticket.attach', 'sla.run', 'client.create', 'client.read', 'client.update', 'client.delete', 'user.register', 'role.manage'], CURRENT_TIMESTAMP),
+(gen_random_uuid()::text, 'SUPERVISOR', 'Supervisor de equipos', 'SUPERVISOR', true,
+ ARRAY['ticket.create', 'ticket.read', 'ticket.update', 'ticket.delete', 'ticket.history', 'ticket.comment', 'ticket.attach', 'sla.run', 'client.create', 'client.read', 'client.update'], CURRENT_TIMESTAMP),
+(gen_random_uuid()::text, 'AGENTE', 'Agente de soporte', 'AGENTE', true,
+ ARRAY['ticket.create', 'ticket.read', 'ticket.update', 'ticket.comment', 'ticket.attach', 'client.read'], CURRENT_TIMESTAMP);
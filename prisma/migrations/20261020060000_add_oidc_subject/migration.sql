@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "usuarios" ADD COLUMN "oidcSubject" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "usuarios_oidcSubject_key" ON "usuarios"("oidcSubject");
@@ -0,0 +1,4 @@
+-- Nuevo permiso para políticas SLA y calendarios: solo ADMIN lo recibe
+UPDATE "roles_permisos"
+SET "permisos" = array_append("permisos", 'sla.manage'), "updatedAt" = CURRENT_TIMESTAMP
+WHERE "nombre" = 'ADMIN' AND "sistema" = true AND NOT ('sla.manage' = ANY("permisos"));
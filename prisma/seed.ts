@@ -16,9 +16,16 @@ async function main() {
 
   // Limpieza de datos respetando el orden de dependencias
   console.log("Eliminando datos existentes");
+  await prisma.historialTicket.deleteMany();
+  await prisma.adjunto.deleteMany();
+  await prisma.comentario.deleteMany();
   await prisma.ticket.deleteMany();
+  await prisma.politicaSla.deleteMany();
+  await prisma.equipo.deleteMany();
   await prisma.agente.deleteMany();
+  await prisma.habilidad.deleteMany();
   await prisma.cliente.deleteMany();
+  await prisma.calendarioLaboral.deleteMany();
   await prisma.refreshToken.deleteMany();
   await prisma.usuario.deleteMany();
 
@@ -37,7 +44,7 @@ async function main() {
     },
   });
 
-  await prisma.usuario.create({
+  const supervisor = await prisma.usuario.create({
     data: {
       email: "supervisor@techsupport.com",
       password: hashedPassword,
@@ -73,6 +80,22 @@ async function main() {
     },
   });
 
+  // ===============================
+  // HABILIDADES
+  // ===============================
+
+  const redes = await prisma.habilidad.create({
+    data: { nombre: "Redes", descripcion: "Conectividad, VPN y firewalls" },
+  });
+
+  const facturacion = await prisma.habilidad.create({
+    data: { nombre: "Facturación", descripcion: "Cobros, pagos y reportes" },
+  });
+
+  const hardware = await prisma.habilidad.create({
+    data: { nombre: "Hardware", descripcion: "Equipos, servidores y periféricos" },
+  });
+
   // ===============================
   // AGENTES
   // ===============================
@@ -83,6 +106,7 @@ async function main() {
       email: "agente1@techsupport.com",
       nivel: NivelEscalamiento.NIVEL_1,
       usuarioId: usuarioAgente1.id,
+      habilidades: { connect: [{ id: facturacion.id }] },
     },
   });
 
@@ -92,6 +116,7 @@ async function main() {
       email: "agente2@techsupport.com",
       nivel: NivelEscalamiento.NIVEL_2,
       usuarioId: usuarioAgente2.id,
+      habilidades: { connect: [{ id: redes.id }, { id: hardware.id }] },
     },
   });
 
@@ -101,6 +126,24 @@ async function main() {
       email: "agente3@techsupport.com",
       nivel: NivelEscalamiento.NIVEL_3,
       usuarioId: usuarioAgente3.id,
+      habilidades: {
+        connect: [{ id: redes.id }, { id: facturacion.id }, { id: hardware.id }],
+      },
+    },
+  });
+
+  // ===============================
+  // EQUIPOS
+  // ===============================
+
+  const soporteGeneral = await prisma.equipo.create({
+    data: {
+      nombre: "Soporte General",
+      descripcion: "Primera línea de atención y escalamientos",
+      agentes: {
+        connect: [{ id: agente1.id }, { id: agente2.id }, { id: agente3.id }],
+      },
+      supervisores: { connect: [{ id: supervisor.id }] },
     },
   });
 
@@ -153,11 +196,49 @@ async function main() {
     },
   });
 
+  // ===============================
+  // POLÍTICAS SLA
+  // ===============================
+
+  await prisma.politicaSla.create({
+    data: {
+      nombre: "Contrato VIP",
+      tipoCliente: TipoCliente.VIP,
+      horasNivel1: 2,
+      horasNivel2: 2,
+      minutosPrimeraRespuesta: 30,
+      horasResolucion: 8,
+    },
+  });
+
+  await prisma.politicaSla.create({
+    data: {
+      nombre: "Contrato Normal",
+      tipoCliente: TipoCliente.NORMAL,
+      horasNivel1: 24,
+      horasNivel2: 24,
+      minutosPrimeraRespuesta: 240,
+      horasResolucion: 72,
+    },
+  });
+
+  // Contrato especial: Banco Nacional exige respuesta en 15 minutos
+  await prisma.politicaSla.create({
+    data: {
+      nombre: "Banco Nacional - Premium",
+      clienteId: clienteVIP1.id,
+      horasNivel1: 1,
+      horasNivel2: 2,
+      minutosPrimeraRespuesta: 15,
+      horasResolucion: 4,
+    },
+  });
+
   // ===============================
   // TICKETS
   // ===============================
 
-  // Ticket VIP abierto, sin agente asignado
+  // Ticket VIP abierto en la cola del equipo, sin agente asignado
   await prisma.ticket.create({
     data: {
       titulo: "Falla crítica en sistema de pagos",
@@ -166,6 +247,8 @@ async function main() {
       estado: EstadoTicket.ABIERTO,
       prioridad: Prioridad.ALTA,
       clienteId: clienteVIP1.id,
+      equipoId: soporteGeneral.id,
+      habilidadesRequeridas: { connect: [{ id: facturacion.id }] },
     },
   });
 
@@ -211,7 +294,7 @@ async function main() {
     },
   });
 
-  // Ticket normal abierto, sin agente
+  // Ticket normal abierto en la cola del equipo, sin agente
   await prisma.ticket.create({
     data: {
       titulo: "Problema con impresora de tickets",
@@ -220,6 +303,7 @@ async function main() {
       estado: EstadoTicket.ABIERTO,
       prioridad: Prioridad.MEDIA,
       clienteId: clienteNormal1.id,
+      equipoId: soporteGeneral.id,
     },
   });
 
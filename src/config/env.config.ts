@@ -1,10 +1,38 @@
 import dotenv from "dotenv";
 import type { SignOptions } from "jsonwebtoken";
+import { Rol } from "@prisma/client";
 
 dotenv.config();
 
 type JwtExpiresIn = SignOptions["expiresIn"];
 
+/**
+ * Estrategias de asignación automática de tickets.
+ */
+export const ESTRATEGIAS_ASIGNACION = [
+  "ROUND_ROBIN",
+  "MENOR_CARGA",
+  "PONDERADA",
+] as const;
+
+export type EstrategiaAsignacion = (typeof ESTRATEGIAS_ASIGNACION)[number];
+
+/**
+ * PREFERIDA: se prioriza a quien tenga las habilidades del ticket.
+ * OBLIGATORIA: solo pueden atenderlo agentes con todas las habilidades.
+ */
+export const MODOS_HABILIDADES = ["PREFERIDA", "OBLIGATORIA"] as const;
+
+export type ModoHabilidades = (typeof MODOS_HABILIDADES)[number];
+
+/**
+ * Transportes de correo disponibles.
+ * CONSOLE escribe el correo en el log; FILE lo guarda en MAIL_OUTBOX_DIR.
+ */
+export const TRANSPORTES_CORREO = ["CONSOLE", "FILE"] as const;
+
+export type TransporteCorreo = (typeof TRANSPORTES_CORREO)[number];
+
 interface Config {
   nodeEnv: string;
   port: number;
@@ -20,6 +48,29 @@ interface Config {
   jwtExpiresIn: JwtExpiresIn;
   jwtRefreshExpiresIn: JwtExpiresIn;
 
+  passwordResetExpiresMinutes: number;
+  passwordResetUrl: string;
+
+  loginMaxAttempts: number;
+  loginAttemptWindowMinutes: number;
+  loginLockoutMinutes: number;
+
+  totpIssuer: string;
+  totpEncryptionKey: string;
+  twoFactorRequiredRoles: Rol[];
+
+  oidcIssuer: string;
+  oidcClientId: string;
+  oidcClientSecret: string;
+  oidcRedirectUri: string;
+  oidcScopes: string;
+  oidcGroupsClaim: string;
+  oidcRoleMapping: Record<string, Rol>;
+
+  mailTransport: TransporteCorreo;
+  mailFrom: string;
+  mailOutboxDir: string;
+
   rateLimitWindowMs: number;
   rateLimitMaxRequests: number;
 
@@ -27,6 +78,17 @@ interface Config {
 
   slaVipHours: number;
   slaNormalHours: number;
+  slaVipNivel2Hours: number;
+  slaNormalNivel2Hours: number;
+  slaVipFirstResponseMinutes: number;
+  slaNormalFirstResponseMinutes: number;
+  slaVipResolutionHours: number;
+  slaNormalResolutionHours: number;
+  slaEscalationIntervalMinutes: number;
+
+  autoAssignmentEnabled: boolean;
+  assignmentStrategy: EstrategiaAsignacion;
+  skillMatching: ModoHabilidades;
 
   maxFileSizeMB: number;
   uploadDir: string;
@@ -43,6 +105,67 @@ const getEnvVar = (key: string, required = true): string => {
   return value ?? "";
 };
 
+// Variable de entorno restringida a un conjunto de opciones
+const getEnumEnvVar = <T extends string>(
+  key: string,
+  opciones: readonly T[],
+  defaultValue: T,
+): T => {
+  const value = getEnvVar(key, false) || defaultValue;
+
+  if (!(opciones as readonly string[]).includes(value)) {
+    throw new Error(`${key} no es válida. Opciones: ${opciones.join(", ")}`);
+  }
+
+  return value as T;
+};
+
+// Lista separada por comas, cada valor restringido a un conjunto de opciones
+const getListEnvVar = <T extends string>(
+  key: string,
+  opciones: readonly T[],
+): T[] => {
+  const values = (getEnvVar(key, false) || "")
+    .split(",")
+    .map((value) => value.trim())
+    .filter(Boolean);
+
+  const invalidas = values.filter(
+    (value) => !(opciones as readonly string[]).includes(value),
+  );
+
+  if (invalidas.length > 0) {
+    throw new Error(`${key} no es válida. Opciones: ${opciones.join(", ")}`);
+  }
+
+  return values as T[];
+};
+
+// Pares grupo:ROL separados por coma (ej: "soporte-admins:ADMIN,soporte:AGENTE")
+const getRoleMappingEnvVar = (key: string): Record<string, Rol> => {
+  const mapeo: Record<string, Rol> = {};
+
+  for (const par of (getEnvVar(key, false) || "").split(",")) {
+    if (!par.trim()) {
+      continue;
+    }
+
+    const separador = par.lastIndexOf(":");
+    const grupo = par.slice(0, separador).trim();
+    const rol = par.slice(separador + 1).trim();
+
+    if (separador <= 0 || !(Object.values(Rol) as string[]).includes(rol)) {
+      throw new Error(
+        `${key} no es válida: "${par.trim()}". Formato: grupo:ROL (roles: ${Object.values(Rol).join(", ")})`,
+      );
+    }
+
+    mapeo[grupo] = rol as Rol;
+  }
+
+  return mapeo;
+};
+
 export const config: Config = {
   nodeEnv: getEnvVar("NODE_ENV", false) || "development",
   port: Number(getEnvVar("PORT", false) || 3000),
@@ -70,6 +193,49 @@ export const config: Config = {
   jwtRefreshExpiresIn: (getEnvVar("JWT_REFRESH_EXPIRES_IN", false) ||
     "7d") as JwtExpiresIn,
 
+  passwordResetExpiresMinutes: Number(
+    getEnvVar("PASSWORD_RESET_EXPIRES_MINUTES", false) || 30,
+  ),
+  // El token se agrega como query param: <url>?token=...
+  passwordResetUrl:
+    getEnvVar("PASSWORD_RESET_URL", false) ||
+    "http://localhost:3000/reset-password",
+
+  // Bloqueo por cuenta: tras loginMaxAttempts fallos seguidos (dentro de
+  // la ventana) se bloquea loginLockoutMinutes, el doble en cada reincidencia
+  loginMaxAttempts: Number(getEnvVar("LOGIN_MAX_ATTEMPTS", false) || 5),
+  loginAttemptWindowMinutes: Number(
+    getEnvVar("LOGIN_ATTEMPT_WINDOW_MINUTES", false) || 15,
+  ),
+  loginLockoutMinutes: Number(getEnvVar("LOGIN_LOCKOUT_MINUTES", false) || 5),
+
+  totpIssuer: getEnvVar("TOTP_ISSUER", false) || "TechSupport Pro",
+  // Cifra los secretos TOTP guardados; por defecto deriva de JWT_SECRET
+  totpEncryptionKey:
+    getEnvVar("TOTP_ENCRYPTION_KEY", false) || getEnvVar("JWT_SECRET"),
+  twoFactorRequiredRoles: getListEnvVar(
+    "TWO_FACTOR_REQUIRED_ROLES",
+    Object.values(Rol),
+  ),
+
+  // SSO con OpenID Connect: deshabilitado mientras OIDC_ISSUER esté vacío
+  // Sin normalizar: debe coincidir exactamente con el issuer del proveedor
+  oidcIssuer: (getEnvVar("OIDC_ISSUER", false) || "").trim(),
+  oidcClientId: getEnvVar("OIDC_CLIENT_ID", false) || "",
+  oidcClientSecret: getEnvVar("OIDC_CLIENT_SECRET", false) || "",
+  oidcRedirectUri:
+    getEnvVar("OIDC_REDIRECT_URI", false) ||
+    "http://localhost:3000/api/auth/oidc/callback",
+  oidcScopes: getEnvVar("OIDC_SCOPES", false) || "openid email profile",
+  oidcGroupsClaim: getEnvVar("OIDC_GROUPS_CLAIM", false) || "groups",
+  oidcRoleMapping: getRoleMappingEnvVar("OIDC_ROLE_MAPPING"),
+
+  mailTransport: getEnumEnvVar("MAIL_TRANSPORT", TRANSPORTES_CORREO, "CONSOLE"),
+  mailFrom:
+    getEnvVar("MAIL_FROM", false) ||
+    "TechSupport Pro <no-reply@techsupport.local>",
+  mailOutboxDir: getEnvVar("MAIL_OUTBOX_DIR", false) || "./mail-outbox",
+
   rateLimitWindowMs: Number(getEnvVar("RATE_LIMIT_WINDOW_MS", false) || 60000),
   rateLimitMaxRequests: Number(
     getEnvVar("RATE_LIMIT_MAX_REQUESTS", false) || 100,
@@ -79,6 +245,42 @@ export const config: Config = {
 
   slaVipHours: Number(getEnvVar("SLA_VIP_HOURS", false) || 2),
   slaNormalHours: Number(getEnvVar("SLA_NORMAL_HOURS", false) || 24),
+  // Plazo en NIVEL_2 antes de escalar a NIVEL_3 (por defecto igual al de NIVEL_1)
+  slaVipNivel2Hours: Number(
+    getEnvVar("SLA_VIP_NIVEL_2_HOURS", false) ||
+      getEnvVar("SLA_VIP_HOURS", false) ||
+      2,
+  ),
+  slaNormalNivel2Hours: Number(
+    getEnvVar("SLA_NORMAL_NIVEL_2_HOURS", false) ||
+      getEnvVar("SLA_NORMAL_HOURS", false) ||
+      24,
+  ),
+  // Objetivos contractuales: primera respuesta (minutos) y resolución (horas)
+  slaVipFirstResponseMinutes: Number(
+    getEnvVar("SLA_VIP_FIRST_RESPONSE_MINUTES", false) || 30,
+  ),
+  slaNormalFirstResponseMinutes: Number(
+    getEnvVar("SLA_NORMAL_FIRST_RESPONSE_MINUTES", false) || 240,
+  ),
+  slaVipResolutionHours: Number(
+    getEnvVar("SLA_VIP_RESOLUTION_HOURS", false) || 8,
+  ),
+  slaNormalResolutionHours: Number(
+    getEnvVar("SLA_NORMAL_RESOLUTION_HOURS", false) || 72,
+  ),
+  // 0 desactiva el escalamiento programado
+  slaEscalationIntervalMinutes: Number(
+    getEnvVar("SLA_ESCALATION_INTERVAL_MINUTES", false) || 5,
+  ),
+
+  autoAssignmentEnabled: getEnvVar("AUTO_ASSIGNMENT_ENABLED", false) !== "false",
+  assignmentStrategy: getEnumEnvVar(
+    "ASSIGNMENT_STRATEGY",
+    ESTRATEGIAS_ASIGNACION,
+    "MENOR_CARGA",
+  ),
+  skillMatching: getEnumEnvVar("SKILL_MATCHING", MODOS_HABILIDADES, "PREFERIDA"),
 
   maxFileSizeMB: Number(getEnvVar("MAX_FILE_SIZE_MB", false) || 20),
   uploadDir: getEnvVar("UPLOAD_DIR", false) || "./uploads",
@@ -95,5 +297,14 @@ export const validateConfig = (): void => {
     if (config.jwtRefreshSecret.length < 32) {
       throw new Error("JWT_REFRESH_SECRET debe tener al menos 32 caracteres");
     }
+    if (config.totpEncryptionKey.length < 32) {
+      throw new Error("TOTP_ENCRYPTION_KEY debe tener al menos 32 caracteres");
+    }
+  }
+
+  if (config.oidcIssuer && !config.oidcClientId) {
+    throw new Error(
+      "OIDC_CLIENT_ID es requerida cuando OIDC_ISSUER está definida",
+    );
   }
 };
@@ -0,0 +1,76 @@
+import fs from "fs/promises";
+import path from "path";
+import { config, TransporteCorreo } from "./env.config";
+import { logInfo } from "./logger.config";
+
+/**
+ * Envío de correos desacoplado del proveedor.
+ *
+ * Los servicios solo llaman a sendMail(); el transporte concreto se
+ * elige con MAIL_TRANSPORT o se reemplaza con setMailTransport()
+ * (por ejemplo, un transporte SMTP o de un proveedor externo).
+ */
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+/**
+ * Escribe el correo en el log (desarrollo).
+ */
+const consoleTransport: MailTransport = {
+  async send(message) {
+    logInfo("Correo enviado (consola)", { ...message });
+  },
+};
+
+/**
+ * Guarda cada correo como archivo .eml en MAIL_OUTBOX_DIR.
+ */
+const fileTransport: MailTransport = {
+  async send(message) {
+    await fs.mkdir(config.mailOutboxDir, { recursive: true });
+
+    const filename = `${Date.now()}-${message.to.replace(/[^\w.@-]/g, "_")}.eml`;
+    const contenido = [
+      `From: ${message.from}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      `Date: ${new Date().toUTCString()}`,
+      "Content-Type: text/plain; charset=utf-8",
+      "",
+      message.text,
+    ].join("\n");
+
+    await fs.writeFile(path.join(config.mailOutboxDir, filename), contenido);
+
+    logInfo("Correo guardado en archivo", { to: message.to, filename });
+  },
+};
+
+const transportes: Record<TransporteCorreo, MailTransport> = {
+  CONSOLE: consoleTransport,
+  FILE: fileTransport,
+};
+
+let transporteActual: MailTransport = transportes[config.mailTransport];
+
+/**
+ * Reemplaza el transporte configurado.
+ */
+export const setMailTransport = (transport: MailTransport): void => {
+  transporteActual = transport;
+};
+
+/**
+ * Envía un correo con el remitente configurado.
+ */
+export const sendMail = async (message: MailMessage): Promise<void> => {
+  await transporteActual.send({ ...message, from: config.mailFrom });
+};
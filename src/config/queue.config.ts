@@ -0,0 +1,76 @@
+import { randomUUID } from "crypto";
+import Queue from "bull";
+import Redis from "ioredis";
+import { config } from "./env.config";
+import { redisClient } from "./redis.config";
+
+/**
+ * Sistema de colas basado en Bull.
+ *
+ * Las operaciones normales de la cola reutilizan el cliente Redis
+ * centralizado. Bull necesita además conexiones dedicadas para
+ * suscripción y comandos bloqueantes, que no pueden compartirse.
+ */
+
+/**
+ * Crea las conexiones que Bull solicita para cada cola.
+ */
+const createClient = (type: "client" | "subscriber" | "bclient"): Redis => {
+  if (type === "client") {
+    return redisClient;
+  }
+
+  return new Redis({
+    host: config.redisHost,
+    port: config.redisPort,
+    // Requerido por Bull para conexiones subscriber y bclient
+    maxRetriesPerRequest: null,
+    enableReadyCheck: false,
+  });
+};
+
+/**
+ * Crea una cola Bull con la conexión y opciones comunes del proyecto.
+ */
+export const createQueue = <T = unknown>(name: string): Queue.Queue<T> => {
+  return new Queue<T>(name, {
+    createClient,
+    prefix: "techsupport",
+  });
+};
+
+/**
+ * Ejecuta una función protegida por un lock distribuido en Redis.
+ * Si otra instancia ya tiene el lock, retorna null sin ejecutar nada.
+ *
+ * El lock se libera solo si sigue perteneciendo a esta ejecución,
+ * por lo que un lock expirado y tomado por otra instancia no se borra.
+ */
+export const withRedisLock = async <T>(
+  key: string,
+  ttlMs: number,
+  fn: () => Promise<T>,
+): Promise<T | null> => {
+  const token = randomUUID();
+
+  const acquired = await redisClient.set(key, token, "PX", ttlMs, "NX");
+
+  if (acquired !== "OK") {
+    return null;
+  }
+
+  try {
+    return await fn();
+  } finally {
+    await redisClient.eval(
+      `if redis.call("get", KEYS[1]) == ARGV[1] then
+         return redis.call("del", KEYS[1])
+       else
+         return 0
+       end`,
+      1,
+      key,
+      token,
+    );
+  }
+};
@@ -7,6 +7,7 @@ import { config } from "./env.config";
  * Redis se utiliza para:
  * - Sistema de colas (Bull)
  * - Rate limiting
+ * - Revocación de access tokens
  * - Cache (opcional)
  */
 
@@ -0,0 +1,173 @@
+import { Response } from "express";
+import { NivelEscalamiento } from "@prisma/client";
+import { AuthRequest } from "../../shared/types";
+import { AgentService } from "./agent.service";
+import { logInfo } from "../../config/logger.config";
+
+export class AgentController {
+  private agentService: AgentService;
+
+  constructor() {
+    this.agentService = new AgentService();
+  }
+
+  /**
+   * GET /api/agents
+   * Listar agentes con su cantidad de tickets abiertos.
+   */
+  getAgents = async (req: AuthRequest, res: Response): Promise<void> => {
+    const filters = {
+      nivel: req.query.nivel as NivelEscalamiento | undefined,
+      activo:
+        req.query.activo !== undefined
+          ? req.query.activo === "true"
+          : undefined,
+      equipoId: req.query.equipoId as string | undefined,
+    };
+
+    const agentes = await this.agentService.getAgents(
+      filters,
+      req.user!.userId,
+      req.user!.rol,
+    );
+
+    res.json({
+      success: true,
+      data: agentes,
+    });
+  };
+
+  /**
+   * GET /api/agents/:id
+   * Obtener un agente con su carga de trabajo.
+   */
+  getAgentById = async (req: AuthRequest, res: Response): Promise<void> => {
+    const agentId = Array.isArray(req.params.id)
+      ? req.params.id[0]
+      : req.params.id;
+
+    const agente = await this.agentService.getAgentById(
+      agentId,
+      req.user!.userId,
+      req.user!.rol,
+    );
+
+    res.json({
+      success: true,
+      data: agente,
+    });
+  };
+
+  /**
+   * PUT /api/agents/:id
+   * Actualizar nombre, email o peso del agente.
+   */
+  updateAgent = async (req: AuthRequest, res: Response): Promise<void> => {
+    const agentId = Array.isArray(req.params.id)
+      ? req.params.id[0]
+      : req.params.id;
+
+    const agente = await this.agentService.updateAgent(
+      agentId,
+      req.body,
+      req.user!.userId,
+      req.user!.rol,
+    );
+
+    logInfo("Agente actualizado", {
+      agenteId: agentId,
+      userId: req.user!.userId,
+    });
+
+    res.json({
+      success: true,
+      message: "Agente actualizado exitosamente",
+      data: agente,
+    });
+  };
+
+  /**
+   * PUT /api/agents/:id/level
+   * Promover o degradar el nivel del agente.
+   */
+  updateLevel = async (req: AuthRequest, res: Response): Promise<void> => {
+    const agentId = Array.isArray(req.params.id)
+      ? req.params.id[0]
+      : req.params.id;
+
+    const agente = await this.agentService.updateLevel(
+      agentId,
+      req.body,
+      req.user!.userId,
+      req.user!.rol,
+    );
+
+    logInfo("Nivel de agente actualizado", {
+      agenteId: agentId,
+      nivel: agente.nivel,
+      userId: req.user!.userId,
+    });
+
+    res.json({
+      success: true,
+      message: "Nivel actualizado exitosamente",
+      data: agente,
+    });
+  };
+
+  /**
+   * POST /api/agents/:id/deactivate
+   * Desactivar un agente y reasignar sus tickets abiertos.
+   */
+  deactivateAgent = async (req: AuthRequest, res: Response): Promise<void> => {
+    const agentId = Array.isArray(req.params.id)
+      ? req.params.id[0]
+      : req.params.id;
+
+    const agente = await this.agentService.deactivateAgent(
+      agentId,
+      req.body || {},
+      req.user!.userId,
+      req.user!.rol,
+    );
+
+    logInfo("Agente desactivado", {
+      agenteId: agentId,
+      totalTickets: agente.reasignacion.totalTickets,
+      userId: req.user!.userId,
+    });
+
+    res.json({
+      success: true,
+      message: "Agente desactivado exitosamente",
+      data: agente,
+    });
+  };
+
+  /**
+   * POST /api/agents/:id/activate
+   * Reactivar un agente.
+   */
+  activateAgent = async (req: AuthRequest, res: Response): Promise<void> => {
+    const agentId = Array.isArray(req.params.id)
+      ? req.params.id[0]
+      : req.params.id;
+
+    const agente = await this.agentService.activateAgent(
+      agentId,
+      req.user!.userId,
+      req.user!.rol,
+    );
+
+    logInfo("Agente activado", {
+      agenteId: agentId,
+      userId: req.user!.userId,
+    });
+
+    res.json({
+      success: true,
+      message: "Agente activado exitosamente",
+      data: agente,
+    });
+  };
+}
@@ -0,0 +1,145 @@
+import { Router } from "express";
+import { AgentController } from "./agent.controller";
+import { AvailabilityController } from "./availability.controller";
+import { asyncHandler } from "../../shared/middleware/errorHandler";
+import {
+  authenticate,
+  authorize,
+} from "../../shared/middleware/auth.middleware";
+import {
+  validateAgentFilters,
+  validateUpdateAgent,
+  validateAgentLevel,
+  validateDeactivateAgent,
+  validateAgentStatus,
+  validateAgentShift,
+  validateCreateAbsence,
+} from "../../shared/middleware/validation.middleware";
+import { Rol } from "@prisma/client";
+
+const router = Router();
+const agentController = new AgentController();
+const availabilityController = new AvailabilityController();
+
+/**
+ * Todas las rutas requieren autenticación.
+ * En las rutas con :id, "me" se refiere al agente del usuario autenticado.
+ * Los agentes solo pueden operar sobre su propio perfil.
+ */
+router.use(authenticate);
+
+/**
+ * GET /api/agents
+ * Listar agentes con tickets abiertos (ADMIN y SUPERVISOR).
+ * Supervisores solo ven a los miembros de sus equipos.
+ */
+router.get(
+  "/",
+  authorize(Rol.ADMIN, Rol.SUPERVISOR),
+  validateAgentFilters,
+  asyncHandler(agentController.getAgents),
+);
+
+/**
+ * GET /api/agents/:id
+ * Obtener agente con su carga de trabajo (ADMIN y SUPERVISOR).
+ */
+router.get(
+  "/:id",
+  authorize(Rol.ADMIN, Rol.SUPERVISOR),
+  asyncHandler(agentController.getAgentById),
+);
+
+/**
+ * PUT /api/agents/:id
+ * Actualizar nombre, email o peso (ADMIN y SUPERVISOR).
+ */
+router.put(
+  "/:id",
+  authorize(Rol.ADMIN, Rol.SUPERVISOR),
+  validateUpdateAgent,
+  asyncHandler(agentController.updateAgent),
+);
+
+/**
+ * PUT /api/agents/:id/level
+ * Promover o degradar nivel (ADMIN y SUPERVISOR).
+ */
+router.put(
+  "/:id/level",
+  authorize(Rol.ADMIN, Rol.SUPERVISOR),
+  validateAgentLevel,
+  asyncHandler(agentController.updateLevel),
+);
+
+/**
+ * POST /api/agents/:id/deactivate
+ * Desactivar agente y reasignar sus tickets abiertos (ADMIN y SUPERVISOR).
+ */
+router.post(
+  "/:id/deactivate",
+  authorize(Rol.ADMIN, Rol.SUPERVISOR),
+  validateDeactivateAgent,
+  asyncHandler(agentController.deactivateAgent),
+);
+
+/**
+ * POST /api/agents/:id/activate
+ * Reactivar agente (ADMIN y SUPERVISOR).
+ */
+router.post(
+  "/:id/activate",
+  authorize(Rol.ADMIN, Rol.SUPERVISOR),
+  asyncHandler(agentController.activateAgent),
+);
+
+/**
+ * GET /api/agents/:id/availability
+ * Disponibilidad, turno y ausencias del agente.
+ */
+router.get(
+  "/:id/availability",
+  asyncHandler(availabilityController.getAvailability),
+);
+
+/**
+ * PUT /api/agents/:id/status
+ * Cambiar estado de disponibilidad (DISPONIBLE, OCUPADO, AUSENTE).
+ */
+router.put(
+  "/:id/status",
+  validateAgentStatus,
+  asyncHandler(availabilityController.setStatus),
+);
+
+/**
+ * PUT /api/agents/:id/shift
+ * Asignar turno al agente (solo ADMIN y SUPERVISOR).
+ */
+router.put(
+  "/:id/shift",
+  authorize(Rol.ADMIN, Rol.SUPERVISOR),
+  validateAgentShift,
+  asyncHandler(availabilityController.setShift),
+);
+
+/**
+ * POST /api/agents/:id/absences
+ * Registrar ausencia programada.
+ */
+router.post(
+  "/:id/absences",
+  validateCreateAbsence,
+  asyncHandler(availabilityController.createAbsence),
+);
+
+/**
+ * DELETE /api/agents/:id/absences/:absenceId
+ * Eliminar ausencia programada.
+ */
+router.delete(
+  "/:id/absences/:absenceId",
+  asyncHandler(availabilityController.deleteAbsence),
+);
+
+export { router as agentRoutes };
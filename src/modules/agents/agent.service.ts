@@ -0,0 +1,340 @@
+import { prisma } from "../../config/database.config";
+import {
+  AgentFilters,
+  UpdateAgentDto,
+  UpdateAgentLevelDto,
+  DeactivateAgentDto,
+  NotFoundError,
+  ForbiddenError,
+  ConflictError,
+  ValidationError,
+} from "../../shared/types";
+import { NivelEscalamiento, Prisma, Rol } from "@prisma/client";
+import { TicketService } from "../tickets/ticket.service";
+import { ESTADOS_ABIERTOS } from "../tickets/assignment.service";
+import { LogService } from "../logs/log.service";
+import { AccionLog, EntidadLog } from "../logs/log.model";
+
+/**
+ * Niveles que el agente ya no puede atender al quedar en el nivel indicado.
+ */
+const NIVELES_SUPERIORES: Record<NivelEscalamiento, NivelEscalamiento[]> = {
+  [NivelEscalamiento.NIVEL_1]: [
+    NivelEscalamiento.NIVEL_2,
+    NivelEscalamiento.NIVEL_3,
+  ],
+  [NivelEscalamiento.NIVEL_2]: [NivelEscalamiento.NIVEL_3],
+  [NivelEscalamiento.NIVEL_3]: [],
+};
+
+const agenteInclude = {
+  equipos: { select: { id: true, nombre: true } },
+  habilidades: { select: { id: true, nombre: true } },
+} satisfies Prisma.AgenteInclude;
+
+export class AgentService {
+  private ticketService: TicketService;
+  private logService: LogService;
+
+  constructor() {
+    this.ticketService = new TicketService();
+    this.logService = new LogService();
+  }
+
+  /**
+   * Listar agentes con su cantidad de tickets abiertos.
+   * Supervisores solo ven a los miembros de los equipos que gestionan.
+   */
+  async getAgents(filters: AgentFilters, userId: string, userRol: Rol) {
+    const where: Prisma.AgenteWhereInput = {
+      AND: [this.getAlcance(userId, userRol)],
+    };
+
+    if (filters.nivel) {
+      where.nivel = filters.nivel;
+    }
+
+    if (filters.activo !== undefined) {
+      where.activo = filters.activo;
+    }
+
+    if (filters.equipoId) {
+      where.equipos = { some: { id: filters.equipoId } };
+    }
+
+    const agentes = await prisma.agente.findMany({
+      where,
+      include: agenteInclude,
+      orderBy: [{ nivel: "asc" }, { nombre: "asc" }],
+    });
+
+    const conteos = await prisma.ticket.groupBy({
+      by: ["agenteAsignadoId"],
+      where: {
+        agenteAsignadoId: { in: agentes.map((agente) => agente.id) },
+        estado: { in: ESTADOS_ABIERTOS },
+        deletedAt: null,
+      },
+      _count: { _all: true },
+    });
+
+    const ticketsAbiertos = new Map(
+      conteos.map((conteo) => [conteo.agenteAsignadoId, conteo._count._all]),
+    );
+
+    return agentes.map((agente) => ({
+      ...agente,
+      ticketsAbiertos: ticketsAbiertos.get(agente.id) ?? 0,
+    }));
+  }
+
+  /**
+   * Obtener un agente con su carga de trabajo por estado.
+   */
+  async getAgentById(agentId: string, userId: string, userRol: Rol) {
+    const agente = await this.findAgenteGestionable(agentId, userId, userRol);
+
+    const conteos = await prisma.ticket.groupBy({
+      by: ["estado"],
+      where: {
+        agenteAsignadoId: agente.id,
+        estado: { in: ESTADOS_ABIERTOS },
+        deletedAt: null,
+      },
+      _count: { _all: true },
+    });
+
+    const ticketsPorEstado = Object.fromEntries(
+      conteos.map((conteo) => [conteo.estado, conteo._count._all]),
+    );
+
+    return {
+      ...agente,
+      ticketsAbiertos: conteos.reduce((total, c) => total + c._count._all, 0),
+      ticketsPorEstado,
+    };
+  }
+
+  /**
+   * Actualizar datos del agente.
+   * nombre y email se mantienen sincronizados con el Usuario vinculado.
+   */
+  async updateAgent(
+    agentId: string,
+    data: UpdateAgentDto,
+    userId: string,
+    userRol: Rol,
+  ) {
+    const agente = await this.findAgenteGestionable(agentId, userId, userRol);
+
+    if (data.email && data.email !== agente.email) {
+      const [usuario, otroAgente] = await Promise.all([
+        prisma.usuario.findUnique({ where: { email: data.email } }),
+        prisma.agente.findUnique({ where: { email: data.email } }),
+      ]);
+
+      if (usuario || otroAgente) {
+        throw new ConflictError("El email ya está registrado");
+      }
+    }
+
+    const [updatedAgente] = await prisma.$transaction([
+      prisma.agente.update({
+        where: { id: agente.id },
+        data: {
+          nombre: data.nombre,
+          email: data.email,
+          peso: data.peso,
+        },
+        include: agenteInclude,
+      }),
+      prisma.usuario.update({
+        where: { id: agente.usuarioId },
+        data: {
+          nombre: data.nombre,
+          email: data.email,
+        },
+      }),
+    ]);
+
+    await this.logService.record({
+      accion: AccionLog.AGENTE_ACTUALIZADO,
+      entidad: EntidadLog.AGENTE,
+      entidadId: agente.id,
+      actorId: userId,
+      actorRol: userRol,
+      detalles: { ...data },
+    });
+
+    return updatedAgente;
+  }
+
+  /**
+   * Promover o degradar el nivel del agente.
+   * Al degradarlo, los tickets escalados que ya no puede atender se reasignan.
+   */
+  async updateLevel(
+    agentId: string,
+    data: UpdateAgentLevelDto,
+    userId: string,
+    userRol: Rol,
+  ) {
+    const agente = await this.findAgenteGestionable(agentId, userId, userRol);
+
+    if (agente.nivel === data.nivel) {
+      throw new ValidationError(`El agente ya es de ${data.nivel}`);
+    }
+
+    const updatedAgente = await prisma.agente.update({
+      where: { id: agente.id },
+      data: { nivel: data.nivel },
+      include: agenteInclude,
+    });
+
+    const nivelesPerdidos = NIVELES_SUPERIORES[data.nivel];
+    const reasignacion = await this.ticketService.reasignarTicketsDeAgente(
+      agente.id,
+      `Agente ${agente.nombre} pasó de ${agente.nivel} a ${data.nivel}`,
+      { filtro: { nivelEscalamiento: { in: nivelesPerdidos } } },
+    );
+
+    await this.logService.record({
+      accion: AccionLog.AGENTE_NIVEL_ACTUALIZADO,
+      entidad: EntidadLog.AGENTE,
+      entidadId: agente.id,
+      actorId: userId,
+      actorRol: userRol,
+      detalles: {
+        nivelAnterior: agente.nivel,
+        nivelNuevo: data.nivel,
+        reasignacion,
+      },
+    });
+
+    return { ...updatedAgente, reasignacion };
+  }
+
+  /**
+   * Desactivar un agente: deja de recibir tickets y sus tickets abiertos
+   * se reasignan (o vuelven a la cola de su equipo).
+   * El usuario conserva su acceso.
+   */
+  async deactivateAgent(
+    agentId: string,
+    data: DeactivateAgentDto,
+    userId: string,
+    userRol: Rol,
+  ) {
+    const agente = await this.findAgenteGestionable(agentId, userId, userRol);
+
+    if (!agente.activo) {
+      throw new ConflictError("El agente ya está inactivo");
+    }
+
+    const updatedAgente = await prisma.agente.update({
+      where: { id: agente.id },
+      data: { activo: false },
+      include: agenteInclude,
+    });
+
+    const reasignacion = await this.ticketService.reasignarTicketsDeAgente(
+      agente.id,
+      `Agente ${agente.nombre} desactivado`,
+      { soloDesasignar: data.reasignarTickets === false },
+    );
+
+    await this.logService.record({
+      accion: AccionLog.AGENTE_DESACTIVADO,
+      entidad: EntidadLog.AGENTE,
+      entidadId: agente.id,
+      actorId: userId,
+      actorRol: userRol,
+      detalles: { reasignacion },
+    });
+
+    return { ...updatedAgente, reasignacion };
+  }
+
+  /**
+   * Reactivar un agente.
+   */
+  async activateAgent(agentId: string, userId: string, userRol: Rol) {
+    const agente = await this.findAgenteGestionable(agentId, userId, userRol);
+
+    if (agente.activo) {
+      throw new ConflictError("El agente ya está activo");
+    }
+
+    const usuario = await prisma.usuario.findUniqueOrThrow({
+      where: { id: agente.usuarioId },
+    });
+
+    // El perfil de un usuario inactivo o que ya no es agente sigue inactivo
+    if (!usuario.activo || usuario.rol !== Rol.AGENTE) {
+      throw new ConflictError(
+        "El usuario vinculado está inactivo o ya no tiene rol AGENTE",
+      );
+    }
+
+    const updatedAgente = await prisma.agente.update({
+      where: { id: agente.id },
+      data: { activo: true },
+      include: agenteInclude,
+    });
+
+    await this.logService.record({
+      accion: AccionLog.AGENTE_ACTIVADO,
+      entidad: EntidadLog.AGENTE,
+      entidadId: agente.id,
+      actorId: userId,
+      actorRol: userRol,
+    });
+
+    return updatedAgente;
+  }
+
+  /**
+   * Agente por ID, validando que el usuario pueda gestionarlo.
+   */
+  private async findAgenteGestionable(
+    agentId: string,
+    userId: string,
+    userRol: Rol,
+  ) {
+    const agente = await prisma.agente.findUnique({
+      where: { id: agentId },
+      include: agenteInclude,
+    });
+
+    if (!agente) {
+      throw new NotFoundError("Agente no encontrado");
+    }
+
+    if (userRol === Rol.SUPERVISOR) {
+      const gestionable = await prisma.agente.count({
+        where: { id: agentId, ...this.getAlcance(userId, userRol) },
+      });
+
+      if (!gestionable) {
+        throw new ForbiddenError(
+          "Solo puedes gestionar agentes de los equipos que supervisas",
+        );
+      }
+    }
+
+    return agente;
+  }
+
+  /**
+   * Supervisores solo alcanzan a los miembros de sus equipos.
+   */
+  private getAlcance(userId: string, userRol: Rol): Prisma.AgenteWhereInput {
+    if (userRol === Rol.SUPERVISOR) {
+      return {
+        equipos: { some: { supervisores: { some: { id: userId } } } },
+      };
+    }
+
+    return {};
+  }
+}
@@ -0,0 +1,148 @@
+import { Response } from "express";
+import { AuthRequest } from "../../shared/types";
+import { AvailabilityService } from "./availability.service";
+import { logInfo } from "../../config/logger.config";
+
+export class AvailabilityController {
+  private availabilityService: AvailabilityService;
+
+  constructor() {
+    this.availabilityService = new AvailabilityService();
+  }
+
+  /**
+   * GET /api/agents/:id/availability
+   * Disponibilidad actual, turno y ausencias del agente.
+   */
+  getAvailability = async (req: AuthRequest, res: Response): Promise<void> => {
+    const agentId = Array.isArray(req.params.id)
+      ? req.params.id[0]
+      : req.params.id;
+
+    const disponibilidad = await this.availabilityService.getAvailability(
+      agentId,
+      req.user!.userId,
+      req.user!.rol,
+    );
+
+    res.json({
+      success: true,
+      data: disponibilidad,
+    });
+  };
+
+  /**
+   * PUT /api/agents/:id/status
+   * Cambiar el estado de disponibilidad del agente.
+   */
+  setStatus = async (req: AuthRequest, res: Response): Promise<void> => {
+    const agentId = Array.isArray(req.params.id)
+      ? req.params.id[0]
+      : req.params.id;
+
+    const disponibilidad = await this.availabilityService.setStatus(
+      agentId,
+      req.body,
+      req.user!.userId,
+      req.user!.rol,
+    );
+
+    logInfo("Disponibilidad de agente actualizada", {
+      agenteId: disponibilidad.agenteId,
+      estado: disponibilidad.estado,
+      userId: req.user!.userId,
+    });
+
+    res.json({
+      success: true,
+      message: "Estado actualizado exitosamente",
+      data: disponibilidad,
+    });
+  };
+
+  /**
+   * PUT /api/agents/:id/shift
+   * Asignar o quitar el turno del agente.
+   */
+  setShift = async (req: AuthRequest, res: Response): Promise<void> => {
+    const agentId = Array.isArray(req.params.id)
+      ? req.params.id[0]
+      : req.params.id;
+
+    const agente = await this.availabilityService.setShift(
+      agentId,
+      req.body.turnoId,
+    );
+
+    logInfo("Turno de agente actualizado", {
+      agenteId: agentId,
+      turnoId: req.body.turnoId,
+      userId: req.user!.userId,
+    });
+
+    res.json({
+      success: true,
+      message: "Turno actualizado exitosamente",
+      data: agente,
+    });
+  };
+
+  /**
+   * POST /api/agents/:id/absences
+   * Registrar un período fuera de la oficina.
+   */
+  createAbsence = async (req: AuthRequest, res: Response): Promise<void> => {
+    const agentId = Array.isArray(req.params.id)
+      ? req.params.id[0]
+      : req.params.id;
+
+    const ausencia = await this.availabilityService.createAbsence(
+      agentId,
+      req.body,
+      req.user!.userId,
+      req.user!.rol,
+    );
+
+    logInfo("Ausencia de agente registrada", {
+      ausenciaId: ausencia.id,
+      agenteId: ausencia.agenteId,
+      userId: req.user!.userId,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: "Ausencia registrada exitosamente",
+      data: ausencia,
+    });
+  };
+
+  /**
+   * DELETE /api/agents/:id/absences/:absenceId
+   * Eliminar una ausencia.
+   */
+  deleteAbsence = async (req: AuthRequest, res: Response): Promise<void> => {
+    const agentId = Array.isArray(req.params.id)
+      ? req.params.id[0]
+      : req.params.id;
+    const absenceId = Array.isArray(req.params.absenceId)
+      ? req.params.absenceId[0]
+      : req.params.absenceId;
+
+    await this.availabilityService.deleteAbsence(
+      agentId,
+      absenceId,
+      req.user!.userId,
+      req.user!.rol,
+    );
+
+    logInfo("Ausencia de agente eliminada", {
+      ausenciaId: absenceId,
+      userId: req.user!.userId,
+    });
+
+    res.json({
+      success: true,
+      message: "Ausencia eliminada exitosamente",
+    });
+  };
+}
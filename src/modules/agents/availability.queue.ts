@@ -0,0 +1,73 @@
+import Queue from "bull";
+import { config } from "../../config/env.config";
+import { createQueue } from "../../config/queue.config";
+import { logError } from "../../config/logger.config";
+
+export const AUSENCIAS_QUEUE_NAME = "agent-absences";
+
+/**
+ * Cantidad de ejecuciones fallidas que se conservan para diagnóstico.
+ */
+const AUSENCIAS_JOB_FAILED_LIMIT = 50;
+
+export interface AusenciaJobData {
+  ausenciaId: string;
+}
+
+let ausenciasQueue: Queue.Queue<AusenciaJobData> | null = null;
+
+/**
+ * Obtiene la cola de inicio de ausencias.
+ * Se crea de forma diferida para no abrir conexiones antes de connectRedis().
+ */
+export const getAusenciasQueue = (): Queue.Queue<AusenciaJobData> => {
+  if (!ausenciasQueue) {
+    ausenciasQueue = createQueue<AusenciaJobData>(AUSENCIAS_QUEUE_NAME);
+    ausenciasQueue.on("failed", (job, error) => {
+      logError(error, { jobId: job.id, queue: AUSENCIAS_QUEUE_NAME });
+    });
+  }
+
+  return ausenciasQueue;
+};
+
+/**
+ * Registra el procesador de la cola.
+ */
+export const startAusenciasWorker = (
+  processor: (job: Queue.Job<AusenciaJobData>) => Promise<unknown>,
+): void => {
+  getAusenciasQueue().process(config.queueConcurrency, processor);
+};
+
+/**
+ * Programa el procesamiento de una ausencia para el momento en que comienza.
+ * El jobId es el de la ausencia, así se puede cancelar si se elimina.
+ */
+export const programarInicioAusencia = async (
+  ausenciaId: string,
+  desde: Date,
+): Promise<void> => {
+  await getAusenciasQueue().add(
+    { ausenciaId },
+    {
+      jobId: ausenciaId,
+      delay: Math.max(desde.getTime() - Date.now(), 0),
+      removeOnComplete: true,
+      removeOnFail: AUSENCIAS_JOB_FAILED_LIMIT,
+    },
+  );
+};
+
+/**
+ * Cancela el procesamiento pendiente de una ausencia, si existe.
+ */
+export const cancelarInicioAusencia = async (
+  ausenciaId: string,
+): Promise<void> => {
+  const job = await getAusenciasQueue().getJob(ausenciaId);
+
+  if (job && (await job.isDelayed())) {
+    await job.remove();
+  }
+};
@@ -0,0 +1,305 @@
+import Queue from "bull";
+import { prisma } from "../../config/database.config";
+import { logInfo } from "../../config/logger.config";
+import {
+  UpdateAgentStatusDto,
+  CreateAbsenceDto,
+  NotFoundError,
+  ForbiddenError,
+  ValidationError,
+} from "../../shared/types";
+import { EstadoDisponibilidad, Rol } from "@prisma/client";
+import { TicketService } from "../tickets/ticket.service";
+import { LogService } from "../logs/log.service";
+import { AccionLog, EntidadLog } from "../logs/log.model";
+import { calendarioSLAInclude } from "../sla/calendar.service";
+import {
+  disponibilidadInclude,
+  evaluarDisponibilidad,
+} from "./availability.utils";
+import {
+  AusenciaJobData,
+  startAusenciasWorker,
+  programarInicioAusencia,
+  cancelarInicioAusencia,
+} from "./availability.queue";
+
+/**
+ * Alias para que un agente opere sobre su propio perfil.
+ */
+const AGENTE_ACTUAL = "me";
+
+export class AvailabilityService {
+  private ticketService: TicketService;
+  private logService: LogService;
+
+  constructor() {
+    this.ticketService = new TicketService();
+    this.logService = new LogService();
+  }
+
+  /**
+   * Inicia el worker que procesa el comienzo de las ausencias programadas.
+   */
+  startWorker(): void {
+    startAusenciasWorker((job) => this.processAusencia(job));
+  }
+
+  /**
+   * Estado de disponibilidad, turno y ausencias vigentes o futuras.
+   */
+  async getAvailability(agentIdParam: string, userId: string, userRol: Rol) {
+    const { id } = await this.resolveAgente(agentIdParam, userId, userRol);
+    const now = new Date();
+
+    const agente = await prisma.agente.findUniqueOrThrow({
+      where: { id },
+      include: disponibilidadInclude(now),
+    });
+
+    const ausencias = await prisma.ausenciaAgente.findMany({
+      where: { agenteId: id, hasta: { gt: now } },
+      orderBy: { desde: "asc" },
+    });
+
+    return {
+      agenteId: agente.id,
+      nombre: agente.nombre,
+      estado: agente.disponibilidad,
+      turno: agente.turno,
+      ausencias,
+      ...evaluarDisponibilidad(agente, now),
+    };
+  }
+
+  /**
+   * Cambiar el estado declarado del agente.
+   * Si deja de estar DISPONIBLE puede reasignar sus tickets abiertos.
+   */
+  async setStatus(
+    agentIdParam: string,
+    data: UpdateAgentStatusDto,
+    userId: string,
+    userRol: Rol,
+  ) {
+    const agente = await this.resolveAgente(agentIdParam, userId, userRol);
+
+    await prisma.agente.update({
+      where: { id: agente.id },
+      data: { disponibilidad: data.estado },
+    });
+
+    const reasignacion =
+      data.reasignarTickets && data.estado !== EstadoDisponibilidad.DISPONIBLE
+        ? await this.ticketService.reasignarTicketsDeAgente(
+            agente.id,
+            `Agente ${agente.nombre} cambió su estado a ${data.estado}`,
+          )
+        : null;
+
+    await this.logService.record({
+      accion: AccionLog.AGENTE_DISPONIBILIDAD_ACTUALIZADA,
+      entidad: EntidadLog.AGENTE,
+      entidadId: agente.id,
+      actorId: userId,
+      actorRol: userRol,
+      detalles: {
+        estadoAnterior: agente.disponibilidad,
+        estadoNuevo: data.estado,
+        reasignacion,
+      },
+    });
+
+    return {
+      ...(await this.getAvailability(agente.id, userId, userRol)),
+      reasignacion,
+    };
+  }
+
+  /**
+   * Asignar o quitar el turno (calendario laboral) de un agente.
+   */
+  async setShift(agentId: string, turnoId: string | null) {
+    const agente = await prisma.agente.findUnique({
+      where: { id: agentId },
+    });
+
+    if (!agente) {
+      throw new NotFoundError("Agente no encontrado");
+    }
+
+    if (turnoId) {
+      const calendario = await prisma.calendarioLaboral.findUnique({
+        where: { id: turnoId },
+      });
+
+      if (!calendario) {
+        throw new NotFoundError("Calendario no encontrado");
+      }
+    }
+
+    const updatedAgente = await prisma.agente.update({
+      where: { id: agentId },
+      data: { turnoId },
+      include: {
+        turno: { include: calendarioSLAInclude },
+      },
+    });
+
+    return updatedAgente;
+  }
+
+  /**
+   * Registrar un período fuera de la oficina.
+   * Con reasignarTickets, los tickets abiertos se reparten cuando comienza.
+   */
+  async createAbsence(
+    agentIdParam: string,
+    data: CreateAbsenceDto,
+    userId: string,
+    userRol: Rol,
+  ) {
+    const agente = await this.resolveAgente(agentIdParam, userId, userRol);
+    const desde = new Date(data.desde);
+    const hasta = new Date(data.hasta);
+
+    if (hasta <= new Date()) {
+      throw new ValidationError("La ausencia debe terminar en el futuro");
+    }
+
+    const ausencia = await prisma.ausenciaAgente.create({
+      data: {
+        agenteId: agente.id,
+        desde,
+        hasta,
+        motivo: data.motivo,
+        reasignarTickets: data.reasignarTickets ?? false,
+      },
+    });
+
+    if (ausencia.reasignarTickets) {
+      await programarInicioAusencia(ausencia.id, desde);
+    }
+
+    await this.logService.record({
+      accion: AccionLog.AGENTE_AUSENCIA_REGISTRADA,
+      entidad: EntidadLog.AGENTE,
+      entidadId: agente.id,
+      actorId: userId,
+      actorRol: userRol,
+      detalles: {
+        ausenciaId: ausencia.id,
+        desde,
+        hasta,
+        reasignarTickets: ausencia.reasignarTickets,
+      },
+    });
+
+    return ausencia;
+  }
+
+  /**
+   * Eliminar una ausencia y cancelar su reasignación pendiente.
+   */
+  async deleteAbsence(
+    agentIdParam: string,
+    absenceId: string,
+    userId: string,
+    userRol: Rol,
+  ) {
+    const agente = await this.resolveAgente(agentIdParam, userId, userRol);
+
+    const ausencia = await prisma.ausenciaAgente.findUnique({
+      where: { id: absenceId },
+    });
+
+    if (!ausencia || ausencia.agenteId !== agente.id) {
+      throw new NotFoundError("Ausencia no encontrada");
+    }
+
+    await prisma.ausenciaAgente.delete({
+      where: { id: absenceId },
+    });
+
+    if (ausencia.reasignarTickets) {
+      await cancelarInicioAusencia(absenceId);
+    }
+
+    await this.logService.record({
+      accion: AccionLog.AGENTE_AUSENCIA_ELIMINADA,
+      entidad: EntidadLog.AGENTE,
+      entidadId: agente.id,
+      actorId: userId,
+      actorRol: userRol,
+      detalles: { ausenciaId: absenceId },
+    });
+  }
+
+  /**
+   * Procesador de la cola: reasigna los tickets al comenzar la ausencia.
+   * La ausencia pudo eliminarse después de programarse.
+   */
+  private async processAusencia(job: Queue.Job<AusenciaJobData>) {
+    const ausencia = await prisma.ausenciaAgente.findUnique({
+      where: { id: job.data.ausenciaId },
+      include: { agente: true },
+    });
+
+    if (!ausencia) {
+      return { omitido: true, motivo: "La ausencia ya no existe" };
+    }
+
+    const reasignacion = await this.ticketService.reasignarTicketsDeAgente(
+      ausencia.agenteId,
+      `Agente ${ausencia.agente.nombre} fuera de la oficina hasta ${ausencia.hasta.toISOString()}`,
+    );
+
+    logInfo("Tickets reasignados por ausencia de agente", {
+      ausenciaId: ausencia.id,
+      agenteId: ausencia.agenteId,
+      totalTickets: reasignacion.totalTickets,
+    });
+
+    await this.logService.record({
+      accion: AccionLog.AGENTE_TICKETS_REASIGNADOS,
+      entidad: EntidadLog.AGENTE,
+      entidadId: ausencia.agenteId,
+      detalles: { ausenciaId: ausencia.id, ...reasignacion },
+    });
+
+    return reasignacion;
+  }
+
+  /**
+   * Resuelve el agente del parámetro (ID o "me").
+   * Un AGENTE solo puede operar sobre su propio perfil.
+   */
+  private async resolveAgente(
+    agentIdParam: string,
+    userId: string,
+    userRol: Rol,
+  ) {
+    const agente = await prisma.agente.findUnique({
+      where:
+        agentIdParam === AGENTE_ACTUAL
+          ? { usuarioId: userId }
+          : { id: agentIdParam },
+    });
+
+    if (!agente) {
+      throw new NotFoundError(
+        agentIdParam === AGENTE_ACTUAL
+          ? "No tienes un perfil de agente asociado"
+          : "Agente no encontrado",
+      );
+    }
+
+    if (userRol === Rol.AGENTE && agente.usuarioId !== userId) {
+      throw new ForbiddenError(
+        "No tienes permiso para modificar la disponibilidad de otro agente",
+      );
+    }
+
+    return agente;
+  }
+}
@@ -0,0 +1,64 @@
+import { EstadoDisponibilidad, Prisma } from "@prisma/client";
+import { calendarioSLAInclude } from "../sla/calendar.service";
+import { estaEnHorarioLaboral } from "../sla/calendar.utils";
+
+/**
+ * Disponibilidad de un agente para recibir tickets.
+ * Combina el estado declarado, las ausencias programadas y el turno.
+ */
+
+/**
+ * Relaciones necesarias para evaluar la disponibilidad en un instante:
+ * el turno con su horario y solo las ausencias vigentes.
+ */
+export const disponibilidadInclude = (now: Date) =>
+  ({
+    turno: { include: calendarioSLAInclude },
+    ausencias: {
+      where: { desde: { lte: now }, hasta: { gt: now } },
+    },
+  }) satisfies Prisma.AgenteInclude;
+
+export type AgenteConDisponibilidad = Prisma.AgenteGetPayload<{
+  include: ReturnType<typeof disponibilidadInclude>;
+}>;
+
+export interface Disponibilidad {
+  disponible: boolean;
+  motivo: string | null;
+}
+
+/**
+ * Evalúa si el agente puede recibir tickets ahora.
+ * Requiere haber cargado el agente con disponibilidadInclude(now).
+ */
+export const evaluarDisponibilidad = (
+  agente: AgenteConDisponibilidad,
+  now: Date,
+): Disponibilidad => {
+  if (!agente.activo) {
+    return { disponible: false, motivo: "Agente inactivo" };
+  }
+
+  if (agente.disponibilidad === EstadoDisponibilidad.AUSENTE) {
+    return { disponible: false, motivo: "Fuera de la oficina" };
+  }
+
+  if (agente.disponibilidad === EstadoDisponibilidad.OCUPADO) {
+    return { disponible: false, motivo: "No disponible" };
+  }
+
+  const ausencia = agente.ausencias[0];
+  if (ausencia) {
+    return {
+      disponible: false,
+      motivo: `Ausencia programada hasta ${ausencia.hasta.toISOString()}`,
+    };
+  }
+
+  if (agente.turno && !estaEnHorarioLaboral(now, agente.turno)) {
+    return { disponible: false, motivo: "Fuera de su turno" };
+  }
+
+  return { disponible: true, motivo: null };
+};
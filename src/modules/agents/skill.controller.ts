@@ -0,0 +1,127 @@
+import { Response } from "express";
+import { AuthRequest } from "../../shared/types";
+import { SkillService } from "./skill.service";
+import { logInfo } from "../../config/logger.config";
+
+export class SkillController {
+  private skillService: SkillService;
+
+  constructor() {
+    this.skillService = new SkillService();
+  }
+
+  /**
+   * POST /api/skills
+   * Crear una habilidad.
+   */
+  createSkill = async (req: AuthRequest, res: Response): Promise<void> => {
+    const habilidad = await this.skillService.createSkill(req.body);
+
+    logInfo("Habilidad creada", {
+      habilidadId: habilidad.id,
+      nombre: habilidad.nombre,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: "Habilidad creada exitosamente",
+      data: habilidad,
+    });
+  };
+
+  /**
+   * GET /api/skills
+   * Listar el catálogo de habilidades.
+   */
+  getSkills = async (_req: AuthRequest, res: Response): Promise<void> => {
+    const habilidades = await this.skillService.getSkills();
+
+    res.json({
+      success: true,
+      data: habilidades,
+    });
+  };
+
+  /**
+   * GET /api/skills/:id
+   * Obtener una habilidad con sus agentes.
+   */
+  getSkillById = async (req: AuthRequest, res: Response): Promise<void> => {
+    const skillId = Array.isArray(req.params.id)
+      ? req.params.id[0]
+      : req.params.id;
+
+    const habilidad = await this.skillService.getSkillById(skillId);
+
+    res.json({
+      success: true,
+      data: habilidad,
+    });
+  };
+
+  /**
+   * PUT /api/skills/:id
+   * Actualizar una habilidad.
+   */
+  updateSkill = async (req: AuthRequest, res: Response): Promise<void> => {
+    const skillId = Array.isArray(req.params.id)
+      ? req.params.id[0]
+      : req.params.id;
+
+    const habilidad = await this.skillService.updateSkill(skillId, req.body);
+
+    logInfo("Habilidad actualizada", { habilidadId: skillId });
+
+    res.json({
+      success: true,
+      message: "Habilidad actualizada exitosamente",
+      data: habilidad,
+    });
+  };
+
+  /**
+   * DELETE /api/skills/:id
+   * Eliminar una habilidad.
+   */
+  deleteSkill = async (req: AuthRequest, res: Response): Promise<void> => {
+    const skillId = Array.isArray(req.params.id)
+      ? req.params.id[0]
+      : req.params.id;
+
+    await this.skillService.deleteSkill(skillId);
+
+    logInfo("Habilidad eliminada", { habilidadId: skillId });
+
+    res.json({
+      success: true,
+      message: "Habilidad eliminada exitosamente",
+    });
+  };
+
+  /**
+   * PUT /api/skills/agents/:agentId
+   * Reemplazar las habilidades de un agente.
+   */
+  setAgentSkills = async (req: AuthRequest, res: Response): Promise<void> => {
+    const agentId = Array.isArray(req.params.agentId)
+      ? req.params.agentId[0]
+      : req.params.agentId;
+
+    const agente = await this.skillService.setAgentSkills(
+      agentId,
+      req.body.habilidadIds,
+    );
+
+    logInfo("Habilidades de agente actualizadas", {
+      agenteId: agentId,
+      habilidadIds: req.body.habilidadIds,
+      userId: req.user!.userId,
+    });
+
+    res.json({
+      success: true,
+      message: "Habilidades del agente actualizadas exitosamente",
+      data: agente,
+    });
+  };
+}
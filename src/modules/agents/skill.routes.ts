@@ -0,0 +1,78 @@
+import { Router } from "express";
+import { SkillController } from "./skill.controller";
+import { asyncHandler } from "../../shared/middleware/errorHandler";
+import {
+  authenticate,
+  authorize,
+} from "../../shared/middleware/auth.middleware";
+import {
+  validateCreateSkill,
+  validateUpdateSkill,
+  validateSetAgentSkills,
+} from "../../shared/middleware/validation.middleware";
+import { Rol } from "@prisma/client";
+
+const router = Router();
+const skillController = new SkillController();
+
+/**
+ * Todas las rutas requieren autenticación.
+ */
+router.use(authenticate);
+
+/**
+ * GET /api/skills
+ * Listar habilidades (todos los roles, para categorizar tickets).
+ */
+router.get("/", asyncHandler(skillController.getSkills));
+
+/**
+ * POST /api/skills
+ * Crear habilidad (solo ADMIN).
+ */
+router.post(
+  "/",
+  authorize(Rol.ADMIN),
+  validateCreateSkill,
+  asyncHandler(skillController.createSkill),
+);
+
+/**
+ * PUT /api/skills/agents/:agentId
+ * Reemplazar las habilidades de un agente (ADMIN y SUPERVISOR).
+ */
+router.put(
+  "/agents/:agentId",
+  authorize(Rol.ADMIN, Rol.SUPERVISOR),
+  validateSetAgentSkills,
+  asyncHandler(skillController.setAgentSkills),
+);
+
+/**
+ * GET /api/skills/:id
+ * Obtener habilidad con sus agentes.
+ */
+router.get("/:id", asyncHandler(skillController.getSkillById));
+
+/**
+ * PUT /api/skills/:id
+ * Actualizar habilidad (solo ADMIN).
+ */
+router.put(
+  "/:id",
+  authorize(Rol.ADMIN),
+  validateUpdateSkill,
+  asyncHandler(skillController.updateSkill),
+);
+
+/**
+ * DELETE /api/skills/:id
+ * Eliminar habilidad (solo ADMIN).
+ */
+router.delete(
+  "/:id",
+  authorize(Rol.ADMIN),
+  asyncHandler(skillController.deleteSkill),
+);
+
+export { router as skillRoutes };
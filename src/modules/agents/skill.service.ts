@@ -0,0 +1,169 @@
+import { prisma } from "../../config/database.config";
+import {
+  CreateSkillDto,
+  UpdateSkillDto,
+  NotFoundError,
+  ConflictError,
+} from "../../shared/types";
+
+export class SkillService {
+  /**
+   * Crear una habilidad del catálogo.
+   */
+  async createSkill(data: CreateSkillDto) {
+    const existing = await prisma.habilidad.findUnique({
+      where: { nombre: data.nombre },
+    });
+
+    if (existing) {
+      throw new ConflictError("Ya existe una habilidad con ese nombre");
+    }
+
+    const habilidad = await prisma.habilidad.create({
+      data: {
+        nombre: data.nombre,
+        descripcion: data.descripcion,
+      },
+    });
+
+    return habilidad;
+  }
+
+  /**
+   * Listar el catálogo de habilidades con la cantidad de agentes que las tienen.
+   */
+  async getSkills() {
+    const habilidades = await prisma.habilidad.findMany({
+      orderBy: { nombre: "asc" },
+      include: {
+        _count: {
+          select: {
+            agentes: true,
+          },
+        },
+      },
+    });
+
+    return habilidades;
+  }
+
+  /**
+   * Obtener una habilidad con los agentes que la poseen.
+   */
+  async getSkillById(skillId: string) {
+    const habilidad = await prisma.habilidad.findUnique({
+      where: { id: skillId },
+      include: {
+        agentes: {
+          select: {
+            id: true,
+            nombre: true,
+            nivel: true,
+            activo: true,
+          },
+        },
+      },
+    });
+
+    if (!habilidad) {
+      throw new NotFoundError("Habilidad no encontrada");
+    }
+
+    return habilidad;
+  }
+
+  /**
+   * Actualizar una habilidad.
+   */
+  async updateSkill(skillId: string, data: UpdateSkillDto) {
+    const habilidad = await prisma.habilidad.findUnique({
+      where: { id: skillId },
+    });
+
+    if (!habilidad) {
+      throw new NotFoundError("Habilidad no encontrada");
+    }
+
+    if (data.nombre && data.nombre !== habilidad.nombre) {
+      const existing = await prisma.habilidad.findUnique({
+        where: { nombre: data.nombre },
+      });
+
+      if (existing) {
+        throw new ConflictError("Ya existe una habilidad con ese nombre");
+      }
+    }
+
+    const updatedHabilidad = await prisma.habilidad.update({
+      where: { id: skillId },
+      data: {
+        nombre: data.nombre,
+        descripcion: data.descripcion,
+      },
+    });
+
+    return updatedHabilidad;
+  }
+
+  /**
+   * Eliminar una habilidad.
+   * Se quita de los agentes y de los tickets que la requerían.
+   */
+  async deleteSkill(skillId: string) {
+    const habilidad = await prisma.habilidad.findUnique({
+      where: { id: skillId },
+    });
+
+    if (!habilidad) {
+      throw new NotFoundError("Habilidad no encontrada");
+    }
+
+    await prisma.habilidad.delete({
+      where: { id: skillId },
+    });
+  }
+
+  /**
+   * Reemplazar las habilidades de un agente.
+   */
+  async setAgentSkills(agenteId: string, habilidadIds: string[]) {
+    const agente = await prisma.agente.findUnique({
+      where: { id: agenteId },
+    });
+
+    if (!agente) {
+      throw new NotFoundError("Agente no encontrado");
+    }
+
+    await this.assertSkillsExist(habilidadIds);
+
+    const updatedAgente = await prisma.agente.update({
+      where: { id: agenteId },
+      data: {
+        habilidades: {
+          set: habilidadIds.map((id) => ({ id })),
+        },
+      },
+      include: {
+        habilidades: true,
+      },
+    });
+
+    return updatedAgente;
+  }
+
+  /**
+   * Verifica que todas las habilidades existan.
+   */
+  async assertSkillsExist(habilidadIds: string[]) {
+    const unicas = new Set(habilidadIds);
+
+    const total = await prisma.habilidad.count({
+      where: { id: { in: [...unicas] } },
+    });
+
+    if (total !== unicas.size) {
+      throw new NotFoundError("Una o más habilidades no existen");
+    }
+  }
+}
@@ -0,0 +1,89 @@
+import { Response } from "express";
+import { AuthRequest } from "../../shared/types";
+import { ApiKeyService } from "./api-key.service";
+import { logInfo } from "../../config/logger.config";
+
+export class ApiKeyController {
+  private apiKeyService: ApiKeyService;
+
+  constructor() {
+    this.apiKeyService = new ApiKeyService();
+  }
+
+  /**
+   * POST /api/api-keys
+   * Crear una API key. La key completa solo se muestra en esta respuesta.
+   */
+  createApiKey = async (req: AuthRequest, res: Response): Promise<void> => {
+    const apiKey = await this.apiKeyService.createApiKey(
+      req.body,
+      req.user!.userId,
+      req.user!.rol,
+    );
+
+    logInfo("API key creada", {
+      apiKeyId: apiKey.id,
+      usuarioId: apiKey.usuario.id,
+      adminId: req.user!.userId,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: "API key creada. Guárdala ahora: no se volverá a mostrar",
+      data: apiKey,
+    });
+  };
+
+  /**
+   * GET /api/api-keys
+   * Listar API keys con filtros y paginación.
+   */
+  getApiKeys = async (req: AuthRequest, res: Response): Promise<void> => {
+    const filters = {
+      usuarioId: req.query.usuarioId as string | undefined,
+      activas:
+        req.query.activas !== undefined
+          ? req.query.activas === "true"
+          : undefined,
+    };
+
+    const pagination = {
+      page: req.query.page ? Number(req.query.page) : 1,
+      pageSize: req.query.pageSize ? Number(req.query.pageSize) : 10,
+    };
+
+    const result = await this.apiKeyService.getApiKeys(filters, pagination);
+
+    res.json({
+      success: true,
+      ...result,
+    });
+  };
+
+  /**
+   * DELETE /api/api-keys/:id
+   * Revocar una API key.
+   */
+  revokeApiKey = async (req: AuthRequest, res: Response): Promise<void> => {
+    const apiKeyId = Array.isArray(req.params.id)
+      ? req.params.id[0]
+      : req.params.id;
+
+    const apiKey = await this.apiKeyService.revokeApiKey(
+      apiKeyId,
+      req.user!.userId,
+      req.user!.rol,
+    );
+
+    logInfo("API key revocada", {
+      apiKeyId,
+      adminId: req.user!.userId,
+    });
+
+    res.json({
+      success: true,
+      message: "API key revocada",
+      data: apiKey,
+    });
+  };
+}
@@ -0,0 +1,50 @@
+import { Router } from "express";
+import { ApiKeyController } from "./api-key.controller";
+import { asyncHandler } from "../../shared/middleware/errorHandler";
+import {
+  authenticate,
+  authorize,
+} from "../../shared/middleware/auth.middleware";
+import {
+  validateCreateApiKey,
+  validateApiKeyFilters,
+  validatePagination,
+} from "../../shared/middleware/validation.middleware";
+import { Rol } from "@prisma/client";
+
+const router = Router();
+const apiKeyController = new ApiKeyController();
+
+/**
+ * Todas las rutas requieren autenticación y rol ADMIN.
+ */
+router.use(authenticate, authorize(Rol.ADMIN));
+
+/**
+ * POST /api/api-keys
+ * Crear una API key para una integración.
+ */
+router.post(
+  "/",
+  validateCreateApiKey,
+  asyncHandler(apiKeyController.createApiKey),
+);
+
+/**
+ * GET /api/api-keys
+ * Listar API keys (filtros: usuarioId, activas).
+ */
+router.get(
+  "/",
+  validatePagination,
+  validateApiKeyFilters,
+  asyncHandler(apiKeyController.getApiKeys),
+);
+
+/**
+ * DELETE /api/api-keys/:id
+ * Revocar una API key.
+ */
+router.delete("/:id", asyncHandler(apiKeyController.revokeApiKey));
+
+export { router as apiKeyRoutes };
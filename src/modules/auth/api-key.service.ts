@@ -0,0 +1,267 @@
+import { createHash, randomBytes } from "crypto";
+import { prisma } from "../../config/database.config";
+import {
+  ApiKeyContext,
+  ApiKeyFilters,
+  CreateApiKeyDto,
+  JwtPayload,
+  PaginationParams,
+  NotFoundError,
+  ConflictError,
+  UnauthorizedError,
+  ValidationError,
+} from "../../shared/types";
+import { Prisma, Rol } from "@prisma/client";
+import { LogService } from "../logs/log.service";
+import { AccionLog, EntidadLog } from "../logs/log.model";
+
+const KEY_PREFIX = "tsp_";
+// Caracteres visibles de la key en los listados (incluye KEY_PREFIX)
+const LARGO_PREFIJO = 12;
+// lastUsedAt se actualiza como mucho una vez por intervalo
+const INTERVALO_ULTIMO_USO_MS = 60 * 1000;
+
+/**
+ * Campos públicos de la API key: nunca se expone el hash.
+ */
+const apiKeySelect = {
+  id: true,
+  nombre: true,
+  prefijo: true,
+  scopes: true,
+  expiresAt: true,
+  lastUsedAt: true,
+  lastUsedIp: true,
+  revokedAt: true,
+  createdAt: true,
+  usuario: {
+    select: {
+      id: true,
+      nombre: true,
+      email: true,
+      rol: true,
+    },
+  },
+} satisfies Prisma.ApiKeySelect;
+
+/**
+ * API keys para integraciones (monitoreo, CRM).
+ *
+ * La key se envía en el header X-API-Key y actúa en nombre de su usuario
+ * de servicio, con su rol y su visibilidad, pero solo en las rutas que
+ * declaran alguno de sus scopes (requireScope). Ese usuario no puede ser
+ * ADMIN. En la base de datos solo se guarda el hash SHA-256 de la key.
+ */
+export class ApiKeyService {
+  private logService: LogService;
+
+  constructor() {
+    this.logService = new LogService();
+  }
+
+  /**
+   * Crear una API key. La key completa solo se retorna en esta respuesta.
+   */
+  async createApiKey(data: CreateApiKeyDto, adminId: string, adminRol: Rol) {
+    const usuarioId = data.usuarioId;
+
+    const usuario = await prisma.usuario.findUnique({
+      where: { id: usuarioId },
+    });
+
+    if (!usuario) {
+      throw new NotFoundError("Usuario no encontrado");
+    }
+
+    if (!usuario.activo) {
+      throw new ValidationError(
+        "No se puede crear una API key para un usuario inactivo",
+      );
+    }
+
+    if (usuario.rol === Rol.ADMIN) {
+      throw new ValidationError(
+        "Una API key no puede actuar como ADMIN. Asígnala a un usuario de servicio SUPERVISOR o AGENTE",
+      );
+    }
+
+    const key = `${KEY_PREFIX}${randomBytes(32).toString("base64url")}`;
+
+    const apiKey = await prisma.apiKey.create({
+      data: {
+        nombre: data.nombre,
+        prefijo: key.slice(0, LARGO_PREFIJO),
+        keyHash: this.hashKey(key),
+        scopes: [...new Set(data.scopes)],
+        usuarioId,
+        expiresAt: data.expiresAt ? new Date(data.expiresAt) : null,
+      },
+      select: apiKeySelect,
+    });
+
+    await this.logService.record({
+      accion: AccionLog.API_KEY_CREADA,
+      entidad: EntidadLog.API_KEY,
+      entidadId: apiKey.id,
+      actorId: adminId,
+      actorRol: adminRol,
+      detalles: {
+        nombre: apiKey.nombre,
+        usuarioId,
+        scopes: apiKey.scopes,
+        expiresAt: apiKey.expiresAt,
+      },
+    });
+
+    return { ...apiKey, key };
+  }
+
+  /**
+   * Listar API keys con filtros y paginación.
+   */
+  async getApiKeys(filters: ApiKeyFilters, pagination: PaginationParams) {
+    const page = pagination.page || 1;
+    const pageSize = Math.min(pagination.pageSize || 10, 100);
+    const skip = (page - 1) * pageSize;
+
+    const where: Prisma.ApiKeyWhereInput = {};
+    const now = new Date();
+
+    if (filters.usuarioId) {
+      where.usuarioId = filters.usuarioId;
+    }
+
+    if (filters.activas === true) {
+      where.revokedAt = null;
+      where.OR = [{ expiresAt: null }, { expiresAt: { gt: now } }];
+    } else if (filters.activas === false) {
+      where.OR = [{ revokedAt: { not: null } }, { expiresAt: { lte: now } }];
+    }
+
+    const [apiKeys, totalItems] = await Promise.all([
+      prisma.apiKey.findMany({
+        where,
+        skip,
+        take: pageSize,
+        select: apiKeySelect,
+        orderBy: {
+          createdAt: "desc",
+        },
+      }),
+      prisma.apiKey.count({ where }),
+    ]);
+
+    const totalPages = Math.ceil(totalItems / pageSize);
+
+    return {
+      data: apiKeys,
+      pagination: {
+        page,
+        pageSize,
+        totalItems,
+        totalPages,
+        hasNextPage: page < totalPages,
+        hasPreviousPage: page > 1,
+      },
+    };
+  }
+
+  /**
+   * Revocar una API key: deja de aceptarse de inmediato.
+   */
+  async revokeApiKey(apiKeyId: string, adminId: string, adminRol: Rol) {
+    const apiKey = await prisma.apiKey.findUnique({
+      where: { id: apiKeyId },
+    });
+
+    if (!apiKey) {
+      throw new NotFoundError("API key no encontrada");
+    }
+
+    if (apiKey.revokedAt) {
+      throw new ConflictError("La API key ya está revocada");
+    }
+
+    const revocada = await prisma.apiKey.update({
+      where: { id: apiKeyId },
+      data: { revokedAt: new Date() },
+      select: apiKeySelect,
+    });
+
+    await this.logService.record({
+      accion: AccionLog.API_KEY_REVOCADA,
+      entidad: EntidadLog.API_KEY,
+      entidadId: apiKeyId,
+      actorId: adminId,
+      actorRol: adminRol,
+      detalles: { nombre: apiKey.nombre, usuarioId: apiKey.usuarioId },
+    });
+
+    return revocada;
+  }
+
+  /**
+   * Autenticar una petición con API key. Retorna el usuario en nombre
+   * del cual actúa y los scopes de la key.
+   */
+  async authenticate(
+    key: string,
+    ip?: string,
+  ): Promise<{ payload: JwtPayload; apiKey: ApiKeyContext }> {
+    const apiKey = await prisma.apiKey.findUnique({
+      where: { keyHash: this.hashKey(key) },
+      include: { usuario: true },
+    });
+
+    if (!apiKey || apiKey.revokedAt || !apiKey.usuario.activo) {
+      throw new UnauthorizedError("API key inválida o revocada");
+    }
+
+    // Keys creadas antes de esta restricción o usuario promovido después
+    if (apiKey.usuario.rol === Rol.ADMIN) {
+      throw new UnauthorizedError(
+        "La API key pertenece a un ADMIN y no puede usarse",
+      );
+    }
+
+    const now = new Date();
+
+    if (apiKey.expiresAt && apiKey.expiresAt <= now) {
+      throw new UnauthorizedError("API key expirada");
+    }
+
+    // Registro de uso acotado para no escribir en cada petición
+    await prisma.apiKey.updateMany({
+      where: {
+        id: apiKey.id,
+        OR: [
+          { lastUsedAt: null },
+          {
+            lastUsedAt: {
+              lt: new Date(now.getTime() - INTERVALO_ULTIMO_USO_MS),
+            },
+          },
+        ],
+      },
+      data: { lastUsedAt: now, lastUsedIp: ip ?? null },
+    });
+
+    return {
+      payload: {
+        userId: apiKey.usuario.id,
+        email: apiKey.usuario.email,
+        rol: apiKey.usuario.rol,
+        rolPersonalizadoId: apiKey.usuario.rolPersonalizadoId ?? undefined,
+      },
+      apiKey: {
+        id: apiKey.id,
+        scopes: apiKey.scopes,
+        scopeVerificado: false,
+      },
+    };
+  }
+
+  private hashKey(key: string): string {
+    return createHash("sha256").update(key).digest("hex");
+  }
+}
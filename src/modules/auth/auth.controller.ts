@@ -1,21 +1,37 @@
 import { Response } from "express";
-import { AuthRequest } from "../../shared/types";
+import { AuthRequest, SessionContext } from "../../shared/types";
 import { AuthService } from "./auth.service";
+import { SessionService } from "./session.service";
+import { TwoFactorService } from "./two-factor.service";
+import { OidcService } from "./oidc.service";
+import { PermissionService } from "../roles/permission.service";
 import { logInfo } from "../../config/logger.config";
 
 export class AuthController {
   private authService: AuthService;
+  private sessionService: SessionService;
+  private twoFactorService: TwoFactorService;
+  private permissionService: PermissionService;
+  private oidcService: OidcService;
 
   constructor() {
     this.authService = new AuthService();
+    this.sessionService = new SessionService();
+    this.twoFactorService = new TwoFactorService();
+    this.permissionService = new PermissionService();
+    this.oidcService = new OidcService();
   }
 
   /**
    * POST /api/auth/register
-   * Registrar un nuevo usuario (solo ADMIN).
+   * Registrar un nuevo usuario (permiso user.register).
    */
   register = async (req: AuthRequest, res: Response): Promise<void> => {
-    const user = await this.authService.register(req.body);
+    const user = await this.authService.register(
+      req.body,
+      req.user!.userId,
+      req.user!.rol,
+    );
 
     logInfo("Usuario registrado", {
       userId: user.id,
@@ -31,13 +47,84 @@ export class AuthController {
 
   /**
    * POST /api/auth/login
-   * Iniciar sesión y obtener tokens.
+   * Iniciar sesión y obtener tokens, o el desafío de 2FA.
    */
   login = async (req: AuthRequest, res: Response): Promise<void> => {
-    const tokens = await this.authService.login(req.body);
+    const result = await this.authService.login(
+      req.body,
+      this.getSessionContext(req),
+    );
+
+    if ("requiere2FA" in result) {
+      res.json({
+        success: true,
+        message: "Se requiere autenticación de dos factores",
+        data: result,
+      });
+      return;
+    }
 
     logInfo("Usuario inició sesión", { email: req.body.email });
 
+    res.json({
+      success: true,
+      message: "Login exitoso",
+      data: result,
+    });
+  };
+
+  /**
+   * GET /api/auth/oidc/login
+   * Redirigir al proveedor de identidad para iniciar sesión con SSO.
+   */
+  oidcLogin = async (req: AuthRequest, res: Response): Promise<void> => {
+    const url = await this.oidcService.getAuthorizationUrl();
+
+    res.redirect(url);
+  };
+
+  /**
+   * GET|POST /api/auth/oidc/callback
+   * Completar el login SSO y obtener los tokens, o el desafío de 2FA.
+   */
+  oidcCallback = async (req: AuthRequest, res: Response): Promise<void> => {
+    const { code, state } = req.method === "GET" ? req.query : req.body;
+
+    const result = await this.oidcService.handleCallback(
+      { code: String(code), state: String(state) },
+      this.getSessionContext(req),
+    );
+
+    if ("requiere2FA" in result) {
+      res.json({
+        success: true,
+        message: "Se requiere autenticación de dos factores",
+        data: result,
+      });
+      return;
+    }
+
+    logInfo("Usuario inició sesión con SSO");
+
+    res.json({
+      success: true,
+      message: "Login exitoso",
+      data: result,
+    });
+  };
+
+  /**
+   * POST /api/auth/login/2fa
+   * Completar el login con el segundo factor.
+   */
+  loginTwoFactor = async (req: AuthRequest, res: Response): Promise<void> => {
+    const tokens = await this.authService.loginTwoFactor(
+      req.body,
+      this.getSessionContext(req),
+    );
+
+    logInfo("Usuario inició sesión con 2FA");
+
     res.json({
       success: true,
       message: "Login exitoso",
@@ -45,12 +132,54 @@ export class AuthController {
     });
   };
 
+  /**
+   * POST /api/auth/login/2fa/setup
+   * Generar el secreto TOTP durante el enrolamiento obligatorio.
+   */
+  setupLoginTwoFactor = async (
+    req: AuthRequest,
+    res: Response,
+  ): Promise<void> => {
+    const setup = await this.authService.setupLoginTwoFactor(req.body);
+
+    res.json({
+      success: true,
+      data: setup,
+    });
+  };
+
+  /**
+   * POST /api/auth/login/2fa/enable
+   * Confirmar el enrolamiento obligatorio y completar el login.
+   */
+  enableLoginTwoFactor = async (
+    req: AuthRequest,
+    res: Response,
+  ): Promise<void> => {
+    const result = await this.authService.enableLoginTwoFactor(
+      req.body,
+      this.getSessionContext(req),
+    );
+
+    logInfo("Usuario habilitó 2FA e inició sesión");
+
+    res.json({
+      success: true,
+      message:
+        "Autenticación de dos factores habilitada. Guarda tus códigos de recuperación",
+      data: result,
+    });
+  };
+
   /**
    * POST /api/auth/refresh
    * Obtener un nuevo access token usando el refresh token.
    */
   refreshToken = async (req: AuthRequest, res: Response): Promise<void> => {
-    const tokens = await this.authService.refreshToken(req.body);
+    const tokens = await this.authService.refreshToken(
+      req.body,
+      this.getSessionContext(req),
+    );
 
     res.json({
       success: true,
@@ -66,7 +195,7 @@ export class AuthController {
   logout = async (req: AuthRequest, res: Response): Promise<void> => {
     const { refreshToken } = req.body;
 
-    await this.authService.logout(refreshToken);
+    await this.authService.logout(refreshToken, req.user!);
 
     logInfo("Usuario cerró sesión", {
       userId: req.user?.userId,
@@ -78,9 +207,61 @@ export class AuthController {
     });
   };
 
+  /**
+   * POST /api/auth/change-password
+   * Cambiar la contraseña del usuario autenticado.
+   */
+  changePassword = async (req: AuthRequest, res: Response): Promise<void> => {
+    const tokens = await this.authService.changePassword(
+      req.user!.userId,
+      req.body,
+      this.getSessionContext(req),
+      req.user!.sid,
+    );
+
+    logInfo("Usuario cambió su contraseña", {
+      userId: req.user!.userId,
+    });
+
+    res.json({
+      success: true,
+      message: "Contraseña actualizada exitosamente",
+      data: tokens,
+    });
+  };
+
+  /**
+   * POST /api/auth/forgot-password
+   * Solicitar un enlace de recuperación de contraseña.
+   */
+  forgotPassword = async (req: AuthRequest, res: Response): Promise<void> => {
+    await this.authService.forgotPassword(req.body);
+
+    res.json({
+      success: true,
+      message:
+        "Si el email está registrado, recibirás un enlace para restablecer tu contraseña",
+    });
+  };
+
+  /**
+   * POST /api/auth/reset-password
+   * Restablecer la contraseña con el token recibido por correo.
+   */
+  resetPassword = async (req: AuthRequest, res: Response): Promise<void> => {
+    await this.authService.resetPassword(req.body);
+
+    logInfo("Contraseña restablecida con token de recuperación");
+
+    res.json({
+      success: true,
+      message: "Contraseña restablecida exitosamente",
+    });
+  };
+
   /**
    * GET /api/auth/me
-   * Obtener información del usuario autenticado.
+   * Obtener información del usuario autenticado y sus permisos.
    */
   getCurrentUser = async (req: AuthRequest, res: Response): Promise<void> => {
     if (!req.user) {
@@ -92,10 +273,157 @@ export class AuthController {
     }
 
     const user = await this.authService.getUserById(req.user.userId);
+    const permisos = await this.permissionService.getPermisos(req.user);
 
     res.json({
       success: true,
-      data: user,
+      data: { ...user, permisos },
+    });
+  };
+
+  /**
+   * POST /api/auth/2fa/setup
+   * Iniciar el enrolamiento de 2FA.
+   */
+  setupTwoFactor = async (req: AuthRequest, res: Response): Promise<void> => {
+    const setup = await this.twoFactorService.setup(req.user!.userId);
+
+    res.json({
+      success: true,
+      data: setup,
+    });
+  };
+
+  /**
+   * POST /api/auth/2fa/enable
+   * Confirmar el primer código y habilitar 2FA.
+   */
+  enableTwoFactor = async (req: AuthRequest, res: Response): Promise<void> => {
+    const codigosRecuperacion = await this.twoFactorService.enable(
+      req.user!.userId,
+      req.body.codigo,
+    );
+
+    logInfo("Usuario habilitó 2FA", { userId: req.user!.userId });
+
+    res.json({
+      success: true,
+      message:
+        "Autenticación de dos factores habilitada. Guarda tus códigos de recuperación",
+      data: { codigosRecuperacion },
+    });
+  };
+
+  /**
+   * POST /api/auth/2fa/disable
+   * Deshabilitar 2FA.
+   */
+  disableTwoFactor = async (req: AuthRequest, res: Response): Promise<void> => {
+    await this.twoFactorService.disable(req.user!.userId, req.body);
+
+    logInfo("Usuario deshabilitó 2FA", { userId: req.user!.userId });
+
+    res.json({
+      success: true,
+      message: "Autenticación de dos factores deshabilitada",
+    });
+  };
+
+  /**
+   * POST /api/auth/2fa/recovery-codes
+   * Generar nuevos códigos de recuperación.
+   */
+  regenerateRecoveryCodes = async (
+    req: AuthRequest,
+    res: Response,
+  ): Promise<void> => {
+    const codigosRecuperacion =
+      await this.twoFactorService.regenerateRecoveryCodes(
+        req.user!.userId,
+        req.body.codigo,
+      );
+
+    res.json({
+      success: true,
+      message: "Códigos de recuperación regenerados",
+      data: { codigosRecuperacion },
+    });
+  };
+
+  /**
+   * GET /api/auth/sessions
+   * Listar las sesiones activas del usuario autenticado.
+   */
+  getSessions = async (req: AuthRequest, res: Response): Promise<void> => {
+    const sesiones = await this.sessionService.getSessions(
+      req.user!.userId,
+      req.user!.sid,
+    );
+
+    res.json({
+      success: true,
+      data: sesiones,
+    });
+  };
+
+  /**
+   * DELETE /api/auth/sessions/:id
+   * Revocar una sesión propia.
+   */
+  revokeSession = async (req: AuthRequest, res: Response): Promise<void> => {
+    const sessionId = Array.isArray(req.params.id)
+      ? req.params.id[0]
+      : req.params.id;
+
+    await this.sessionService.revokeSession(
+      req.user!.userId,
+      sessionId,
+      req.user!.userId,
+      req.user!.rol,
+    );
+
+    logInfo("Sesión revocada", {
+      userId: req.user!.userId,
+      sessionId,
+    });
+
+    res.json({
+      success: true,
+      message: "Sesión revocada exitosamente",
+    });
+  };
+
+  /**
+   * DELETE /api/auth/sessions
+   * Revocar todas las sesiones propias excepto la actual.
+   */
+  revokeOtherSessions = async (
+    req: AuthRequest,
+    res: Response,
+  ): Promise<void> => {
+    const sesionesRevocadas = await this.sessionService.revokeAllSessions(
+      req.user!.userId,
+      req.user!.userId,
+      req.user!.rol,
+      req.user!.sid,
+    );
+
+    logInfo("Sesiones revocadas", {
+      userId: req.user!.userId,
+      sesionesRevocadas,
+    });
+
+    res.json({
+      success: true,
+      message: "Sesiones revocadas exitosamente",
+      data: { sesionesRevocadas },
     });
   };
+
+  private getSessionContext(req: AuthRequest): SessionContext {
+    return {
+      ip: req.ip,
+      userAgent: req.get("user-agent"),
+    };
+  }
 }
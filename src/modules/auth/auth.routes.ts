@@ -3,26 +3,35 @@ import { AuthController } from "./auth.controller";
 import { asyncHandler } from "../../shared/middleware/errorHandler";
 import {
   authenticate,
-  authorize,
+  authorizePermission,
 } from "../../shared/middleware/auth.middleware";
 import {
   validateLogin,
   validateRegister,
+  validateRefreshToken,
+  validateChangePassword,
+  validateForgotPassword,
+  validateResetPassword,
+  validateTwoFactorLogin,
+  validateTwoFactorChallenge,
+  validateTwoFactorCode,
+  validateDisableTwoFactor,
+  validateOidcCallback,
 } from "../../shared/middleware/validation.middleware";
 import { authRateLimiter } from "../../shared/middleware/security.middleware";
-import { Rol } from "@prisma/client";
+import { Permiso } from "../roles/permissions";
 
 const router = Router();
 const authController = new AuthController();
 
 /**
  * POST /api/auth/register
- * Registrar un nuevo usuario (solo ADMIN).
+ * Registrar un nuevo usuario (permiso user.register).
  */
 router.post(
   "/register",
   authenticate,
-  authorize(Rol.ADMIN),
+  authorizePermission(Permiso.USER_REGISTER),
   validateRegister,
   asyncHandler(authController.register),
 );
@@ -38,17 +47,194 @@ router.post(
   asyncHandler(authController.login),
 );
 
+/**
+ * POST /api/auth/login/2fa
+ * Completar el login con código TOTP o de recuperación.
+ */
+router.post(
+  "/login/2fa",
+  authRateLimiter,
+  validateTwoFactorLogin,
+  asyncHandler(authController.loginTwoFactor),
+);
+
+/**
+ * POST /api/auth/login/2fa/setup
+ * Enrolamiento obligatorio: generar secreto TOTP.
+ */
+router.post(
+  "/login/2fa/setup",
+  authRateLimiter,
+  validateTwoFactorChallenge,
+  asyncHandler(authController.setupLoginTwoFactor),
+);
+
+/**
+ * POST /api/auth/login/2fa/enable
+ * Enrolamiento obligatorio: confirmar código y completar el login.
+ */
+router.post(
+  "/login/2fa/enable",
+  authRateLimiter,
+  validateTwoFactorLogin,
+  asyncHandler(authController.enableLoginTwoFactor),
+);
+
+/**
+ * GET /api/auth/oidc/login
+ * Iniciar sesión con SSO: redirige al proveedor de identidad.
+ */
+router.get(
+  "/oidc/login",
+  authRateLimiter,
+  asyncHandler(authController.oidcLogin),
+);
+
+/**
+ * GET /api/auth/oidc/callback
+ * Completar el login SSO con el code y state del proveedor.
+ */
+router.get(
+  "/oidc/callback",
+  authRateLimiter,
+  validateOidcCallback,
+  asyncHandler(authController.oidcCallback),
+);
+
+/**
+ * POST /api/auth/oidc/callback
+ * Igual que el GET, para frontends que reciben el redirect y reenvían
+ * code y state en el body.
+ */
+router.post(
+  "/oidc/callback",
+  authRateLimiter,
+  validateOidcCallback,
+  asyncHandler(authController.oidcCallback),
+);
+
 /**
  * POST /api/auth/refresh
  * Renovar access token.
  */
-router.post("/refresh", asyncHandler(authController.refreshToken));
+router.post(
+  "/refresh",
+  validateRefreshToken,
+  asyncHandler(authController.refreshToken),
+);
 
 /**
  * POST /api/auth/logout
  * Cerrar sesión.
  */
-router.post("/logout", authenticate, asyncHandler(authController.logout));
+router.post(
+  "/logout",
+  authenticate,
+  validateRefreshToken,
+  asyncHandler(authController.logout),
+);
+
+/**
+ * POST /api/auth/change-password
+ * Cambiar la contraseña propia (revoca los refresh tokens y emite nuevos).
+ */
+router.post(
+  "/change-password",
+  authenticate,
+  validateChangePassword,
+  asyncHandler(authController.changePassword),
+);
+
+/**
+ * POST /api/auth/forgot-password
+ * Solicitar enlace de recuperación de contraseña.
+ */
+router.post(
+  "/forgot-password",
+  authRateLimiter,
+  validateForgotPassword,
+  asyncHandler(authController.forgotPassword),
+);
+
+/**
+ * POST /api/auth/reset-password
+ * Restablecer contraseña con el token de recuperación.
+ */
+router.post(
+  "/reset-password",
+  authRateLimiter,
+  validateResetPassword,
+  asyncHandler(authController.resetPassword),
+);
+
+/**
+ * POST /api/auth/2fa/setup
+ * Iniciar enrolamiento de 2FA (devuelve secreto y URL otpauth).
+ */
+router.post(
+  "/2fa/setup",
+  authenticate,
+  asyncHandler(authController.setupTwoFactor),
+);
+
+/**
+ * POST /api/auth/2fa/enable
+ * Habilitar 2FA con el primer código (devuelve códigos de recuperación).
+ */
+router.post(
+  "/2fa/enable",
+  authenticate,
+  validateTwoFactorCode,
+  asyncHandler(authController.enableTwoFactor),
+);
+
+/**
+ * POST /api/auth/2fa/disable
+ * Deshabilitar 2FA (requiere contraseña y código).
+ */
+router.post(
+  "/2fa/disable",
+  authenticate,
+  validateDisableTwoFactor,
+  asyncHandler(authController.disableTwoFactor),
+);
+
+/**
+ * POST /api/auth/2fa/recovery-codes
+ * Regenerar códigos de recuperación.
+ */
+router.post(
+  "/2fa/recovery-codes",
+  authenticate,
+  validateTwoFactorCode,
+  asyncHandler(authController.regenerateRecoveryCodes),
+);
+
+/**
+ * GET /api/auth/sessions
+ * Listar sesiones activas del usuario autenticado.
+ */
+router.get("/sessions", authenticate, asyncHandler(authController.getSessions));
+
+/**
+ * DELETE /api/auth/sessions
+ * Revocar todas las sesiones propias excepto la actual.
+ */
+router.delete(
+  "/sessions",
+  authenticate,
+  asyncHandler(authController.revokeOtherSessions),
+);
+
+/**
+ * DELETE /api/auth/sessions/:id
+ * Revocar una sesión propia.
+ */
+router.delete(
+  "/sessions/:id",
+  authenticate,
+  asyncHandler(authController.revokeSession),
+);
 
 /**
  * GET /api/auth/me
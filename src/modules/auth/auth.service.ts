@@ -1,21 +1,80 @@
+import { createHash, randomBytes, randomUUID } from "crypto";
 import bcrypt from "bcrypt";
 import jwt, { SignOptions } from "jsonwebtoken";
 import { prisma } from "../../config/database.config";
 import { config } from "../../config/env.config";
+import { sendMail } from "../../config/mail.config";
+import { logError, logWarning } from "../../config/logger.config";
 import {
   LoginDto,
   RegisterDto,
   RefreshTokenDto,
+  ChangePasswordDto,
+  ForgotPasswordDto,
+  ResetPasswordDto,
+  SessionContext,
+  JwtPayload,
+  TwoFactorLoginDto,
+  TwoFactorChallengeDto,
+  TwoFactorSetup,
   AuthTokens,
+  LoginResult,
   UserResponse,
   UnauthorizedError,
   ConflictError,
+  ForbiddenError,
   NotFoundError,
+  ValidationError,
 } from "../../shared/types";
 import { Rol } from "@prisma/client";
+import { LogService } from "../logs/log.service";
+import { AccionLog, EntidadLog } from "../logs/log.model";
+import { LoginAttemptService } from "../logs/login-attempt.service";
+import { ResultadoLogin } from "../logs/login-attempt.model";
+import { LoginLockoutService } from "./login-lockout.service";
+import { TokenRevocationService } from "./token-revocation.service";
+import {
+  MetodoLogin,
+  MetodoSegundoFactor,
+  TwoFactorService,
+} from "./two-factor.service";
+import { describirDispositivo } from "./session.utils";
+
+/**
+ * Datos del usuario que viajan en los tokens.
+ */
+export interface UsuarioToken {
+  id: string;
+  email: string;
+  rol: Rol;
+  rolPersonalizadoId: string | null;
+}
 
 export class AuthService {
-  async register(data: RegisterDto): Promise<UserResponse> {
+  private tokenRevocationService: TokenRevocationService;
+  private twoFactorService: TwoFactorService;
+  private loginLockoutService: LoginLockoutService;
+  private loginAttemptService: LoginAttemptService;
+  private logService: LogService;
+
+  constructor() {
+    this.tokenRevocationService = new TokenRevocationService();
+    this.twoFactorService = new TwoFactorService();
+    this.loginLockoutService = new LoginLockoutService();
+    this.loginAttemptService = new LoginAttemptService();
+    this.logService = new LogService();
+  }
+
+  async register(
+    data: RegisterDto,
+    adminId: string,
+    adminRol: Rol,
+  ): Promise<UserResponse> {
+    // user.register puede delegarse a otros roles, pero no para crear admins
+    if (data.rol === Rol.ADMIN && adminRol !== Rol.ADMIN) {
+      throw new ForbiddenError("Solo un ADMIN puede registrar administradores");
+    }
+
     const existingUser = await prisma.usuario.findUnique({
       where: { email: data.email },
     });
@@ -45,55 +104,494 @@ export class AuthService {
       });
     }
 
+    await this.logService.record({
+      accion: AccionLog.USUARIO_REGISTRADO,
+      entidad: EntidadLog.USUARIO,
+      entidadId: user.id,
+      actorId: adminId,
+      actorRol: adminRol,
+      detalles: { email: user.email, rol: user.rol },
+    });
+
     return this.mapUserToResponse(user);
   }
 
-  async login(data: LoginDto): Promise<AuthTokens> {
+  /**
+   * Iniciar sesión. Si el usuario tiene 2FA, o su rol lo exige, se
+   * responde con un desafío en lugar de los tokens.
+   * Tras LOGIN_MAX_ATTEMPTS fallos la cuenta se bloquea temporalmente.
+   */
+  async login(data: LoginDto, contexto: SessionContext): Promise<LoginResult> {
+    try {
+      await this.loginLockoutService.assertNotLocked(data.email);
+    } catch (error) {
+      await this.registrarIntento(
+        data.email,
+        null,
+        ResultadoLogin.CUENTA_BLOQUEADA,
+        contexto,
+      );
+      throw error;
+    }
+
     const user = await prisma.usuario.findUnique({
       where: { email: data.email },
     });
 
     if (!user || !user.activo) {
+      await this.registrarFallo(
+        data.email,
+        user,
+        user
+          ? ResultadoLogin.USUARIO_INACTIVO
+          : ResultadoLogin.CREDENCIALES_INVALIDAS,
+        contexto,
+      );
       throw new UnauthorizedError("Credenciales inválidas");
     }
 
     const validPassword = await bcrypt.compare(data.password, user.password);
 
     if (!validPassword) {
+      await this.registrarFallo(
+        data.email,
+        user,
+        ResultadoLogin.CREDENCIALES_INVALIDAS,
+        contexto,
+      );
       throw new UnauthorizedError("Credenciales inválidas");
     }
 
-    return this.generateTokens(user.id, user.email, user.rol);
+    if (user.totpHabilitado || this.twoFactorService.isRequired(user.rol)) {
+      return this.twoFactorService.createChallenge(
+        user.id,
+        user.totpHabilitado ? "TOTP" : "ENROLAMIENTO",
+      );
+    }
+
+    return this.completarLogin(user, contexto);
   }
 
-  async refreshToken(data: RefreshTokenDto): Promise<AuthTokens> {
+  /**
+   * Segundo paso del login: canjear el desafío con un código TOTP
+   * o un código de recuperación.
+   */
+  async loginTwoFactor(
+    data: TwoFactorLoginDto,
+    contexto: SessionContext,
+  ): Promise<AuthTokens> {
+    const { metodoLogin, resultado } =
+      await this.twoFactorService.resolveChallenge(
+        data.tokenDesafio,
+        "TOTP",
+        true,
+        async (userId) => {
+          const user = await this.findUsuarioDesafio(userId);
+          await this.loginLockoutService.assertNotLocked(user.email);
+
+          try {
+            const metodo = await this.twoFactorService.verify(
+              user,
+              data.codigo,
+            );
+            return { user, metodo };
+          } catch (error) {
+            await this.registrarFallo(
+              user.email,
+              user,
+              ResultadoLogin.SEGUNDO_FACTOR_INVALIDO,
+              contexto,
+            );
+            throw error;
+          }
+        },
+      );
+
+    return this.completarLogin(
+      resultado.user,
+      contexto,
+      resultado.metodo,
+      metodoLogin,
+    );
+  }
+
+  /**
+   * Enrolamiento obligatorio durante el login: generar el secreto TOTP.
+   */
+  async setupLoginTwoFactor(
+    data: TwoFactorChallengeDto,
+  ): Promise<TwoFactorSetup> {
+    const { resultado } = await this.twoFactorService.resolveChallenge(
+      data.tokenDesafio,
+      "ENROLAMIENTO",
+      false,
+      async (userId) => {
+        await this.findUsuarioDesafio(userId);
+        return this.twoFactorService.setup(userId);
+      },
+    );
+
+    return resultado;
+  }
+
+  /**
+   * Enrolamiento obligatorio durante el login: confirmar el primer código,
+   * habilitar 2FA y emitir los tokens junto con los códigos de recuperación.
+   */
+  async enableLoginTwoFactor(
+    data: TwoFactorLoginDto,
+    contexto: SessionContext,
+  ) {
+    const {
+      userId,
+      metodoLogin,
+      resultado: codigosRecuperacion,
+    } = await this.twoFactorService.resolveChallenge(
+      data.tokenDesafio,
+      "ENROLAMIENTO",
+      true,
+      async (userId) => {
+        const user = await this.findUsuarioDesafio(userId);
+
+        // enable() aplica el bloqueo por intentos; aquí solo se registra
+        // el intento fallido en el historial de logins
+        try {
+          return await this.twoFactorService.enable(userId, data.codigo);
+        } catch (error) {
+          if (error instanceof ValidationError) {
+            await this.registrarIntento(
+              user.email,
+              user.id,
+              ResultadoLogin.SEGUNDO_FACTOR_INVALIDO,
+              contexto,
+            );
+          }
+          throw error;
+        }
+      },
+    );
+
+    const user = await this.findUsuarioDesafio(userId);
+    const tokens = await this.completarLogin(
+      user,
+      contexto,
+      "TOTP",
+      metodoLogin,
+    );
+
+    return { ...tokens, codigosRecuperacion };
+  }
+
+  /**
+   * Iniciar sesión con una identidad ya verificada por el proveedor SSO.
+   * El proveedor reemplaza a la contraseña, no al 2FA local: si el usuario
+   * lo tiene, o su rol lo exige, se responde con el mismo desafío que en
+   * login.
+   */
+  async loginSso(
+    user: UsuarioToken & { activo: boolean; totpHabilitado: boolean },
+    contexto: SessionContext,
+  ): Promise<LoginResult> {
+    if (!user.activo) {
+      await this.registrarIntento(
+        user.email,
+        user.id,
+        ResultadoLogin.USUARIO_INACTIVO,
+        contexto,
+      );
+      throw new UnauthorizedError("Usuario inactivo");
+    }
+
+    if (user.totpHabilitado || this.twoFactorService.isRequired(user.rol)) {
+      return this.twoFactorService.createChallenge(
+        user.id,
+        user.totpHabilitado ? "TOTP" : "ENROLAMIENTO",
+        "OIDC",
+      );
+    }
+
+    return this.completarLogin(user, contexto, undefined, "OIDC");
+  }
+
+  /**
+   * Rotar el refresh token: el token presentado queda marcado como
+   * canjeado y se emite uno nuevo de la misma familia.
+   * Si se presenta un token ya canjeado se asume que fue robado y se
+   * revoca la familia completa.
+   */
+  async refreshToken(
+    data: RefreshTokenDto,
+    contexto: SessionContext,
+  ): Promise<AuthTokens> {
+    try {
+      jwt.verify(data.refreshToken, config.jwtRefreshSecret);
+    } catch {
+      throw new UnauthorizedError("Refresh token inválido");
+    }
+
     const refreshToken = await prisma.refreshToken.findUnique({
-      where: { token: data.refreshToken },
+      where: { tokenHash: this.hashToken(data.refreshToken) },
       include: { usuario: true },
     });
 
-    if (
-      !refreshToken ||
-      !refreshToken.usuario.activo ||
-      new Date() > refreshToken.expiresAt
-    ) {
+    if (!refreshToken) {
+      throw new UnauthorizedError("Refresh token inválido");
+    }
+
+    if (refreshToken.rotadoAt) {
+      await this.revocarFamiliaPorReuso(refreshToken);
+      throw new UnauthorizedError("Refresh token inválido");
+    }
+
+    if (!refreshToken.usuario.activo || new Date() > refreshToken.expiresAt) {
       throw new UnauthorizedError("Refresh token inválido");
     }
 
-    await prisma.refreshToken.delete({
-      where: { id: refreshToken.id },
+    // Marcado condicional: si dos peticiones canjean el mismo token,
+    // la segunda se trata como reutilización
+    const { count } = await prisma.refreshToken.updateMany({
+      where: { id: refreshToken.id, rotadoAt: null },
+      data: { rotadoAt: new Date() },
     });
 
+    if (count === 0) {
+      await this.revocarFamiliaPorReuso(refreshToken);
+      throw new UnauthorizedError("Refresh token inválido");
+    }
+
     return this.generateTokens(
-      refreshToken.usuario.id,
-      refreshToken.usuario.email,
-      refreshToken.usuario.rol,
+      refreshToken.usuario,
+      contexto,
+      refreshToken.familiaId,
     );
   }
 
-  async logout(refreshToken: string): Promise<void> {
-    await prisma.refreshToken.deleteMany({
-      where: { token: refreshToken },
+  /**
+   * Cerrar sesión: se revoca la familia del refresh token presentado
+   * y los access tokens de la sesión dejan de ser válidos.
+   */
+  async logout(refreshToken: string, user: JwtPayload): Promise<void> {
+    const token = await prisma.refreshToken.findUnique({
+      where: { tokenHash: this.hashToken(refreshToken) },
+    });
+
+    const sesiones = new Set(user.sid ? [user.sid] : []);
+
+    if (token && token.usuarioId === user.userId) {
+      await prisma.refreshToken.deleteMany({
+        where: { familiaId: token.familiaId },
+      });
+      sesiones.add(token.familiaId);
+    }
+
+    await this.tokenRevocationService.revokeAccessToken(user);
+    await this.tokenRevocationService.revokeSessions([...sesiones]);
+
+    await this.logService.record({
+      accion: AccionLog.LOGOUT,
+      entidad: EntidadLog.USUARIO,
+      entidadId: user.userId,
+      actorId: user.userId,
+      actorRol: user.rol,
+    });
+  }
+
+  /**
+   * Cambiar la contraseña del usuario autenticado.
+   * Se revocan todos sus refresh tokens y se emiten tokens nuevos
+   * para que la sesión actual continúe.
+   */
+  async changePassword(
+    userId: string,
+    data: ChangePasswordDto,
+    contexto: SessionContext,
+    sesionActualId?: string,
+  ): Promise<AuthTokens> {
+    const user = await prisma.usuario.findUnique({
+      where: { id: userId },
+    });
+
+    if (!user || !user.activo) {
+      throw new UnauthorizedError("Usuario no encontrado o inactivo");
+    }
+
+    const validPassword = await bcrypt.compare(
+      data.passwordActual,
+      user.password,
+    );
+
+    if (!validPassword) {
+      throw new ValidationError("La contraseña actual es incorrecta");
+    }
+
+    if (data.passwordActual === data.passwordNueva) {
+      throw new ValidationError(
+        "La nueva contraseña debe ser distinta de la actual",
+      );
+    }
+
+    const hashedPassword = await bcrypt.hash(data.passwordNueva, 10);
+
+    await prisma.$transaction([
+      prisma.usuario.update({
+        where: { id: userId },
+        data: { password: hashedPassword },
+      }),
+      prisma.refreshToken.deleteMany({
+        where: { usuarioId: userId },
+      }),
+      prisma.passwordResetToken.deleteMany({
+        where: { usuarioId: userId, usedAt: null },
+      }),
+    ]);
+
+    // Antes de emitir los nuevos, que ya llevan la versión actualizada
+    await this.tokenRevocationService.revokeUserTokens(userId);
+
+    await this.logService.record({
+      accion: AccionLog.USUARIO_PASSWORD_CAMBIADA,
+      entidad: EntidadLog.USUARIO,
+      entidadId: userId,
+      actorId: userId,
+      actorRol: user.rol,
+    });
+
+    return this.generateTokens(user, contexto, sesionActualId);
+  }
+
+  /**
+   * Solicitar la recuperación de contraseña.
+   * La respuesta es la misma exista o no el email, para no revelar
+   * qué cuentas están registradas.
+   */
+  async forgotPassword(data: ForgotPasswordDto): Promise<void> {
+    const user = await prisma.usuario.findUnique({
+      where: { email: data.email },
+    });
+
+    if (!user || !user.activo) {
+      return;
+    }
+
+    // Solo viaja el token en claro por correo; en la base queda su hash
+    const token = randomBytes(32).toString("hex");
+    const expiresAt = new Date(
+      Date.now() + config.passwordResetExpiresMinutes * 60 * 1000,
+    );
+
+    // Una nueva solicitud invalida los tokens pendientes anteriores
+    await prisma.$transaction([
+      prisma.passwordResetToken.deleteMany({
+        where: { usuarioId: user.id, usedAt: null },
+      }),
+      prisma.passwordResetToken.create({
+        data: {
+          tokenHash: this.hashToken(token),
+          usuarioId: user.id,
+          expiresAt,
+        },
+      }),
+    ]);
+
+    const url = new URL(config.passwordResetUrl);
+    url.searchParams.set("token", token);
+
+    try {
+      await sendMail({
+        to: user.email,
+        subject: "Recuperación de contraseña",
+        text: [
+          `Hola ${user.nombre},`,
+          "",
+          "Recibimos una solicitud para restablecer tu contraseña.",
+          `Usa el siguiente enlace antes de ${config.passwordResetExpiresMinutes} minutos:`,
+          "",
+          url.toString(),
+          "",
+          "Si no la solicitaste, ignora este correo.",
+        ].join("\n"),
+      });
+    } catch (error) {
+      // Un fallo de envío no debe cambiar la respuesta al cliente
+      logError(error as Error, {
+        context: "forgotPassword",
+        userId: user.id,
+      });
+    }
+
+    await this.logService.record({
+      accion: AccionLog.USUARIO_PASSWORD_RESET_SOLICITADO,
+      entidad: EntidadLog.USUARIO,
+      entidadId: user.id,
+      actorId: user.id,
+      actorRol: user.rol,
+      detalles: { expiresAt },
+    });
+  }
+
+  /**
+   * Restablecer la contraseña con un token de recuperación.
+   * El token es de un solo uso y se revocan todos los refresh tokens.
+   * Si la cuenta estaba bloqueada por intentos fallidos se desbloquea:
+   * el token prueba que quien entra es el dueño del email.
+   */
+  async resetPassword(data: ResetPasswordDto): Promise<void> {
+    const resetToken = await prisma.passwordResetToken.findUnique({
+      where: { tokenHash: this.hashToken(data.token) },
+      include: { usuario: true },
+    });
+
+    if (
+      !resetToken ||
+      resetToken.usedAt ||
+      new Date() > resetToken.expiresAt ||
+      !resetToken.usuario.activo
+    ) {
+      throw new ValidationError("Token de recuperación inválido o expirado");
+    }
+
+    // Marcado condicional: si dos peticiones usan el mismo token, solo una gana
+    const { count } = await prisma.passwordResetToken.updateMany({
+      where: { id: resetToken.id, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+
+    if (count === 0) {
+      throw new ValidationError("Token de recuperación inválido o expirado");
+    }
+
+    const hashedPassword = await bcrypt.hash(data.password, 10);
+
+    const [, tokensRevocados] = await prisma.$transaction([
+      prisma.usuario.update({
+        where: { id: resetToken.usuarioId },
+        data: { password: hashedPassword },
+      }),
+      prisma.refreshToken.deleteMany({
+        where: { usuarioId: resetToken.usuarioId },
+      }),
+      prisma.passwordResetToken.deleteMany({
+        where: { usuarioId: resetToken.usuarioId, usedAt: null },
+      }),
+    ]);
+
+    await this.tokenRevocationService.revokeUserTokens(resetToken.usuarioId);
+
+    const desbloqueada = await this.loginLockoutService.unlock(
+      resetToken.usuario.email,
+    );
+
+    await this.logService.record({
+      accion: AccionLog.USUARIO_PASSWORD_RESTABLECIDA,
+      entidad: EntidadLog.USUARIO,
+      entidadId: resetToken.usuarioId,
+      actorId: resetToken.usuarioId,
+      actorRol: resetToken.usuario.rol,
+      detalles: {
+        metodo: "TOKEN_RECUPERACION",
+        tokensRevocados: tokensRevocados.count,
+        desbloqueada,
+      },
     });
   }
 
@@ -109,31 +607,61 @@ export class AuthService {
     return this.mapUserToResponse(user);
   }
 
+  /**
+   * Emitir access y refresh token.
+   * Sin familiaId se inicia una familia nueva, es decir, una sesión nueva.
+   */
   private async generateTokens(
-    userId: string,
-    email: string,
-    rol: Rol,
+    user: UsuarioToken,
+    contexto: SessionContext,
+    familiaId: string = randomUUID(),
   ): Promise<AuthTokens> {
-    const payload = { userId, email, rol };
+    const userId = user.id;
+    const payload = { userId, email: user.email, rol: user.rol };
+    const ver = await this.tokenRevocationService.getVersion(userId);
 
-    const accessToken = jwt.sign(payload, config.jwtSecret, {
-      expiresIn: config.jwtExpiresIn,
-    } satisfies SignOptions);
+    // sid identifica la sesión y ver la versión de tokens del usuario;
+    // el jti permite revocar este token puntual
+    const accessToken = jwt.sign(
+      {
+        ...payload,
+        rolPersonalizadoId: user.rolPersonalizadoId ?? undefined,
+        sid: familiaId,
+        ver,
+      },
+      config.jwtSecret,
+      {
+        expiresIn: config.jwtExpiresIn,
+        jwtid: randomUUID(),
+      } satisfies SignOptions,
+    );
 
+    // jwtid evita tokens idénticos cuando se emiten en el mismo segundo
     const refreshToken = jwt.sign(payload, config.jwtRefreshSecret, {
       expiresIn: config.jwtRefreshExpiresIn,
+      jwtid: randomUUID(),
     } satisfies SignOptions);
 
-    const expiresAt = new Date();
-    expiresAt.setDate(expiresAt.getDate() + 7);
+    // El vencimiento se toma del propio token (JWT_REFRESH_EXPIRES_IN)
+    const { exp } = jwt.decode(refreshToken) as { exp: number };
 
-    await prisma.refreshToken.create({
-      data: {
-        token: refreshToken,
-        usuarioId: userId,
-        expiresAt,
-      },
-    });
+    await prisma.$transaction([
+      // Los vencidos ya no sirven ni para detectar reutilización
+      prisma.refreshToken.deleteMany({
+        where: { usuarioId: userId, expiresAt: { lt: new Date() } },
+      }),
+      prisma.refreshToken.create({
+        data: {
+          tokenHash: this.hashToken(refreshToken),
+          familiaId,
+          usuarioId: userId,
+          ip: contexto.ip,
+          userAgent: contexto.userAgent,
+          dispositivo: describirDispositivo(contexto.userAgent),
+          expiresAt: new Date(exp * 1000),
+        },
+      }),
+    ]);
 
     return {
       accessToken,
@@ -142,12 +670,145 @@ export class AuthService {
     };
   }
 
+  /**
+   * Reutilización de un refresh token ya canjeado: se revoca toda la
+   * familia y se registra como evento de seguridad.
+   */
+  private async revocarFamiliaPorReuso(refreshToken: {
+    familiaId: string;
+    usuarioId: string;
+  }): Promise<void> {
+    const { count } = await prisma.refreshToken.deleteMany({
+      where: { familiaId: refreshToken.familiaId },
+    });
+
+    await this.tokenRevocationService.revokeSessions([refreshToken.familiaId]);
+
+    logWarning("Reutilización de refresh token detectada", {
+      userId: refreshToken.usuarioId,
+      familiaId: refreshToken.familiaId,
+      tokensRevocados: count,
+    });
+
+    await this.logService.record({
+      accion: AccionLog.REFRESH_TOKEN_REUTILIZADO,
+      entidad: EntidadLog.USUARIO,
+      entidadId: refreshToken.usuarioId,
+      detalles: {
+        familiaId: refreshToken.familiaId,
+        tokensRevocados: count,
+      },
+    });
+  }
+
+  private hashToken(token: string): string {
+    return createHash("sha256").update(token).digest("hex");
+  }
+
+  /**
+   * Registrar el login y emitir los tokens de una sesión nueva.
+   */
+  private async completarLogin(
+    user: UsuarioToken,
+    contexto: SessionContext,
+    segundoFactor?: MetodoSegundoFactor,
+    metodo: MetodoLogin = "PASSWORD",
+  ): Promise<AuthTokens> {
+    await this.loginLockoutService.registerSuccess(user.email);
+    await this.registrarIntento(
+      user.email,
+      user.id,
+      ResultadoLogin.EXITOSO,
+      contexto,
+    );
+
+    await this.logService.record({
+      accion: AccionLog.LOGIN,
+      entidad: EntidadLog.USUARIO,
+      entidadId: user.id,
+      actorId: user.id,
+      actorRol: user.rol,
+      detalles: { email: user.email, ip: contexto.ip, metodo, segundoFactor },
+    });
+
+    return this.generateTokens(user, contexto);
+  }
+
+  /**
+   * Registrar un intento fallido y bloquear la cuenta si se alcanzó
+   * el máximo de fallos.
+   */
+  private async registrarFallo(
+    email: string,
+    user: { id: string; rol: Rol } | null,
+    resultado: ResultadoLogin,
+    contexto: SessionContext,
+  ): Promise<void> {
+    await this.registrarIntento(email, user?.id ?? null, resultado, contexto);
+
+    const bloqueadoHasta =
+      await this.loginLockoutService.registerFailure(email);
+
+    if (!bloqueadoHasta) {
+      return;
+    }
+
+    logWarning("Cuenta bloqueada por intentos de login fallidos", {
+      email,
+      ip: contexto.ip,
+      bloqueadoHasta,
+    });
+
+    if (user) {
+      await this.logService.record({
+        accion: AccionLog.USUARIO_BLOQUEADO,
+        entidad: EntidadLog.USUARIO,
+        entidadId: user.id,
+        detalles: { ip: contexto.ip, bloqueadoHasta, motivo: resultado },
+      });
+    }
+  }
+
+  private async registrarIntento(
+    email: string,
+    usuarioId: string | null,
+    resultado: ResultadoLogin,
+    contexto: SessionContext,
+  ): Promise<void> {
+    await this.loginAttemptService.record({
+      email,
+      usuarioId,
+      resultado,
+      ip: contexto.ip,
+      userAgent: contexto.userAgent,
+    });
+  }
+
+  /**
+   * Usuario de un desafío 2FA; debe seguir activo.
+   */
+  private async findUsuarioDesafio(userId: string) {
+    const user = await prisma.usuario.findUnique({
+      where: { id: userId },
+    });
+
+    if (!user || !user.activo) {
+      throw new UnauthorizedError(
+        "Desafío de autenticación inválido o expirado",
+      );
+    }
+
+    return user;
+  }
+
   private mapUserToResponse(user: {
     id: string;
     email: string;
     nombre: string;
     rol: Rol;
     activo: boolean;
+    totpHabilitado: boolean;
+    rolPersonalizadoId: string | null;
     createdAt: Date;
   }): UserResponse {
     return {
@@ -156,6 +817,8 @@ export class AuthService {
       nombre: user.nombre,
       rol: user.rol,
       activo: user.activo,
+      totpHabilitado: user.totpHabilitado,
+      rolPersonalizadoId: user.rolPersonalizadoId,
       createdAt: user.createdAt,
     };
   }
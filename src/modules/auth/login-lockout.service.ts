@@ -0,0 +1,110 @@
+import { redisClient } from "../../config/redis.config";
+import { config } from "../../config/env.config";
+import { AccountLockedError } from "../../shared/types";
+
+/**
+ * Bloqueo progresivo de cuentas por intentos de login fallidos.
+ *
+ * Los contadores se guardan en Redis por email (exista o no la cuenta),
+ * así que un atacante no puede distinguir cuentas por su bloqueo y el
+ * límite aplica aunque los intentos lleguen desde muchas IPs.
+ */
+
+const KEY_PREFIX = "techsupport:auth:lockout";
+
+// Tiempo que se recuerdan los bloqueos previos para duplicar el siguiente
+const NIVEL_TTL_SEGUNDOS = 24 * 60 * 60;
+const BLOQUEO_MAXIMO_SEGUNDOS = 24 * 60 * 60;
+
+export class LoginLockoutService {
+  /**
+   * Fin del bloqueo vigente de la cuenta, o null si no está bloqueada.
+   */
+  async getLockout(email: string): Promise<Date | null> {
+    const ttl = await redisClient.pttl(this.bloqueoKey(email));
+    return ttl > 0 ? new Date(Date.now() + ttl) : null;
+  }
+
+  /**
+   * Rechaza el intento si la cuenta está bloqueada.
+   */
+  async assertNotLocked(email: string): Promise<void> {
+    const hasta = await this.getLockout(email);
+
+    if (hasta) {
+      throw new AccountLockedError(
+        `Cuenta bloqueada por intentos fallidos. Intenta de nuevo en ${this.minutosRestantes(hasta)} minutos`,
+      );
+    }
+  }
+
+  /**
+   * Registrar un intento fallido. Al alcanzar el máximo se bloquea la
+   * cuenta y se retorna el fin del bloqueo.
+   */
+  async registerFailure(email: string): Promise<Date | null> {
+    const fallosKey = this.fallosKey(email);
+
+    const [[, fallos]] = (await redisClient
+      .multi()
+      .incr(fallosKey)
+      .expire(fallosKey, config.loginAttemptWindowMinutes * 60)
+      .exec()) as [[Error | null, number]];
+
+    if (fallos < config.loginMaxAttempts) {
+      return null;
+    }
+
+    const nivelKey = this.nivelKey(email);
+    const nivel = await redisClient.incr(nivelKey);
+    await redisClient.expire(nivelKey, NIVEL_TTL_SEGUNDOS);
+
+    const duracion = Math.min(
+      config.loginLockoutMinutes * 60 * 2 ** (nivel - 1),
+      BLOQUEO_MAXIMO_SEGUNDOS,
+    );
+
+    await redisClient
+      .multi()
+      .set(this.bloqueoKey(email), String(nivel), "EX", duracion)
+      .del(fallosKey)
+      .exec();
+
+    return new Date(Date.now() + duracion * 1000);
+  }
+
+  /**
+   * Login exitoso: se reinician los fallos y el historial de bloqueos.
+   */
+  async registerSuccess(email: string): Promise<void> {
+    await redisClient.del(this.fallosKey(email), this.nivelKey(email));
+  }
+
+  /**
+   * Desbloquear la cuenta. Retorna si estaba bloqueada.
+   */
+  async unlock(email: string): Promise<boolean> {
+    const [bloqueos] = await Promise.all([
+      redisClient.del(this.bloqueoKey(email)),
+      redisClient.del(this.fallosKey(email), this.nivelKey(email)),
+    ]);
+
+    return bloqueos > 0;
+  }
+
+  private minutosRestantes(hasta: Date): number {
+    return Math.ceil((hasta.getTime() - Date.now()) / 60000);
+  }
+
+  private fallosKey(email: string): string {
+    return `${KEY_PREFIX}:fallos:${email.trim().toLowerCase()}`;
+  }
+
+  private nivelKey(email: string): string {
+    return `${KEY_PREFIX}:nivel:${email.trim().toLowerCase()}`;
+  }
+
+  private bloqueoKey(email: string): string {
+    return `${KEY_PREFIX}:bloqueo:${email.trim().toLowerCase()}`;
+  }
+}
@@ -0,0 +1,488 @@
+import {
+  createHash,
+  createPublicKey,
+  JsonWebKeyInput,
+  KeyObject,
+  randomBytes,
+} from "crypto";
+import bcrypt from "bcrypt";
+import jwt, { Algorithm } from "jsonwebtoken";
+import { prisma } from "../../config/database.config";
+import { redisClient } from "../../config/redis.config";
+import { config } from "../../config/env.config";
+import { logWarning } from "../../config/logger.config";
+import {
+  LoginResult,
+  OidcCallbackDto,
+  SessionContext,
+  NotFoundError,
+  ForbiddenError,
+  UnauthorizedError,
+} from "../../shared/types";
+import { Rol } from "@prisma/client";
+import { LogService } from "../logs/log.service";
+import { AccionLog, EntidadLog } from "../logs/log.model";
+import { UserService } from "../users/user.service";
+import { AuthService } from "./auth.service";
+
+// Login en curso: state, nonce y code_verifier (PKCE) de un solo uso
+const LOGIN_TTL_SEGUNDOS = 10 * 60;
+const LOGIN_KEY_PREFIX = "techsupport:auth:oidc-login:";
+
+const DISCOVERY_TTL_MS = 60 * 60 * 1000;
+const TIMEOUT_PROVEEDOR_MS = 10 * 1000;
+
+const ALGORITMOS_ID_TOKEN: Algorithm[] = [
+  "RS256",
+  "RS384",
+  "RS512",
+  "PS256",
+  "ES256",
+  "ES384",
+];
+
+// Si el usuario pertenece a varios grupos mapeados gana el rol más alto
+const PRIORIDAD_ROLES: Rol[] = [Rol.ADMIN, Rol.SUPERVISOR, Rol.AGENTE];
+
+interface OidcDiscovery {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+interface IdTokenClaims {
+  sub: string;
+  nonce?: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+  preferred_username?: string;
+  [claim: string]: unknown;
+}
+
+// Cachés del proceso: la configuración del proveedor casi nunca cambia
+let discovery: { documento: OidcDiscovery; expiraEn: number } | null = null;
+const clavesFirma = new Map<string, KeyObject>();
+
+/**
+ * Inicio de sesión único (SSO) del personal con OpenID Connect.
+ *
+ * Flujo authorization code con PKCE: el login redirige al proveedor y el
+ * callback canjea el código por el ID token, cuya firma se valida con
+ * las claves publicadas (JWKS). Los grupos del token se traducen a un
+ * Rol con OIDC_ROLE_MAPPING: la cuenta se crea en el primer login y su
+ * rol se sincroniza en cada login. Las sesiones son las mismas del login
+ * con contraseña.
+ */
+export class OidcService {
+  private authService: AuthService;
+  private userService: UserService;
+  private logService: LogService;
+
+  constructor() {
+    this.authService = new AuthService();
+    this.userService = new UserService();
+    this.logService = new LogService();
+  }
+
+  /**
+   * Indica si el SSO está configurado.
+   */
+  isEnabled(): boolean {
+    return Boolean(config.oidcIssuer);
+  }
+
+  /**
+   * Iniciar el login: retorna la URL de autorización del proveedor.
+   */
+  async getAuthorizationUrl(): Promise<string> {
+    const proveedor = await this.getDiscovery();
+
+    const state = randomBytes(32).toString("base64url");
+    const nonce = randomBytes(32).toString("base64url");
+    const codeVerifier = randomBytes(32).toString("base64url");
+
+    await redisClient.set(
+      this.loginKey(state),
+      JSON.stringify({ nonce, codeVerifier }),
+      "EX",
+      LOGIN_TTL_SEGUNDOS,
+    );
+
+    const params = new URLSearchParams({
+      response_type: "code",
+      client_id: config.oidcClientId,
+      redirect_uri: config.oidcRedirectUri,
+      scope: config.oidcScopes,
+      state,
+      nonce,
+      code_challenge: createHash("sha256")
+        .update(codeVerifier)
+        .digest("base64url"),
+      code_challenge_method: "S256",
+    });
+
+    return `${proveedor.authorization_endpoint}?${params.toString()}`;
+  }
+
+  /**
+   * Completar el login con la respuesta del proveedor: emite los tokens,
+   * o el desafío de 2FA si la cuenta lo requiere.
+   */
+  async handleCallback(
+    data: OidcCallbackDto,
+    contexto: SessionContext,
+  ): Promise<LoginResult> {
+    const proveedor = await this.getDiscovery();
+
+    const login = await redisClient.getdel(this.loginKey(data.state));
+
+    if (!login) {
+      throw new UnauthorizedError("Inicio de sesión SSO inválido o expirado");
+    }
+
+    const { nonce, codeVerifier } = JSON.parse(login) as {
+      nonce: string;
+      codeVerifier: string;
+    };
+
+    const idToken = await this.canjearCodigo(
+      proveedor,
+      data.code,
+      codeVerifier,
+    );
+    const claims = await this.verificarIdToken(proveedor, idToken, nonce);
+
+    // Se evalúa en cada login: quien ya no está en ningún grupo mapeado
+    // pierde el acceso aunque su cuenta exista
+    const rol = this.resolverRol(claims);
+
+    if (!rol) {
+      logWarning("Login SSO sin grupos autorizados", {
+        sub: claims.sub,
+        email: claims.email,
+        ip: contexto.ip,
+      });
+      throw new ForbiddenError(
+        "Tu cuenta no pertenece a ningún grupo con acceso al sistema",
+      );
+    }
+
+    const user = await this.provisionarUsuario(claims, rol);
+
+    if (user.activo && user.rol !== rol) {
+      await this.sincronizarRol(user.id, rol);
+
+      return this.authService.loginSso(
+        await prisma.usuario.findUniqueOrThrow({ where: { id: user.id } }),
+        contexto,
+      );
+    }
+
+    return this.authService.loginSso(user, contexto);
+  }
+
+  /**
+   * Aplicar el rol que indican los grupos del proveedor, por el mismo
+   * camino que el cambio de rol desde /api/users (revocación de tokens,
+   * perfil de agente y equipos supervisados).
+   */
+  private async sincronizarRol(userId: string, rol: Rol) {
+    const user = await prisma.usuario.findUniqueOrThrow({
+      where: { id: userId },
+      include: { agente: true },
+    });
+
+    await this.userService.applyRole(user, rol, { origen: "OIDC" });
+  }
+
+  /**
+   * Buscar la cuenta vinculada a la identidad del proveedor. Si no
+   * existe se vincula la cuenta con el mismo email o se crea una nueva,
+   * con su Agente si el rol es AGENTE.
+   * Solo se vincula si el proveedor afirma que el email está verificado
+   * y la cuenta no tiene 2FA local.
+   */
+  private async provisionarUsuario(claims: IdTokenClaims, rol: Rol) {
+    const vinculado = await prisma.usuario.findUnique({
+      where: { oidcSubject: claims.sub },
+    });
+
+    if (vinculado) {
+      return vinculado;
+    }
+
+    if (!claims.email) {
+      throw new UnauthorizedError(
+        "El proveedor de identidad no informó el email del usuario",
+      );
+    }
+
+    const email = claims.email.trim().toLowerCase();
+
+    const existente = await prisma.usuario.findUnique({
+      where: { email },
+    });
+
+    if (existente) {
+      if (claims.email_verified !== true || existente.oidcSubject) {
+        throw new UnauthorizedError(
+          "No se puede vincular la cuenta con la identidad del proveedor",
+        );
+      }
+
+      if (existente.totpHabilitado) {
+        throw new UnauthorizedError(
+          "La cuenta tiene 2FA activado y no se puede vincular al SSO",
+        );
+      }
+
+      const user = await prisma.usuario.update({
+        where: { id: existente.id },
+        data: { oidcSubject: claims.sub },
+      });
+
+      await this.logService.record({
+        accion: AccionLog.USUARIO_VINCULADO_SSO,
+        entidad: EntidadLog.USUARIO,
+        entidadId: user.id,
+        detalles: { email, issuer: config.oidcIssuer },
+      });
+
+      return user;
+    }
+
+    const nombre = claims.name || claims.preferred_username || email;
+
+    // Sin contraseña utilizable: la cuenta solo entra por SSO, salvo que
+    // se restablezca la contraseña
+    const user = await prisma.usuario.create({
+      data: {
+        email,
+        nombre,
+        rol,
+        oidcSubject: claims.sub,
+        password: await bcrypt.hash(randomBytes(32).toString("hex"), 10),
+        agente: rol === Rol.AGENTE ? { create: { nombre, email } } : undefined,
+      },
+    });
+
+    await this.logService.record({
+      accion: AccionLog.USUARIO_PROVISIONADO_SSO,
+      entidad: EntidadLog.USUARIO,
+      entidadId: user.id,
+      detalles: { email, rol, issuer: config.oidcIssuer },
+    });
+
+    return user;
+  }
+
+  /**
+   * Rol más alto entre los grupos del usuario, o null si ninguno está
+   * en OIDC_ROLE_MAPPING.
+   */
+  private resolverRol(claims: IdTokenClaims): Rol | null {
+    const valor = claims[config.oidcGroupsClaim];
+    const grupos = Array.isArray(valor)
+      ? valor.map(String)
+      : typeof valor === "string"
+        ? [valor]
+        : [];
+
+    const roles = new Set(
+      grupos
+        .map((grupo) => config.oidcRoleMapping[grupo])
+        .filter((rol): rol is Rol => Boolean(rol)),
+    );
+
+    return PRIORIDAD_ROLES.find((rol) => roles.has(rol)) ?? null;
+  }
+
+  /**
+   * Canjear el código de autorización por el ID token
+   * (autenticación client_secret_basic).
+   */
+  private async canjearCodigo(
+    proveedor: OidcDiscovery,
+    code: string,
+    codeVerifier: string,
+  ): Promise<string> {
+    const credenciales = Buffer.from(
+      `${encodeURIComponent(config.oidcClientId)}:${encodeURIComponent(config.oidcClientSecret)}`,
+    ).toString("base64");
+
+    const respuesta = await this.fetchProveedor(proveedor.token_endpoint, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/x-www-form-urlencoded",
+        Authorization: `Basic ${credenciales}`,
+      },
+      body: new URLSearchParams({
+        grant_type: "authorization_code",
+        code,
+        redirect_uri: config.oidcRedirectUri,
+        code_verifier: codeVerifier,
+      }),
+    });
+
+    const { id_token: idToken } = respuesta as { id_token?: string };
+
+    if (!idToken) {
+      logWarning("El proveedor OIDC no retornó un ID token");
+      throw new UnauthorizedError(
+        "No se pudo completar el inicio de sesión SSO",
+      );
+    }
+
+    return idToken;
+  }
+
+  /**
+   * Validar firma, emisor, audiencia, vigencia y nonce del ID token.
+   */
+  private async verificarIdToken(
+    proveedor: OidcDiscovery,
+    idToken: string,
+    nonce: string,
+  ): Promise<IdTokenClaims> {
+    const decodificado = jwt.decode(idToken, { complete: true });
+
+    if (!decodificado) {
+      throw new UnauthorizedError("ID token inválido");
+    }
+
+    const clave = await this.getClaveFirma(proveedor, decodificado.header.kid);
+
+    let claims: IdTokenClaims;
+
+    try {
+      claims = jwt.verify(idToken, clave, {
+        algorithms: ALGORITMOS_ID_TOKEN,
+        issuer: proveedor.issuer,
+        audience: config.oidcClientId,
+      }) as IdTokenClaims;
+    } catch (error) {
+      logWarning("ID token OIDC rechazado", {
+        error: error instanceof Error ? error.message : error,
+      });
+      throw new UnauthorizedError("ID token inválido");
+    }
+
+    if (!claims.sub || claims.nonce !== nonce) {
+      throw new UnauthorizedError("ID token inválido");
+    }
+
+    return claims;
+  }
+
+  /**
+   * Clave pública del JWKS. Un kid desconocido provoca una nueva lectura
+   * del JWKS, por si el proveedor rotó sus claves.
+   */
+  private async getClaveFirma(
+    proveedor: OidcDiscovery,
+    kid: string | undefined,
+  ): Promise<KeyObject> {
+    const buscar = () =>
+      kid
+        ? clavesFirma.get(kid)
+        : clavesFirma.size === 1
+          ? clavesFirma.values().next().value
+          : undefined;
+
+    if (!buscar()) {
+      const { keys } = (await this.fetchProveedor(proveedor.jwks_uri)) as {
+        keys?: (JsonWebKeyInput["key"] & { kid?: string; use?: string })[];
+      };
+
+      clavesFirma.clear();
+      for (const jwk of keys ?? []) {
+        if (jwk.use && jwk.use !== "sig") {
+          continue;
+        }
+
+        try {
+          clavesFirma.set(
+            jwk.kid ?? "",
+            createPublicKey({ key: jwk, format: "jwk" }),
+          );
+        } catch {
+          // Tipos de clave no soportados se ignoran
+        }
+      }
+    }
+
+    const clave = buscar();
+
+    if (!clave) {
+      throw new UnauthorizedError("ID token firmado con una clave desconocida");
+    }
+
+    return clave;
+  }
+
+  /**
+   * Documento de descubrimiento del proveedor (/.well-known/openid-configuration).
+   * Su issuer debe coincidir exactamente con OIDC_ISSUER (OIDC Discovery §4.3).
+   */
+  private async getDiscovery(): Promise<OidcDiscovery> {
+    if (!this.isEnabled()) {
+      throw new NotFoundError("El inicio de sesión con SSO no está habilitado");
+    }
+
+    if (discovery && discovery.expiraEn > Date.now()) {
+      return discovery.documento;
+    }
+
+    const documento = (await this.fetchProveedor(
+      `${config.oidcIssuer.replace(/\/+$/, "")}/.well-known/openid-configuration`,
+    )) as OidcDiscovery;
+
+    if (documento.issuer !== config.oidcIssuer) {
+      logWarning("El issuer del proveedor OIDC no coincide con OIDC_ISSUER", {
+        esperado: config.oidcIssuer,
+        recibido: documento.issuer,
+      });
+      throw new UnauthorizedError(
+        "No se pudo completar el inicio de sesión SSO",
+      );
+    }
+
+    discovery = { documento, expiraEn: Date.now() + DISCOVERY_TTL_MS };
+
+    return documento;
+  }
+
+  /**
+   * Petición al proveedor; cualquier falla se reporta como 401 sin
+   * exponer el detalle al cliente.
+   */
+  private async fetchProveedor(url: string, init?: RequestInit) {
+    try {
+      const respuesta = await fetch(url, {
+        ...init,
+        signal: AbortSignal.timeout(TIMEOUT_PROVEEDOR_MS),
+      });
+
+      if (!respuesta.ok) {
+        throw new Error(`HTTP ${respuesta.status}: ${await respuesta.text()}`);
+      }
+
+      return (await respuesta.json()) as unknown;
+    } catch (error) {
+      logWarning("Error al comunicarse con el proveedor OIDC", {
+        url,
+        error: error instanceof Error ? error.message : error,
+      });
+      throw new UnauthorizedError(
+        "No se pudo completar el inicio de sesión SSO",
+      );
+    }
+  }
+
+  private loginKey(state: string): string {
+    const hash = createHash("sha256").update(state).digest("hex");
+    return `${LOGIN_KEY_PREFIX}${hash}`;
+  }
+}
@@ -0,0 +1,130 @@
+import { prisma } from "../../config/database.config";
+import { NotFoundError } from "../../shared/types";
+import { Rol } from "@prisma/client";
+import { LogService } from "../logs/log.service";
+import { AccionLog, EntidadLog } from "../logs/log.model";
+import { TokenRevocationService } from "./token-revocation.service";
+
+/**
+ * Sesiones activas de los usuarios.
+ *
+ * Una sesión es una familia de refresh tokens: nace en el login y se
+ * mantiene mientras su último token no haya vencido. Revocarla elimina
+ * la familia y deniega en Redis los access tokens ya emitidos para ella.
+ */
+export class SessionService {
+  private tokenRevocationService: TokenRevocationService;
+  private logService: LogService;
+
+  constructor() {
+    this.tokenRevocationService = new TokenRevocationService();
+    this.logService = new LogService();
+  }
+
+  /**
+   * Listar las sesiones activas de un usuario (más recientes primero).
+   * sesionActualId marca la sesión desde la que se hace la consulta.
+   */
+  async getSessions(userId: string, sesionActualId?: string) {
+    // El token vigente de cada familia es el único sin canjear
+    const tokens = await prisma.refreshToken.findMany({
+      where: {
+        usuarioId: userId,
+        rotadoAt: null,
+        expiresAt: { gt: new Date() },
+      },
+      orderBy: { createdAt: "desc" },
+    });
+
+    const inicios = await prisma.refreshToken.groupBy({
+      by: ["familiaId"],
+      where: { familiaId: { in: tokens.map((token) => token.familiaId) } },
+      _min: { createdAt: true },
+    });
+
+    const inicioPorFamilia = new Map(
+      inicios.map((inicio) => [inicio.familiaId, inicio._min.createdAt]),
+    );
+
+    return tokens.map((token) => ({
+      id: token.familiaId,
+      dispositivo: token.dispositivo,
+      ip: token.ip,
+      userAgent: token.userAgent,
+      iniciadaAt: inicioPorFamilia.get(token.familiaId) ?? token.createdAt,
+      ultimaActividad: token.createdAt,
+      expiresAt: token.expiresAt,
+      actual: token.familiaId === sesionActualId,
+    }));
+  }
+
+  /**
+   * Revocar una sesión del usuario.
+   */
+  async revokeSession(
+    userId: string,
+    sessionId: string,
+    actorId: string,
+    actorRol: Rol,
+  ): Promise<void> {
+    const { count } = await prisma.refreshToken.deleteMany({
+      where: { usuarioId: userId, familiaId: sessionId },
+    });
+
+    if (count === 0) {
+      throw new NotFoundError("Sesión no encontrada");
+    }
+
+    await this.tokenRevocationService.revokeSessions([sessionId]);
+
+    await this.logService.record({
+      accion: AccionLog.SESION_REVOCADA,
+      entidad: EntidadLog.USUARIO,
+      entidadId: userId,
+      actorId,
+      actorRol,
+      detalles: { sesionId: sessionId },
+    });
+  }
+
+  /**
+   * Revocar todas las sesiones del usuario, salvo exceptoId si se indica.
+   * Retorna la cantidad de sesiones revocadas.
+   */
+  async revokeAllSessions(
+    userId: string,
+    actorId: string,
+    actorRol: Rol,
+    exceptoId?: string,
+  ): Promise<number> {
+    const where = {
+      usuarioId: userId,
+      familiaId: exceptoId ? { not: exceptoId } : undefined,
+    };
+
+    const familias = await prisma.refreshToken.findMany({
+      where,
+      select: { familiaId: true },
+      distinct: ["familiaId"],
+    });
+
+    await prisma.refreshToken.deleteMany({ where });
+    await this.tokenRevocationService.revokeSessions(
+      familias.map((familia) => familia.familiaId),
+    );
+
+    await this.logService.record({
+      accion: AccionLog.SESIONES_REVOCADAS,
+      entidad: EntidadLog.USUARIO,
+      entidadId: userId,
+      actorId,
+      actorRol,
+      detalles: {
+        sesionesRevocadas: familias.length,
+        forzadoPorAdmin: actorId !== userId,
+      },
+    });
+
+    return familias.length;
+  }
+}
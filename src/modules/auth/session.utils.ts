@@ -0,0 +1,38 @@
+/**
+ * Descripción legible del dispositivo a partir del User-Agent.
+ * Solo distingue los navegadores y sistemas más comunes.
+ */
+
+const NAVEGADORES: [RegExp, string][] = [
+  [/Edg\//, "Edge"],
+  [/OPR\//, "Opera"],
+  [/Firefox\//, "Firefox"],
+  [/Chrome\//, "Chrome"],
+  [/Safari\//, "Safari"],
+  [/PostmanRuntime\//, "Postman"],
+  [/curl\//, "curl"],
+];
+
+// Android e iOS antes que Linux y macOS: sus User-Agent también los mencionan
+const SISTEMAS: [RegExp, string][] = [
+  [/Android/, "Android"],
+  [/iPhone|iPad|iPod/, "iOS"],
+  [/Windows/, "Windows"],
+  [/Mac OS X|Macintosh/, "macOS"],
+  [/Linux/, "Linux"],
+];
+
+export const describirDispositivo = (userAgent?: string): string | null => {
+  if (!userAgent) {
+    return null;
+  }
+
+  const navegador = NAVEGADORES.find(([regex]) => regex.test(userAgent))?.[1];
+  const sistema = SISTEMAS.find(([regex]) => regex.test(userAgent))?.[1];
+
+  if (navegador && sistema) {
+    return `${navegador} en ${sistema}`;
+  }
+
+  return navegador ?? sistema ?? "Desconocido";
+};
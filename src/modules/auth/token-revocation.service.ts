@@ -0,0 +1,107 @@
+import jwt from "jsonwebtoken";
+import { redisClient } from "../../config/redis.config";
+import { config } from "../../config/env.config";
+import { JwtPayload } from "../../shared/types";
+
+/**
+ * Revocación inmediata de access tokens.
+ *
+ * Los access tokens no se guardan en la base de datos, así que se
+ * invalidan desde Redis con tres mecanismos:
+ * - jti: un token puntual (logout).
+ * - sid: todos los tokens de una sesión (revocar sesiones).
+ * - versión del usuario: todos sus tokens emitidos hasta el momento
+ *   (desactivación, cambio de rol o de contraseña).
+ */
+
+const KEY_PREFIX = "techsupport:auth";
+
+/**
+ * Vida máxima de un access token en segundos (JWT_EXPIRES_IN).
+ * Se firma un token de prueba para interpretar el valor igual que jsonwebtoken.
+ */
+const accessTokenTtl = (() => {
+  const { iat, exp } = jwt.decode(
+    jwt.sign({}, "ttl", { expiresIn: config.jwtExpiresIn }),
+  ) as { iat: number; exp: number };
+
+  return exp - iat;
+})();
+
+export class TokenRevocationService {
+  /**
+   * Versión vigente de los tokens del usuario; se incluye en cada access token.
+   */
+  async getVersion(userId: string): Promise<number> {
+    const version = await redisClient.get(this.versionKey(userId));
+    return Number(version ?? 0);
+  }
+
+  /**
+   * Revocar un access token puntual hasta su vencimiento.
+   */
+  async revokeAccessToken(payload: JwtPayload): Promise<void> {
+    if (!payload.jti || !payload.exp) {
+      return;
+    }
+
+    const ttl = payload.exp - Math.floor(Date.now() / 1000);
+
+    if (ttl > 0) {
+      await redisClient.set(this.jtiKey(payload.jti), "1", "EX", ttl);
+    }
+  }
+
+  /**
+   * Revocar los access tokens emitidos para las sesiones indicadas.
+   */
+  async revokeSessions(sessionIds: string[]): Promise<void> {
+    if (sessionIds.length === 0) {
+      return;
+    }
+
+    const pipeline = redisClient.pipeline();
+
+    for (const sessionId of sessionIds) {
+      pipeline.set(this.sidKey(sessionId), "1", "EX", accessTokenTtl);
+    }
+
+    await pipeline.exec();
+  }
+
+  /**
+   * Revocar todos los access tokens emitidos hasta ahora para el usuario.
+   */
+  async revokeUserTokens(userId: string): Promise<void> {
+    await redisClient.incr(this.versionKey(userId));
+  }
+
+  /**
+   * Indica si el access token fue revocado por alguno de los mecanismos.
+   */
+  async isRevoked(payload: JwtPayload): Promise<boolean> {
+    const [version, jtiRevocado, sidRevocado] = await redisClient.mget(
+      this.versionKey(payload.userId),
+      this.jtiKey(payload.jti ?? ""),
+      this.sidKey(payload.sid ?? ""),
+    );
+
+    return (
+      (payload.ver ?? 0) < Number(version ?? 0) ||
+      jtiRevocado !== null ||
+      sidRevocado !== null
+    );
+  }
+
+  private versionKey(userId: string): string {
+    return `${KEY_PREFIX}:version:${userId}`;
+  }
+
+  private jtiKey(jti: string): string {
+    return `${KEY_PREFIX}:jti:${jti}`;
+  }
+
+  private sidKey(sessionId: string): string {
+    return `${KEY_PREFIX}:sid:${sessionId}`;
+  }
+}
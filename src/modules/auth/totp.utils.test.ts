@@ -0,0 +1,104 @@
+import {
+  cifrarSecreto,
+  construirOtpAuthUrl,
+  descifrarSecreto,
+  generarSecretoTotp,
+  verificarCodigoTotp,
+} from "./totp.utils";
+
+// Secreto del apéndice B de RFC 6238 ("12345678901234567890") en base32
+const SECRETO_RFC = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+
+const enSegundos = (segundos: number) => new Date(segundos * 1000);
+
+describe("verificarCodigoTotp", () => {
+  it("acepta los vectores de prueba de RFC 6238 (6 dígitos)", () => {
+    // Paso = segundos / 30
+    expect(
+      verificarCodigoTotp(SECRETO_RFC, "287082", null, enSegundos(59)),
+    ).toBe(1);
+    expect(
+      verificarCodigoTotp(SECRETO_RFC, "081804", null, enSegundos(1111111109)),
+    ).toBe(37037036);
+    expect(
+      verificarCodigoTotp(SECRETO_RFC, "005924", null, enSegundos(1234567890)),
+    ).toBe(41152263);
+  });
+
+  it("rechaza un código incorrecto", () => {
+    expect(
+      verificarCodigoTotp(SECRETO_RFC, "000000", null, enSegundos(59)),
+    ).toBeNull();
+  });
+
+  it("tolera un paso de desfase de reloj, no dos", () => {
+    // "287082" corresponde al paso 1 (30-59 s)
+    expect(
+      verificarCodigoTotp(SECRETO_RFC, "287082", null, enSegundos(89)),
+    ).toBe(1);
+    expect(
+      verificarCodigoTotp(SECRETO_RFC, "287082", null, enSegundos(119)),
+    ).toBeNull();
+  });
+
+  it("no acepta de nuevo un paso ya usado ni uno anterior", () => {
+    const ahora = enSegundos(59);
+
+    expect(verificarCodigoTotp(SECRETO_RFC, "287082", 0, ahora)).toBe(1);
+    expect(verificarCodigoTotp(SECRETO_RFC, "287082", 1, ahora)).toBeNull();
+    expect(verificarCodigoTotp(SECRETO_RFC, "287082", 2, ahora)).toBeNull();
+  });
+});
+
+describe("generarSecretoTotp", () => {
+  it("genera 160 bits en base32, distintos en cada llamada", () => {
+    const secreto = generarSecretoTotp();
+
+    expect(secreto).toMatch(/^[A-Z2-7]{32}$/);
+    expect(generarSecretoTotp()).not.toBe(secreto);
+  });
+});
+
+describe("construirOtpAuthUrl", () => {
+  it("incluye emisor, cuenta y parámetros del algoritmo", () => {
+    const url = new URL(
+      construirOtpAuthUrl("ana@techsupport.com", SECRETO_RFC),
+    );
+
+    expect(url.protocol).toBe("otpauth:");
+    expect(url.host).toBe("totp");
+    expect(decodeURIComponent(url.pathname)).toBe(
+      "/TechSupport Pro:ana@techsupport.com",
+    );
+    expect(Object.fromEntries(url.searchParams)).toEqual({
+      secret: SECRETO_RFC,
+      issuer: "TechSupport Pro",
+      algorithm: "SHA1",
+      digits: "6",
+      period: "30",
+    });
+  });
+});
+
+describe("cifrarSecreto / descifrarSecreto", () => {
+  it("recupera el secreto original", () => {
+    const cifrado = cifrarSecreto(SECRETO_RFC);
+
+    expect(cifrado).not.toContain(SECRETO_RFC);
+    expect(descifrarSecreto(cifrado)).toBe(SECRETO_RFC);
+  });
+
+  it("usa un iv distinto en cada cifrado", () => {
+    expect(cifrarSecreto(SECRETO_RFC)).not.toBe(cifrarSecreto(SECRETO_RFC));
+  });
+
+  it("rechaza un contenido alterado", () => {
+    const [iv, authTag, contenido] = cifrarSecreto(SECRETO_RFC).split(".");
+    const bytes = Buffer.from(contenido, "base64");
+    bytes[0] ^= 0xff;
+
+    expect(() =>
+      descifrarSecreto([iv, authTag, bytes.toString("base64")].join(".")),
+    ).toThrow();
+  });
+});
@@ -0,0 +1,150 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  createHmac,
+  randomBytes,
+} from "crypto";
+import { config } from "../../config/env.config";
+
+/**
+ * TOTP (RFC 6238) compatible con Google Authenticator, Authy, etc.:
+ * HMAC-SHA1, 6 dígitos y pasos de 30 segundos.
+ */
+
+const PASO_SEGUNDOS = 30;
+const DIGITOS = 6;
+// Pasos aceptados antes y después del actual (desfase de reloj)
+const VENTANA = 1;
+
+const BASE32_ALFABETO = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+const base32Encode = (buffer: Buffer): string => {
+  let bits = "";
+  for (const byte of buffer) {
+    bits += byte.toString(2).padStart(8, "0");
+  }
+
+  let resultado = "";
+  for (let i = 0; i < bits.length; i += 5) {
+    resultado +=
+      BASE32_ALFABETO[parseInt(bits.slice(i, i + 5).padEnd(5, "0"), 2)];
+  }
+
+  return resultado;
+};
+
+const base32Decode = (valor: string): Buffer => {
+  let bits = "";
+  for (const caracter of valor.replace(/=+$/, "").toUpperCase()) {
+    bits += BASE32_ALFABETO.indexOf(caracter).toString(2).padStart(5, "0");
+  }
+
+  const bytes: number[] = [];
+  for (let i = 0; i + 8 <= bits.length; i += 8) {
+    bytes.push(parseInt(bits.slice(i, i + 8), 2));
+  }
+
+  return Buffer.from(bytes);
+};
+
+/**
+ * Secreto aleatorio de 160 bits en base32.
+ */
+export const generarSecretoTotp = (): string => base32Encode(randomBytes(20));
+
+const calcularCodigo = (secreto: string, paso: number): string => {
+  const contador = Buffer.alloc(8);
+  contador.writeBigUInt64BE(BigInt(paso));
+
+  const hmac = createHmac("sha1", base32Decode(secreto))
+    .update(contador)
+    .digest();
+
+  // Truncamiento dinámico (RFC 4226)
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binario = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+  return String(binario % 10 ** DIGITOS).padStart(DIGITOS, "0");
+};
+
+/**
+ * Verifica un código TOTP y retorna el paso con el que coincide,
+ * o null si no es válido. Solo se aceptan pasos posteriores a
+ * ultimoPaso para que un mismo código no pueda reutilizarse.
+ */
+export const verificarCodigoTotp = (
+  secreto: string,
+  codigo: string,
+  ultimoPaso: number | null,
+  now: Date = new Date(),
+): number | null => {
+  const pasoActual = Math.floor(now.getTime() / 1000 / PASO_SEGUNDOS);
+
+  for (let desfase = -VENTANA; desfase <= VENTANA; desfase++) {
+    const paso = pasoActual + desfase;
+
+    if (ultimoPaso !== null && paso <= ultimoPaso) {
+      continue;
+    }
+
+    if (calcularCodigo(secreto, paso) === codigo) {
+      return paso;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * URL otpauth:// para registrar el secreto en la app (o generar un QR).
+ */
+export const construirOtpAuthUrl = (email: string, secreto: string): string => {
+  const etiqueta = encodeURIComponent(`${config.totpIssuer}:${email}`);
+  const params = new URLSearchParams({
+    secret: secreto,
+    issuer: config.totpIssuer,
+    algorithm: "SHA1",
+    digits: String(DIGITOS),
+    period: String(PASO_SEGUNDOS),
+  });
+
+  return `otpauth://totp/${etiqueta}?${params.toString()}`;
+};
+
+// ============================================
+// Cifrado del secreto en la base de datos
+// ============================================
+
+const claveCifrado = createHash("sha256")
+  .update(config.totpEncryptionKey)
+  .digest();
+
+/**
+ * Cifra el secreto con AES-256-GCM: iv.authTag.contenido en base64.
+ */
+export const cifrarSecreto = (secreto: string): string => {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", claveCifrado, iv);
+  const contenido = Buffer.concat([
+    cipher.update(secreto, "utf8"),
+    cipher.final(),
+  ]);
+
+  return [iv, cipher.getAuthTag(), contenido]
+    .map((parte) => parte.toString("base64"))
+    .join(".");
+};
+
+export const descifrarSecreto = (cifrado: string): string => {
+  const [iv, authTag, contenido] = cifrado
+    .split(".")
+    .map((parte) => Buffer.from(parte, "base64"));
+
+  const decipher = createDecipheriv("aes-256-gcm", claveCifrado, iv);
+  decipher.setAuthTag(authTag);
+
+  return Buffer.concat([decipher.update(contenido), decipher.final()]).toString(
+    "utf8",
+  );
+};
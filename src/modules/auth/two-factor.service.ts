@@ -0,0 +1,474 @@
+import { createHash, randomBytes } from "crypto";
+import bcrypt from "bcrypt";
+import { prisma } from "../../config/database.config";
+import { redisClient } from "../../config/redis.config";
+import { config } from "../../config/env.config";
+import { logWarning } from "../../config/logger.config";
+import {
+  DisableTwoFactorDto,
+  TwoFactorChallenge,
+  TwoFactorSetup,
+  NotFoundError,
+  ConflictError,
+  ForbiddenError,
+  UnauthorizedError,
+  ValidationError,
+} from "../../shared/types";
+import { Rol } from "@prisma/client";
+import { LogService } from "../logs/log.service";
+import { AccionLog, EntidadLog } from "../logs/log.model";
+import { LoginLockoutService } from "./login-lockout.service";
+import {
+  construirOtpAuthUrl,
+  cifrarSecreto,
+  descifrarSecreto,
+  generarSecretoTotp,
+  verificarCodigoTotp,
+} from "./totp.utils";
+
+const CANTIDAD_CODIGOS_RECUPERACION = 10;
+
+// Desafío de login: vigencia y códigos erróneos permitidos antes de anularlo
+const DESAFIO_TTL_SEGUNDOS = 5 * 60;
+const DESAFIO_MAX_INTENTOS = 5;
+const DESAFIO_KEY_PREFIX = "techsupport:auth:2fa-challenge:";
+
+export type MetodoSegundoFactor = "TOTP" | "CODIGO_RECUPERACION";
+
+// Cómo se verificó el primer factor del login que abrió el desafío
+export type MetodoLogin = "PASSWORD" | "OIDC";
+
+type TipoDesafio = TwoFactorChallenge["metodo"];
+
+interface UsuarioConTotp {
+  id: string;
+  totpSecret: string | null;
+  totpUltimoPaso: number | null;
+}
+
+/**
+ * Autenticación de dos factores con TOTP y códigos de recuperación.
+ *
+ * Un usuario con 2FA habilitado, o cuyo rol lo exige
+ * (TWO_FACTOR_REQUIRED_ROLES), completa el login en dos pasos: la
+ * contraseña o el SSO devuelven un desafío de un solo uso guardado en
+ * Redis, que se canjea por los tokens junto con el segundo factor.
+ */
+export class TwoFactorService {
+  private loginLockoutService: LoginLockoutService;
+  private logService: LogService;
+
+  constructor() {
+    this.loginLockoutService = new LoginLockoutService();
+    this.logService = new LogService();
+  }
+
+  /**
+   * Indica si el rol está obligado a usar 2FA.
+   */
+  isRequired(rol: Rol): boolean {
+    return config.twoFactorRequiredRoles.includes(rol);
+  }
+
+  /**
+   * Iniciar el enrolamiento: genera un secreto nuevo que queda pendiente
+   * hasta confirmarlo con enable().
+   */
+  async setup(userId: string): Promise<TwoFactorSetup> {
+    const user = await this.findUser(userId);
+
+    if (user.totpHabilitado) {
+      throw new ConflictError(
+        "La autenticación de dos factores ya está habilitada",
+      );
+    }
+
+    const secreto = generarSecretoTotp();
+
+    await prisma.usuario.update({
+      where: { id: userId },
+      data: { totpSecret: cifrarSecreto(secreto), totpUltimoPaso: null },
+    });
+
+    return {
+      secreto,
+      otpauthUrl: construirOtpAuthUrl(user.email, secreto),
+    };
+  }
+
+  /**
+   * Habilitar 2FA confirmando un código generado por la app.
+   * Retorna los códigos de recuperación, que solo se muestran esta vez.
+   */
+  async enable(userId: string, codigo: string): Promise<string[]> {
+    const user = await this.findUser(userId);
+
+    if (user.totpHabilitado) {
+      throw new ConflictError(
+        "La autenticación de dos factores ya está habilitada",
+      );
+    }
+
+    if (!user.totpSecret) {
+      throw new ValidationError("Primero debes iniciar el enrolamiento");
+    }
+
+    const totpSecret = user.totpSecret;
+
+    const paso = await this.limitarIntentos(user, async () => {
+      const paso = verificarCodigoTotp(
+        descifrarSecreto(totpSecret),
+        codigo,
+        null,
+      );
+
+      if (paso === null) {
+        throw new ValidationError("Código de verificación inválido");
+      }
+
+      return paso;
+    });
+
+    const codigos = this.generarCodigosRecuperacion();
+
+    await prisma.$transaction([
+      prisma.usuario.update({
+        where: { id: userId },
+        data: { totpHabilitado: true, totpUltimoPaso: paso },
+      }),
+      ...this.reemplazarCodigosRecuperacion(userId, codigos),
+    ]);
+
+    await this.logService.record({
+      accion: AccionLog.USUARIO_2FA_HABILITADO,
+      entidad: EntidadLog.USUARIO,
+      entidadId: userId,
+      actorId: userId,
+      actorRol: user.rol,
+    });
+
+    return codigos;
+  }
+
+  /**
+   * Deshabilitar 2FA. Requiere la contraseña y un segundo factor válido,
+   * y no se permite si el rol del usuario lo exige.
+   */
+  async disable(userId: string, data: DisableTwoFactorDto): Promise<void> {
+    const user = await this.findUser(userId);
+
+    if (!user.totpHabilitado) {
+      throw new ValidationError(
+        "La autenticación de dos factores no está habilitada",
+      );
+    }
+
+    if (this.isRequired(user.rol)) {
+      throw new ForbiddenError(
+        `El rol ${user.rol} requiere autenticación de dos factores`,
+      );
+    }
+
+    await this.limitarIntentos(user, async () => {
+      const validPassword = await bcrypt.compare(data.password, user.password);
+
+      if (!validPassword) {
+        throw new ValidationError("La contraseña es incorrecta");
+      }
+
+      await this.verify(user, data.codigo);
+    });
+
+    await prisma.$transaction([
+      prisma.usuario.update({
+        where: { id: userId },
+        data: this.datosSinTotp(),
+      }),
+      prisma.codigoRecuperacion.deleteMany({ where: { usuarioId: userId } }),
+    ]);
+
+    await this.logService.record({
+      accion: AccionLog.USUARIO_2FA_DESHABILITADO,
+      entidad: EntidadLog.USUARIO,
+      entidadId: userId,
+      actorId: userId,
+      actorRol: user.rol,
+    });
+  }
+
+  /**
+   * Generar nuevos códigos de recuperación; los anteriores dejan de servir.
+   */
+  async regenerateRecoveryCodes(
+    userId: string,
+    codigo: string,
+  ): Promise<string[]> {
+    const user = await this.findUser(userId);
+
+    if (!user.totpHabilitado) {
+      throw new ValidationError(
+        "La autenticación de dos factores no está habilitada",
+      );
+    }
+
+    await this.limitarIntentos(user, () => this.verify(user, codigo));
+
+    const codigos = this.generarCodigosRecuperacion();
+
+    await prisma.$transaction(
+      this.reemplazarCodigosRecuperacion(userId, codigos),
+    );
+
+    await this.logService.record({
+      accion: AccionLog.USUARIO_2FA_CODIGOS_REGENERADOS,
+      entidad: EntidadLog.USUARIO,
+      entidadId: userId,
+      actorId: userId,
+      actorRol: user.rol,
+    });
+
+    return codigos;
+  }
+
+  /**
+   * Quitar el 2FA de un usuario que perdió su dispositivo y sus códigos.
+   * Si su rol lo exige, deberá enrolarse de nuevo en el próximo login.
+   */
+  async reset(userId: string, adminId: string, adminRol: Rol): Promise<void> {
+    const user = await this.findUser(userId);
+
+    if (!user.totpHabilitado && !user.totpSecret) {
+      throw new ConflictError(
+        "El usuario no tiene autenticación de dos factores",
+      );
+    }
+
+    await prisma.$transaction([
+      prisma.usuario.update({
+        where: { id: userId },
+        data: this.datosSinTotp(),
+      }),
+      prisma.codigoRecuperacion.deleteMany({ where: { usuarioId: userId } }),
+    ]);
+
+    await this.logService.record({
+      accion: AccionLog.USUARIO_2FA_RESTABLECIDO,
+      entidad: EntidadLog.USUARIO,
+      entidadId: userId,
+      actorId: adminId,
+      actorRol: adminRol,
+    });
+  }
+
+  /**
+   * Verificar el segundo factor: código TOTP de 6 dígitos o código de
+   * recuperación. Ambos son de un solo uso.
+   */
+  async verify(
+    user: UsuarioConTotp,
+    codigo: string,
+  ): Promise<MetodoSegundoFactor> {
+    if (/^\d{6}$/.test(codigo)) {
+      const paso = user.totpSecret
+        ? verificarCodigoTotp(
+            descifrarSecreto(user.totpSecret),
+            codigo,
+            user.totpUltimoPaso,
+          )
+        : null;
+
+      // Marcado condicional: el mismo código no sirve dos veces
+      const { count } =
+        paso === null
+          ? { count: 0 }
+          : await prisma.usuario.updateMany({
+              where: {
+                id: user.id,
+                OR: [
+                  { totpUltimoPaso: null },
+                  { totpUltimoPaso: { lt: paso } },
+                ],
+              },
+              data: { totpUltimoPaso: paso },
+            });
+
+      if (count === 0) {
+        throw new ValidationError("Código de verificación inválido");
+      }
+
+      return "TOTP";
+    }
+
+    const { count } = await prisma.codigoRecuperacion.updateMany({
+      where: {
+        usuarioId: user.id,
+        codigoHash: this.hashCodigo(codigo),
+        usedAt: null,
+      },
+      data: { usedAt: new Date() },
+    });
+
+    if (count === 0) {
+      throw new ValidationError("Código de verificación inválido");
+    }
+
+    return "CODIGO_RECUPERACION";
+  }
+
+  /**
+   * Crear el desafío que el cliente canjea en el segundo paso del login.
+   */
+  async createChallenge(
+    userId: string,
+    metodo: TipoDesafio,
+    metodoLogin: MetodoLogin = "PASSWORD",
+  ): Promise<TwoFactorChallenge> {
+    const tokenDesafio = randomBytes(32).toString("hex");
+    const key = this.challengeKey(tokenDesafio);
+
+    await redisClient
+      .multi()
+      .hset(key, { userId, metodo, metodoLogin, intentos: 0 })
+      .expire(key, DESAFIO_TTL_SEGUNDOS)
+      .exec();
+
+    return {
+      requiere2FA: true,
+      metodo,
+      tokenDesafio,
+      expiresIn: DESAFIO_TTL_SEGUNDOS,
+    };
+  }
+
+  /**
+   * Ejecutar un paso del login con el desafío indicado.
+   * Si fn falla se cuenta un intento y, al llegar al máximo, el desafío
+   * se anula. consumir indica si el desafío termina con este paso.
+   */
+  async resolveChallenge<T>(
+    tokenDesafio: string,
+    metodo: TipoDesafio,
+    consumir: boolean,
+    fn: (userId: string) => Promise<T>,
+  ): Promise<{ userId: string; metodoLogin: MetodoLogin; resultado: T }> {
+    const key = this.challengeKey(tokenDesafio);
+    const desafio = await redisClient.hgetall(key);
+
+    if (!desafio.userId || desafio.metodo !== metodo) {
+      throw new UnauthorizedError(
+        "Desafío de autenticación inválido o expirado",
+      );
+    }
+
+    let resultado: T;
+
+    try {
+      resultado = await fn(desafio.userId);
+    } catch (error) {
+      const intentos = await redisClient.hincrby(key, "intentos", 1);
+
+      if (intentos >= DESAFIO_MAX_INTENTOS) {
+        await redisClient.del(key);
+      }
+
+      throw error;
+    }
+
+    if (consumir) {
+      await redisClient.del(key);
+    }
+
+    return {
+      userId: desafio.userId,
+      metodoLogin: desafio.metodoLogin === "OIDC" ? "OIDC" : "PASSWORD",
+      resultado,
+    };
+  }
+
+  /**
+   * Los códigos (y la contraseña en disable) comparten el bloqueo por
+   * intentos fallidos del login, para que no se puedan adivinar por
+   * fuerza bruta desde estas rutas.
+   */
+  private async limitarIntentos<T>(
+    user: { id: string; email: string },
+    fn: () => Promise<T>,
+  ): Promise<T> {
+    await this.loginLockoutService.assertNotLocked(user.email);
+
+    try {
+      return await fn();
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        const bloqueadoHasta = await this.loginLockoutService.registerFailure(
+          user.email,
+        );
+
+        if (bloqueadoHasta) {
+          logWarning("Cuenta bloqueada por códigos de 2FA inválidos", {
+            userId: user.id,
+            bloqueadoHasta,
+          });
+
+          await this.logService.record({
+            accion: AccionLog.USUARIO_BLOQUEADO,
+            entidad: EntidadLog.USUARIO,
+            entidadId: user.id,
+            detalles: { bloqueadoHasta, motivo: "SEGUNDO_FACTOR_INVALIDO" },
+          });
+        }
+      }
+
+      throw error;
+    }
+  }
+
+  private async findUser(userId: string) {
+    const user = await prisma.usuario.findUnique({
+      where: { id: userId },
+    });
+
+    if (!user) {
+      throw new NotFoundError("Usuario no encontrado");
+    }
+
+    return user;
+  }
+
+  private datosSinTotp() {
+    return { totpSecret: null, totpHabilitado: false, totpUltimoPaso: null };
+  }
+
+  /**
+   * Códigos con formato xxxxx-xxxxx (hexadecimal).
+   */
+  private generarCodigosRecuperacion(): string[] {
+    return Array.from({ length: CANTIDAD_CODIGOS_RECUPERACION }, () => {
+      const codigo = randomBytes(5).toString("hex");
+      return `${codigo.slice(0, 5)}-${codigo.slice(5)}`;
+    });
+  }
+
+  private reemplazarCodigosRecuperacion(userId: string, codigos: string[]) {
+    return [
+      prisma.codigoRecuperacion.deleteMany({ where: { usuarioId: userId } }),
+      prisma.codigoRecuperacion.createMany({
+        data: codigos.map((codigo) => ({
+          usuarioId: userId,
+          codigoHash: this.hashCodigo(codigo),
+        })),
+      }),
+    ];
+  }
+
+  // Se ignoran guiones, espacios y mayúsculas al comparar
+  private hashCodigo(codigo: string): string {
+    const normalizado = codigo.toLowerCase().replace(/[^0-9a-f]/g, "");
+    return createHash("sha256").update(normalizado).digest("hex");
+  }
+
+  private challengeKey(tokenDesafio: string): string {
+    const hash = createHash("sha256").update(tokenDesafio).digest("hex");
+    return `${DESAFIO_KEY_PREFIX}${hash}`;
+  }
+}
@@ -0,0 +1,82 @@
+import { Response } from "express";
+import { AuthRequest } from "../../shared/types";
+import { LogService } from "./log.service";
+import { LoginAttemptService } from "./login-attempt.service";
+
+export class LogController {
+  private logService: LogService;
+  private loginAttemptService: LoginAttemptService;
+
+  constructor() {
+    this.logService = new LogService();
+    this.loginAttemptService = new LoginAttemptService();
+  }
+
+  /**
+   * GET /api/logs
+   * Consultar el log de actividad con filtros y paginación.
+   */
+  getLogs = async (req: AuthRequest, res: Response): Promise<void> => {
+    const filters = {
+      actorId: req.query.actorId as string | undefined,
+      apiKeyId: req.query.apiKeyId as string | undefined,
+      entidad: req.query.entidad as string | undefined,
+      entidadId: req.query.entidadId as string | undefined,
+      accion: req.query.accion as string | undefined,
+      fechaDesde: req.query.fechaDesde
+        ? new Date(req.query.fechaDesde as string)
+        : undefined,
+      fechaHasta: req.query.fechaHasta
+        ? new Date(req.query.fechaHasta as string)
+        : undefined,
+    };
+
+    const pagination = {
+      page: req.query.page ? Number(req.query.page) : 1,
+      pageSize: req.query.pageSize ? Number(req.query.pageSize) : 10,
+    };
+
+    const result = await this.logService.getLogs(filters, pagination);
+
+    res.json({
+      success: true,
+      ...result,
+    });
+  };
+
+  /**
+   * GET /api/logs/login-attempts
+   * Consultar intentos de login con filtros y paginación.
+   */
+  getLoginAttempts = async (req: AuthRequest, res: Response): Promise<void> => {
+    const filters = {
+      email: req.query.email as string | undefined,
+      usuarioId: req.query.usuarioId as string | undefined,
+      ip: req.query.ip as string | undefined,
+      exito:
+        req.query.exito !== undefined ? req.query.exito === "true" : undefined,
+      resultado: req.query.resultado as string | undefined,
+      fechaDesde: req.query.fechaDesde
+        ? new Date(req.query.fechaDesde as string)
+        : undefined,
+      fechaHasta: req.query.fechaHasta
+        ? new Date(req.query.fechaHasta as string)
+        : undefined,
+    };
+
+    const pagination = {
+      page: req.query.page ? Number(req.query.page) : 1,
+      pageSize: req.query.pageSize ? Number(req.query.pageSize) : 10,
+    };
+
+    const result = await this.loginAttemptService.getAttempts(
+      filters,
+      pagination,
+    );
+
+    res.json({
+      success: true,
+      ...result,
+    });
+  };
+}
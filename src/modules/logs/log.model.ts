@@ -0,0 +1,117 @@
+import { Schema, model, InferSchemaType } from "mongoose";
+
+/**
+ * Acciones de negocio que se registran en el log de actividad.
+ */
+export const AccionLog = {
+  LOGIN: "LOGIN",
+  LOGOUT: "LOGOUT",
+  REFRESH_TOKEN_REUTILIZADO: "REFRESH_TOKEN_REUTILIZADO",
+  SESION_REVOCADA: "SESION_REVOCADA",
+  SESIONES_REVOCADAS: "SESIONES_REVOCADAS",
+  USUARIO_REGISTRADO: "USUARIO_REGISTRADO",
+  USUARIO_ROL_ACTUALIZADO: "USUARIO_ROL_ACTUALIZADO",
+  USUARIO_DESACTIVADO: "USUARIO_DESACTIVADO",
+  USUARIO_ACTIVADO: "USUARIO_ACTIVADO",
+  USUARIO_PASSWORD_RESTABLECIDA: "USUARIO_PASSWORD_RESTABLECIDA",
+  USUARIO_PASSWORD_CAMBIADA: "USUARIO_PASSWORD_CAMBIADA",
+  USUARIO_PASSWORD_RESET_SOLICITADO: "USUARIO_PASSWORD_RESET_SOLICITADO",
+  USUARIO_2FA_HABILITADO: "USUARIO_2FA_HABILITADO",
+  USUARIO_2FA_DESHABILITADO: "USUARIO_2FA_DESHABILITADO",
+  USUARIO_2FA_CODIGOS_REGENERADOS: "USUARIO_2FA_CODIGOS_REGENERADOS",
+  USUARIO_2FA_RESTABLECIDO: "USUARIO_2FA_RESTABLECIDO",
+  USUARIO_BLOQUEADO: "USUARIO_BLOQUEADO",
+  USUARIO_DESBLOQUEADO: "USUARIO_DESBLOQUEADO",
+  USUARIO_PROVISIONADO_SSO: "USUARIO_PROVISIONADO_SSO",
+  USUARIO_VINCULADO_SSO: "USUARIO_VINCULADO_SSO",
+  API_KEY_CREADA: "API_KEY_CREADA",
+  API_KEY_REVOCADA: "API_KEY_REVOCADA",
+  ROL_CREADO: "ROL_CREADO",
+  ROL_ACTUALIZADO: "ROL_ACTUALIZADO",
+  ROL_ELIMINADO: "ROL_ELIMINADO",
+  USUARIO_ROL_PERSONALIZADO_ACTUALIZADO: "USUARIO_ROL_PERSONALIZADO_ACTUALIZADO",
+  TICKET_CREADO: "TICKET_CREADO",
+  TICKET_ACTUALIZADO: "TICKET_ACTUALIZADO",
+  TICKET_ELIMINADO: "TICKET_ELIMINADO",
+  TICKET_ESCALADO: "TICKET_ESCALADO",
+  COMENTARIO_CREADO: "COMENTARIO_CREADO",
+  COMENTARIO_ACTUALIZADO: "COMENTARIO_ACTUALIZADO",
+  COMENTARIO_ELIMINADO: "COMENTARIO_ELIMINADO",
+  ADJUNTO_SUBIDO: "ADJUNTO_SUBIDO",
+  ADJUNTO_ELIMINADO: "ADJUNTO_ELIMINADO",
+  CLIENTE_CREADO: "CLIENTE_CREADO",
+  CLIENTE_ACTUALIZADO: "CLIENTE_ACTUALIZADO",
+  CLIENTE_ELIMINADO: "CLIENTE_ELIMINADO",
+  POLITICA_SLA_CREADA: "POLITICA_SLA_CREADA",
+  POLITICA_SLA_ACTUALIZADA: "POLITICA_SLA_ACTUALIZADA",
+  POLITICA_SLA_ELIMINADA: "POLITICA_SLA_ELIMINADA",
+  AGENTE_DISPONIBILIDAD_ACTUALIZADA: "AGENTE_DISPONIBILIDAD_ACTUALIZADA",
+  AGENTE_AUSENCIA_REGISTRADA: "AGENTE_AUSENCIA_REGISTRADA",
+  AGENTE_AUSENCIA_ELIMINADA: "AGENTE_AUSENCIA_ELIMINADA",
+  AGENTE_TICKETS_REASIGNADOS: "AGENTE_TICKETS_REASIGNADOS",
+  AGENTE_ACTUALIZADO: "AGENTE_ACTUALIZADO",
+  AGENTE_NIVEL_ACTUALIZADO: "AGENTE_NIVEL_ACTUALIZADO",
+  AGENTE_DESACTIVADO: "AGENTE_DESACTIVADO",
+  AGENTE_ACTIVADO: "AGENTE_ACTIVADO",
+} as const;
+
+export type AccionLog = (typeof AccionLog)[keyof typeof AccionLog];
+
+/**
+ * Tipo de entidad afectada por la acción.
+ */
+export const EntidadLog = {
+  USUARIO: "USUARIO",
+  TICKET: "TICKET",
+  COMENTARIO: "COMENTARIO",
+  ADJUNTO: "ADJUNTO",
+  CLIENTE: "CLIENTE",
+  AGENTE: "AGENTE",
+  API_KEY: "API_KEY",
+  ROL: "ROL",
+  POLITICA_SLA: "POLITICA_SLA",
+} as const;
+
+export type EntidadLog = (typeof EntidadLog)[keyof typeof EntidadLog];
+
+/**
+ * Evento de actividad almacenado en MongoDB.
+ * actorId es nulo cuando la acción la ejecuta un proceso automático (SLA)
+ * o no puede atribuirse a un usuario (reutilización de refresh token).
+ * Si la acción llega por API key, actorId y actorRol son los del usuario
+ * de servicio de la key y apiKeyId identifica la key.
+ */
+const activityLogSchema = new Schema(
+  {
+    accion: {
+      type: String,
+      enum: Object.values(AccionLog),
+      required: true,
+    },
+    entidad: {
+      type: String,
+      enum: Object.values(EntidadLog),
+      required: true,
+    },
+    entidadId: { type: String, default: null },
+    actorId: { type: String, default: null },
+    actorRol: { type: String, default: null },
+    apiKeyId: { type: String, default: null },
+    detalles: { type: Schema.Types.Mixed, default: {} },
+  },
+  {
+    collection: "activity_logs",
+    timestamps: { createdAt: true, updatedAt: false },
+    versionKey: false,
+  },
+);
+
+activityLogSchema.index({ createdAt: -1 });
+activityLogSchema.index({ actorId: 1, createdAt: -1 });
+activityLogSchema.index({ apiKeyId: 1, createdAt: -1 });
+activityLogSchema.index({ entidad: 1, entidadId: 1, createdAt: -1 });
+activityLogSchema.index({ accion: 1, createdAt: -1 });
+
+export type ActivityLog = InferSchemaType<typeof activityLogSchema>;
+
+export const ActivityLogModel = model("ActivityLog", activityLogSchema);
@@ -0,0 +1,50 @@
+import { Router } from "express";
+import { LogController } from "./log.controller";
+import { asyncHandler } from "../../shared/middleware/errorHandler";
+import {
+  authenticate,
+  authorize,
+} from "../../shared/middleware/auth.middleware";
+import {
+  validatePagination,
+  validateDateFilters,
+  validateLogFilters,
+  validateLoginAttemptFilters,
+} from "../../shared/middleware/validation.middleware";
+import { Rol } from "@prisma/client";
+
+const router = Router();
+const logController = new LogController();
+
+/**
+ * Todas las rutas requieren autenticación y rol ADMIN.
+ */
+router.use(authenticate, authorize(Rol.ADMIN));
+
+/**
+ * GET /api/logs
+ * Consultar log de actividad (filtros: actorId, entidad, entidadId,
+ * accion, fechaDesde, fechaHasta).
+ */
+router.get(
+  "/",
+  validatePagination,
+  validateDateFilters,
+  validateLogFilters,
+  asyncHandler(logController.getLogs),
+);
+
+/**
+ * GET /api/logs/login-attempts
+ * Consultar intentos de login (filtros: email, usuarioId, ip, exito,
+ * resultado, fechaDesde, fechaHasta).
+ */
+router.get(
+  "/login-attempts",
+  validatePagination,
+  validateDateFilters,
+  validateLoginAttemptFilters,
+  asyncHandler(logController.getLoginAttempts),
+);
+
+export { router as logRoutes };
@@ -0,0 +1,115 @@
+import { isMongoDBConnected } from "../../config/mongodb.config";
+import { logWarning } from "../../config/logger.config";
+import { LogFilters, PaginationParams } from "../../shared/types";
+import { ActivityLogModel, AccionLog, EntidadLog } from "./log.model";
+
+interface RecordLogInput {
+  accion: AccionLog;
+  entidad: EntidadLog;
+  entidadId?: string | null;
+  actorId?: string | null;
+  actorRol?: string | null;
+  // Key por la que llegó la acción; el actor sigue siendo su usuario
+  apiKeyId?: string | null;
+  detalles?: Record<string, unknown>;
+}
+
+export class LogService {
+  /**
+   * Registrar un evento de actividad.
+   * Nunca lanza errores: el log no debe interrumpir la operación de negocio.
+   * Si MongoDB no está disponible el evento se descarta con una advertencia.
+   */
+  async record(input: RecordLogInput): Promise<void> {
+    if (!isMongoDBConnected()) {
+      logWarning("MongoDB no disponible, evento de actividad descartado", {
+        accion: input.accion,
+        entidadId: input.entidadId,
+      });
+      return;
+    }
+
+    try {
+      await ActivityLogModel.create({
+        accion: input.accion,
+        entidad: input.entidad,
+        entidadId: input.entidadId ?? null,
+        actorId: input.actorId ?? null,
+        actorRol: input.actorRol ?? null,
+        apiKeyId: input.apiKeyId ?? null,
+        detalles: input.detalles ?? {},
+      });
+    } catch (error) {
+      logWarning("Error registrando evento de actividad", {
+        accion: input.accion,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * Consultar eventos con filtros y paginación (más recientes primero).
+   */
+  async getLogs(filters: LogFilters, pagination: PaginationParams) {
+    const page = pagination.page || 1;
+    const pageSize = Math.min(pagination.pageSize || 10, 100);
+    const skip = (page - 1) * pageSize;
+
+    const where: any = {};
+
+    if (filters.actorId) {
+      where.actorId = filters.actorId;
+    }
+
+    if (filters.apiKeyId) {
+      where.apiKeyId = filters.apiKeyId;
+    }
+
+    if (filters.entidad) {
+      where.entidad = filters.entidad;
+    }
+
+    if (filters.entidadId) {
+      where.entidadId = filters.entidadId;
+    }
+
+    if (filters.accion) {
+      where.accion = filters.accion;
+    }
+
+    if (filters.fechaDesde || filters.fechaHasta) {
+      where.createdAt = {};
+
+      if (filters.fechaDesde) {
+        where.createdAt.$gte = filters.fechaDesde;
+      }
+
+      if (filters.fechaHasta) {
+        where.createdAt.$lte = filters.fechaHasta;
+      }
+    }
+
+    const [logs, totalItems] = await Promise.all([
+      ActivityLogModel.find(where)
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(pageSize)
+        .lean(),
+      ActivityLogModel.countDocuments(where),
+    ]);
+
+    const totalPages = Math.ceil(totalItems / pageSize);
+
+    return {
+      data: logs,
+      pagination: {
+        page,
+        pageSize,
+        totalItems,
+        totalPages,
+        hasNextPage: page < totalPages,
+        hasPreviousPage: page > 1,
+      },
+    };
+  }
+}
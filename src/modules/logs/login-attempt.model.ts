@@ -0,0 +1,54 @@
+import { Schema, model, InferSchemaType } from "mongoose";
+
+/**
+ * Resultado de un intento de login.
+ */
+export const ResultadoLogin = {
+  EXITOSO: "EXITOSO",
+  CREDENCIALES_INVALIDAS: "CREDENCIALES_INVALIDAS",
+  USUARIO_INACTIVO: "USUARIO_INACTIVO",
+  SEGUNDO_FACTOR_INVALIDO: "SEGUNDO_FACTOR_INVALIDO",
+  CUENTA_BLOQUEADA: "CUENTA_BLOQUEADA",
+} as const;
+
+export type ResultadoLogin =
+  (typeof ResultadoLogin)[keyof typeof ResultadoLogin];
+
+// Los intentos se conservan 90 días
+const RETENCION_SEGUNDOS = 90 * 24 * 60 * 60;
+
+/**
+ * Intento de login almacenado en MongoDB.
+ * usuarioId es nulo cuando el email no corresponde a ninguna cuenta.
+ */
+const loginAttemptSchema = new Schema(
+  {
+    email: { type: String, required: true },
+    usuarioId: { type: String, default: null },
+    exito: { type: Boolean, required: true },
+    resultado: {
+      type: String,
+      enum: Object.values(ResultadoLogin),
+      required: true,
+    },
+    ip: { type: String, default: null },
+    userAgent: { type: String, default: null },
+  },
+  {
+    collection: "login_attempts",
+    timestamps: { createdAt: true, updatedAt: false },
+    versionKey: false,
+  },
+);
+
+loginAttemptSchema.index(
+  { createdAt: 1 },
+  { expireAfterSeconds: RETENCION_SEGUNDOS },
+);
+loginAttemptSchema.index({ email: 1, createdAt: -1 });
+loginAttemptSchema.index({ usuarioId: 1, createdAt: -1 });
+loginAttemptSchema.index({ ip: 1, createdAt: -1 });
+
+export type LoginAttempt = InferSchemaType<typeof loginAttemptSchema>;
+
+export const LoginAttemptModel = model("LoginAttempt", loginAttemptSchema);
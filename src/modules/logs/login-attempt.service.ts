@@ -0,0 +1,110 @@
+import { isMongoDBConnected } from "../../config/mongodb.config";
+import { logWarning } from "../../config/logger.config";
+import { LoginAttemptFilters, PaginationParams } from "../../shared/types";
+import { LoginAttemptModel, ResultadoLogin } from "./login-attempt.model";
+
+interface RecordLoginAttemptInput {
+  email: string;
+  usuarioId?: string | null;
+  resultado: ResultadoLogin;
+  ip?: string | null;
+  userAgent?: string | null;
+}
+
+export class LoginAttemptService {
+  /**
+   * Registrar un intento de login.
+   * Nunca lanza errores: el registro no debe interrumpir el login.
+   */
+  async record(input: RecordLoginAttemptInput): Promise<void> {
+    if (!isMongoDBConnected()) {
+      logWarning("MongoDB no disponible, intento de login descartado", {
+        email: input.email,
+        resultado: input.resultado,
+      });
+      return;
+    }
+
+    try {
+      await LoginAttemptModel.create({
+        email: input.email.trim().toLowerCase(),
+        usuarioId: input.usuarioId ?? null,
+        exito: input.resultado === ResultadoLogin.EXITOSO,
+        resultado: input.resultado,
+        ip: input.ip ?? null,
+        userAgent: input.userAgent ?? null,
+      });
+    } catch (error) {
+      logWarning("Error registrando intento de login", {
+        email: input.email,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * Consultar intentos con filtros y paginación (más recientes primero).
+   */
+  async getAttempts(filters: LoginAttemptFilters, pagination: PaginationParams) {
+    const page = pagination.page || 1;
+    const pageSize = Math.min(pagination.pageSize || 10, 100);
+    const skip = (page - 1) * pageSize;
+
+    const where: any = {};
+
+    if (filters.email) {
+      where.email = filters.email.trim().toLowerCase();
+    }
+
+    if (filters.usuarioId) {
+      where.usuarioId = filters.usuarioId;
+    }
+
+    if (filters.ip) {
+      where.ip = filters.ip;
+    }
+
+    if (filters.exito !== undefined) {
+      where.exito = filters.exito;
+    }
+
+    if (filters.resultado) {
+      where.resultado = filters.resultado;
+    }
+
+    if (filters.fechaDesde || filters.fechaHasta) {
+      where.createdAt = {};
+
+      if (filters.fechaDesde) {
+        where.createdAt.$gte = filters.fechaDesde;
+      }
+
+      if (filters.fechaHasta) {
+        where.createdAt.$lte = filters.fechaHasta;
+      }
+    }
+
+    const [intentos, totalItems] = await Promise.all([
+      LoginAttemptModel.find(where)
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(pageSize)
+        .lean(),
+      LoginAttemptModel.countDocuments(where),
+    ]);
+
+    const totalPages = Math.ceil(totalItems / pageSize);
+
+    return {
+      data: intentos,
+      pagination: {
+        page,
+        pageSize,
+        totalItems,
+        totalPages,
+        hasNextPage: page < totalPages,
+        hasPreviousPage: page > 1,
+      },
+    };
+  }
+}
@@ -0,0 +1,105 @@
+import { Rol } from "@prisma/client";
+import { prisma } from "../../config/database.config";
+import { PermissionService } from "./permission.service";
+import { Permiso, PERMISOS_POR_DEFECTO } from "./permissions";
+
+jest.mock("../../config/database.config", () => ({
+  prisma: { rolPermisos: { findMany: jest.fn() } },
+}));
+
+const findMany = prisma.rolPermisos.findMany as jest.Mock;
+
+const filaSistema = (nombre: Rol, permisos: string[]) => ({
+  id: `sistema-${nombre}`,
+  nombre,
+  sistema: true,
+  permisos,
+});
+
+const filaPersonalizada = (id: string, permisos: string[]) => ({
+  id,
+  nombre: `Rol ${id}`,
+  sistema: false,
+  permisos,
+});
+
+describe("PermissionService", () => {
+  const service = new PermissionService();
+
+  beforeEach(() => {
+    service.invalidate();
+    findMany.mockReset().mockResolvedValue([]);
+  });
+
+  describe("getPermisos", () => {
+    it("ADMIN tiene todos los permisos sin consultar la tabla", async () => {
+      const permisos = await service.getPermisos({ rol: Rol.ADMIN });
+
+      expect(permisos).toEqual(Object.values(Permiso));
+      expect(permisos).toContain(Permiso.SLA_MANAGE);
+      expect(findMany).not.toHaveBeenCalled();
+    });
+
+    it("usa la fila del rol del sistema", async () => {
+      findMany.mockResolvedValue([
+        filaSistema(Rol.SUPERVISOR, [Permiso.TICKET_READ, Permiso.SLA_MANAGE]),
+      ]);
+
+      await expect(
+        service.getPermisos({ rol: Rol.SUPERVISOR }),
+      ).resolves.toEqual([Permiso.TICKET_READ, Permiso.SLA_MANAGE]);
+    });
+
+    it("sin fila del rol del sistema aplica los permisos por defecto", async () => {
+      const permisos = await service.getPermisos({ rol: Rol.SUPERVISOR });
+
+      expect(permisos).toEqual(PERMISOS_POR_DEFECTO[Rol.SUPERVISOR]);
+      expect(permisos).toContain(Permiso.SLA_RUN);
+      expect(permisos).not.toContain(Permiso.SLA_MANAGE);
+    });
+
+    it("el rol personalizado reemplaza los permisos del rol base", async () => {
+      findMany.mockResolvedValue([
+        filaSistema(Rol.AGENTE, [Permiso.TICKET_READ, Permiso.TICKET_UPDATE]),
+        filaPersonalizada("auditor", [Permiso.TICKET_HISTORY]),
+      ]);
+
+      await expect(
+        service.getPermisos({ rol: Rol.AGENTE, rolPersonalizadoId: "auditor" }),
+      ).resolves.toEqual([Permiso.TICKET_HISTORY]);
+    });
+
+    it("si el rol personalizado ya no existe aplica el rol base", async () => {
+      findMany.mockResolvedValue([
+        filaSistema(Rol.AGENTE, [Permiso.TICKET_READ]),
+      ]);
+
+      await expect(
+        service.getPermisos({ rol: Rol.AGENTE, rolPersonalizadoId: "borrado" }),
+      ).resolves.toEqual([Permiso.TICKET_READ]);
+    });
+
+    it("cachea la tabla hasta que se invalida", async () => {
+      await service.getPermisos({ rol: Rol.AGENTE });
+      await service.getPermisos({ rol: Rol.SUPERVISOR });
+      expect(findMany).toHaveBeenCalledTimes(1);
+
+      service.invalidate();
+      await service.getPermisos({ rol: Rol.AGENTE });
+      expect(findMany).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("hasPermisos", () => {
+    it("exige todos los permisos indicados", async () => {
+      const supervisor = { rol: Rol.SUPERVISOR };
+
+      await expect(
+        service.hasPermisos(supervisor, [Permiso.SLA_RUN]),
+      ).resolves.toBe(true);
+      await expect(
+        service.hasPermisos(supervisor, [Permiso.SLA_RUN, Permiso.SLA_MANAGE]),
+      ).resolves.toBe(false);
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { prisma } from "../../config/database.config";
+import { Rol } from "@prisma/client";
+import { Permiso, PERMISOS_POR_DEFECTO } from "./permissions";
+
+// La tabla es chica y se consulta en cada petición: se cachea en memoria.
+// Los cambios hechos desde esta instancia la invalidan al instante; en
+// otras instancias se ven al vencer el cache.
+const CACHE_TTL_MS = 30 * 1000;
+
+interface TablaPermisos {
+  porRolPersonalizado: Map<string, string[]>;
+  porRolSistema: Map<string, string[]>;
+  expiraAt: number;
+}
+
+let tabla: TablaPermisos | null = null;
+
+export class PermissionService {
+  /**
+   * Permisos efectivos de un usuario: los de su rol personalizado si
+   * tiene uno, o los de su rol del sistema. ADMIN siempre los tiene todos.
+   */
+  async getPermisos(user: {
+    rol: Rol;
+    rolPersonalizadoId?: string | null;
+  }): Promise<string[]> {
+    if (user.rol === Rol.ADMIN) {
+      return Object.values(Permiso);
+    }
+
+    const { porRolPersonalizado, porRolSistema } = await this.getTabla();
+
+    if (user.rolPersonalizadoId) {
+      const permisos = porRolPersonalizado.get(user.rolPersonalizadoId);
+
+      // Si el rol personalizado ya no existe se aplica el rol base
+      if (permisos) {
+        return permisos;
+      }
+    }
+
+    return porRolSistema.get(user.rol) ?? PERMISOS_POR_DEFECTO[user.rol];
+  }
+
+  /**
+   * Indica si el usuario tiene todos los permisos indicados.
+   */
+  async hasPermisos(
+    user: { rol: Rol; rolPersonalizadoId?: string | null },
+    permisos: Permiso[],
+  ): Promise<boolean> {
+    const concedidos = await this.getPermisos(user);
+    return permisos.every((permiso) => concedidos.includes(permiso));
+  }
+
+  /**
+   * Descartar el cache tras modificar la tabla de roles.
+   */
+  invalidate(): void {
+    tabla = null;
+  }
+
+  private async getTabla(): Promise<TablaPermisos> {
+    if (tabla && tabla.expiraAt > Date.now()) {
+      return tabla;
+    }
+
+    const roles = await prisma.rolPermisos.findMany({
+      select: { id: true, nombre: true, sistema: true, permisos: true },
+    });
+
+    tabla = {
+      porRolPersonalizado: new Map(
+        roles
+          .filter((rol) => !rol.sistema)
+          .map((rol) => [rol.id, rol.permisos]),
+      ),
+      porRolSistema: new Map(
+        roles
+          .filter((rol) => rol.sistema)
+          .map((rol) => [rol.nombre, rol.permisos]),
+      ),
+      expiraAt: Date.now() + CACHE_TTL_MS,
+    };
+
+    return tabla;
+  }
+}
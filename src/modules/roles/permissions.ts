@@ -0,0 +1,72 @@
+import { Rol } from "@prisma/client";
+
+/**
+ * Permisos con nombre que protegen las rutas (ver authorizePermission).
+ * Se asignan a los roles en la tabla roles_permisos.
+ */
+export const Permiso = {
+  TICKET_CREATE: "ticket.create",
+  TICKET_READ: "ticket.read",
+  TICKET_UPDATE: "ticket.update",
+  TICKET_DELETE: "ticket.delete",
+  TICKET_HISTORY: "ticket.history",
+  TICKET_COMMENT: "ticket.comment",
+  TICKET_ATTACH: "ticket.attach",
+  SLA_RUN: "sla.run",
+  SLA_MANAGE: "sla.manage",
+  CLIENT_CREATE: "client.create",
+  CLIENT_READ: "client.read",
+  CLIENT_UPDATE: "client.update",
+  CLIENT_DELETE: "client.delete",
+  USER_REGISTER: "user.register",
+  ROLE_MANAGE: "role.manage",
+} as const;
+
+export type Permiso = (typeof Permiso)[keyof typeof Permiso];
+
+export const DESCRIPCION_PERMISOS: Record<Permiso, string> = {
+  [Permiso.TICKET_CREATE]: "Crear tickets",
+  [Permiso.TICKET_READ]: "Ver tickets, su cola, comentarios y adjuntos",
+  [Permiso.TICKET_UPDATE]: "Actualizar tickets",
+  [Permiso.TICKET_DELETE]: "Eliminar tickets",
+  [Permiso.TICKET_HISTORY]: "Ver el historial de cambios de un ticket",
+  [Permiso.TICKET_COMMENT]: "Comentar tickets y editar o eliminar comentarios",
+  [Permiso.TICKET_ATTACH]: "Subir y eliminar adjuntos",
+  [Permiso.SLA_RUN]: "Ejecutar el escalamiento SLA manualmente",
+  [Permiso.SLA_MANAGE]: "Administrar políticas SLA y calendarios laborales",
+  [Permiso.CLIENT_CREATE]: "Crear clientes",
+  [Permiso.CLIENT_READ]: "Ver clientes",
+  [Permiso.CLIENT_UPDATE]: "Actualizar clientes",
+  [Permiso.CLIENT_DELETE]: "Eliminar clientes",
+  [Permiso.USER_REGISTER]: "Registrar usuarios",
+  [Permiso.ROLE_MANAGE]: "Administrar roles y permisos",
+};
+
+/**
+ * Permisos de los roles del sistema si su fila no existe en la tabla.
+ * Coinciden con los que crea la migración.
+ */
+export const PERMISOS_POR_DEFECTO: Record<Rol, Permiso[]> = {
+  [Rol.ADMIN]: Object.values(Permiso),
+  [Rol.SUPERVISOR]: [
+    Permiso.TICKET_CREATE,
+    Permiso.TICKET_READ,
+    Permiso.TICKET_UPDATE,
+    Permiso.TICKET_DELETE,
+    Permiso.TICKET_HISTORY,
+    Permiso.TICKET_COMMENT,
+    Permiso.TICKET_ATTACH,
+    Permiso.SLA_RUN,
+    Permiso.CLIENT_CREATE,
+    Permiso.CLIENT_READ,
+    Permiso.CLIENT_UPDATE,
+  ],
+  [Rol.AGENTE]: [
+    Permiso.TICKET_CREATE,
+    Permiso.TICKET_READ,
+    Permiso.TICKET_UPDATE,
+    Permiso.TICKET_COMMENT,
+    Permiso.TICKET_ATTACH,
+    Permiso.CLIENT_READ,
+  ],
+};
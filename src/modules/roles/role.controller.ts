@@ -0,0 +1,113 @@
+import { Response } from "express";
+import { AuthRequest } from "../../shared/types";
+import { RoleService } from "./role.service";
+import { logInfo } from "../../config/logger.config";
+
+export class RoleController {
+  private roleService: RoleService;
+
+  constructor() {
+    this.roleService = new RoleService();
+  }
+
+  /**
+   * GET /api/roles
+   * Listar roles con sus permisos.
+   */
+  getRoles = async (req: AuthRequest, res: Response): Promise<void> => {
+    const roles = await this.roleService.getRoles();
+
+    res.json({
+      success: true,
+      data: roles,
+    });
+  };
+
+  /**
+   * GET /api/roles/permissions
+   * Catálogo de permisos disponibles.
+   */
+  getPermissionCatalog = async (
+    req: AuthRequest,
+    res: Response,
+  ): Promise<void> => {
+    res.json({
+      success: true,
+      data: this.roleService.getPermissionCatalog(),
+    });
+  };
+
+  /**
+   * POST /api/roles
+   * Crear un rol personalizado.
+   */
+  createRole = async (req: AuthRequest, res: Response): Promise<void> => {
+    const rol = await this.roleService.createRole(
+      req.body,
+      req.user!.userId,
+      req.user!.rol,
+    );
+
+    logInfo("Rol personalizado creado", {
+      rolId: rol.id,
+      nombre: rol.nombre,
+      adminId: req.user!.userId,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: "Rol creado exitosamente",
+      data: rol,
+    });
+  };
+
+  /**
+   * PUT /api/roles/:id
+   * Actualizar descripción o permisos de un rol.
+   */
+  updateRole = async (req: AuthRequest, res: Response): Promise<void> => {
+    const rolId = Array.isArray(req.params.id)
+      ? req.params.id[0]
+      : req.params.id;
+
+    const rol = await this.roleService.updateRole(
+      rolId,
+      req.body,
+      req.user!.userId,
+      req.user!.rol,
+    );
+
+    logInfo("Permisos de rol actualizados", {
+      rolId,
+      adminId: req.user!.userId,
+    });
+
+    res.json({
+      success: true,
+      message: "Rol actualizado exitosamente",
+      data: rol,
+    });
+  };
+
+  /**
+   * DELETE /api/roles/:id
+   * Eliminar un rol personalizado.
+   */
+  deleteRole = async (req: AuthRequest, res: Response): Promise<void> => {
+    const rolId = Array.isArray(req.params.id)
+      ? req.params.id[0]
+      : req.params.id;
+
+    await this.roleService.deleteRole(rolId, req.user!.userId, req.user!.rol);
+
+    logInfo("Rol personalizado eliminado", {
+      rolId,
+      adminId: req.user!.userId,
+    });
+
+    res.json({
+      success: true,
+      message: "Rol eliminado exitosamente",
+    });
+  };
+}
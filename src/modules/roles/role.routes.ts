@@ -0,0 +1,52 @@
+import { Router } from "express";
+import { RoleController } from "./role.controller";
+import { Permiso } from "./permissions";
+import { asyncHandler } from "../../shared/middleware/errorHandler";
+import {
+  authenticate,
+  authorizePermission,
+} from "../../shared/middleware/auth.middleware";
+import {
+  validateCreateRole,
+  validateUpdateRole,
+} from "../../shared/middleware/validation.middleware";
+
+const router = Router();
+const roleController = new RoleController();
+
+/**
+ * Todas las rutas requieren el permiso role.manage.
+ */
+router.use(authenticate, authorizePermission(Permiso.ROLE_MANAGE));
+
+/**
+ * GET /api/roles
+ * Listar roles con sus permisos y usuarios asignados.
+ */
+router.get("/", asyncHandler(roleController.getRoles));
+
+/**
+ * GET /api/roles/permissions
+ * Catálogo de permisos disponibles.
+ */
+router.get("/permissions", asyncHandler(roleController.getPermissionCatalog));
+
+/**
+ * POST /api/roles
+ * Crear un rol personalizado.
+ */
+router.post("/", validateCreateRole, asyncHandler(roleController.createRole));
+
+/**
+ * PUT /api/roles/:id
+ * Actualizar descripción o permisos de un rol.
+ */
+router.put("/:id", validateUpdateRole, asyncHandler(roleController.updateRole));
+
+/**
+ * DELETE /api/roles/:id
+ * Eliminar un rol personalizado sin usuarios asignados.
+ */
+router.delete("/:id", asyncHandler(roleController.deleteRole));
+
+export { router as roleRoutes };
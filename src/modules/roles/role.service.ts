@@ -0,0 +1,192 @@
+import { prisma } from "../../config/database.config";
+import {
+  CreateRoleDto,
+  UpdateRoleDto,
+  NotFoundError,
+  ConflictError,
+  ValidationError,
+} from "../../shared/types";
+import { Rol } from "@prisma/client";
+import { LogService } from "../logs/log.service";
+import { AccionLog, EntidadLog } from "../logs/log.model";
+import { PermissionService } from "./permission.service";
+import { DESCRIPCION_PERMISOS, Permiso } from "./permissions";
+
+/**
+ * Roles y su tabla de permisos.
+ *
+ * Los roles del sistema (ADMIN, SUPERVISOR, AGENTE) no se crean ni se
+ * eliminan, pero sus permisos se pueden ajustar, salvo los de ADMIN
+ * que siempre los tiene todos. Los roles personalizados se asignan a
+ * usuarios cuyo rol coincide con su rolBase.
+ */
+export class RoleService {
+  private permissionService: PermissionService;
+  private logService: LogService;
+
+  constructor() {
+    this.permissionService = new PermissionService();
+    this.logService = new LogService();
+  }
+
+  /**
+   * Listar roles con sus permisos y la cantidad de usuarios asignados.
+   */
+  async getRoles() {
+    const roles = await prisma.rolPermisos.findMany({
+      include: { _count: { select: { usuarios: true } } },
+      orderBy: [{ sistema: "desc" }, { nombre: "asc" }],
+    });
+
+    return roles.map(({ _count, ...rol }) => ({
+      ...rol,
+      permisos:
+        rol.nombre === Rol.ADMIN ? Object.values(Permiso) : rol.permisos,
+      usuariosAsignados: _count.usuarios,
+    }));
+  }
+
+  /**
+   * Catálogo de permisos disponibles.
+   */
+  getPermissionCatalog() {
+    return Object.values(Permiso).map((permiso) => ({
+      permiso,
+      descripcion: DESCRIPCION_PERMISOS[permiso],
+    }));
+  }
+
+  /**
+   * Crear un rol personalizado.
+   */
+  async createRole(data: CreateRoleDto, adminId: string, adminRol: Rol) {
+    if (data.rolBase === Rol.ADMIN) {
+      throw new ValidationError(
+        "Un rol personalizado no puede tener ADMIN como rol base",
+      );
+    }
+
+    const existente = await prisma.rolPermisos.findUnique({
+      where: { nombre: data.nombre },
+    });
+
+    if (existente) {
+      throw new ConflictError(`Ya existe un rol con el nombre ${data.nombre}`);
+    }
+
+    const rol = await prisma.rolPermisos.create({
+      data: {
+        nombre: data.nombre,
+        descripcion: data.descripcion,
+        rolBase: data.rolBase,
+        permisos: [...new Set(data.permisos)],
+      },
+    });
+
+    this.permissionService.invalidate();
+
+    await this.logService.record({
+      accion: AccionLog.ROL_CREADO,
+      entidad: EntidadLog.ROL,
+      entidadId: rol.id,
+      actorId: adminId,
+      actorRol: adminRol,
+      detalles: {
+        nombre: rol.nombre,
+        rolBase: rol.rolBase,
+        permisos: rol.permisos,
+      },
+    });
+
+    return rol;
+  }
+
+  /**
+   * Actualizar descripción o permisos de un rol.
+   */
+  async updateRole(
+    rolId: string,
+    data: UpdateRoleDto,
+    adminId: string,
+    adminRol: Rol,
+  ) {
+    const rol = await this.findRole(rolId);
+
+    if (rol.nombre === Rol.ADMIN && data.permisos) {
+      throw new ValidationError(
+        "Los permisos del rol ADMIN no se pueden modificar",
+      );
+    }
+
+    const actualizado = await prisma.rolPermisos.update({
+      where: { id: rolId },
+      data: {
+        descripcion: data.descripcion,
+        permisos: data.permisos ? [...new Set(data.permisos)] : undefined,
+      },
+    });
+
+    this.permissionService.invalidate();
+
+    await this.logService.record({
+      accion: AccionLog.ROL_ACTUALIZADO,
+      entidad: EntidadLog.ROL,
+      entidadId: rolId,
+      actorId: adminId,
+      actorRol: adminRol,
+      detalles: {
+        nombre: rol.nombre,
+        permisosAnteriores: rol.permisos,
+        permisosNuevos: actualizado.permisos,
+      },
+    });
+
+    return actualizado;
+  }
+
+  /**
+   * Eliminar un rol personalizado sin usuarios asignados.
+   */
+  async deleteRole(rolId: string, adminId: string, adminRol: Rol) {
+    const rol = await this.findRole(rolId);
+
+    if (rol.sistema) {
+      throw new ValidationError("Los roles del sistema no se pueden eliminar");
+    }
+
+    const usuariosAsignados = await prisma.usuario.count({
+      where: { rolPersonalizadoId: rolId },
+    });
+
+    if (usuariosAsignados > 0) {
+      throw new ConflictError(
+        `No se puede eliminar: el rol tiene ${usuariosAsignados} usuario(s) asignado(s)`,
+      );
+    }
+
+    await prisma.rolPermisos.delete({ where: { id: rolId } });
+
+    this.permissionService.invalidate();
+
+    await this.logService.record({
+      accion: AccionLog.ROL_ELIMINADO,
+      entidad: EntidadLog.ROL,
+      entidadId: rolId,
+      actorId: adminId,
+      actorRol: adminRol,
+      detalles: { nombre: rol.nombre },
+    });
+  }
+
+  private async findRole(rolId: string) {
+    const rol = await prisma.rolPermisos.findUnique({
+      where: { id: rolId },
+    });
+
+    if (!rol) {
+      throw new NotFoundError("Rol no encontrado");
+    }
+
+    return rol;
+  }
+}
@@ -0,0 +1,154 @@
+import { Response } from "express";
+import { AuthRequest } from "../../shared/types";
+import { CalendarService } from "./calendar.service";
+import { logInfo } from "../../config/logger.config";
+
+export class CalendarController {
+  private calendarService: CalendarService;
+
+  constructor() {
+    this.calendarService = new CalendarService();
+  }
+
+  /**
+   * POST /api/sla/calendars
+   * Crear un calendario laboral.
+   */
+  createCalendar = async (req: AuthRequest, res: Response): Promise<void> => {
+    const calendario = await this.calendarService.createCalendar(req.body);
+
+    logInfo("Calendario laboral creado", {
+      calendarioId: calendario.id,
+      nombre: calendario.nombre,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: "Calendario creado exitosamente",
+      data: calendario,
+    });
+  };
+
+  /**
+   * GET /api/sla/calendars
+   * Listar calendarios laborales.
+   */
+  getCalendars = async (_req: AuthRequest, res: Response): Promise<void> => {
+    const calendarios = await this.calendarService.getCalendars();
+
+    res.json({
+      success: true,
+      data: calendarios,
+    });
+  };
+
+  /**
+   * GET /api/sla/calendars/:id
+   * Obtener un calendario por ID.
+   */
+  getCalendarById = async (req: AuthRequest, res: Response): Promise<void> => {
+    const calendarId = Array.isArray(req.params.id)
+      ? req.params.id[0]
+      : req.params.id;
+
+    const calendario = await this.calendarService.getCalendarById(calendarId);
+
+    res.json({
+      success: true,
+      data: calendario,
+    });
+  };
+
+  /**
+   * PUT /api/sla/calendars/:id
+   * Actualizar un calendario laboral.
+   */
+  updateCalendar = async (req: AuthRequest, res: Response): Promise<void> => {
+    const calendarId = Array.isArray(req.params.id)
+      ? req.params.id[0]
+      : req.params.id;
+
+    const calendario = await this.calendarService.updateCalendar(
+      calendarId,
+      req.body,
+    );
+
+    logInfo("Calendario laboral actualizado", { calendarioId: calendarId });
+
+    res.json({
+      success: true,
+      message: "Calendario actualizado exitosamente",
+      data: calendario,
+    });
+  };
+
+  /**
+   * DELETE /api/sla/calendars/:id
+   * Eliminar un calendario laboral.
+   */
+  deleteCalendar = async (req: AuthRequest, res: Response): Promise<void> => {
+    const calendarId = Array.isArray(req.params.id)
+      ? req.params.id[0]
+      : req.params.id;
+
+    await this.calendarService.deleteCalendar(calendarId);
+
+    logInfo("Calendario laboral eliminado", { calendarioId: calendarId });
+
+    res.json({
+      success: true,
+      message: "Calendario eliminado exitosamente",
+    });
+  };
+
+  /**
+   * PUT /api/sla/calendars/:id/clients
+   * Asignar el calendario a clientes.
+   */
+  assignClients = async (req: AuthRequest, res: Response): Promise<void> => {
+    const calendarId = Array.isArray(req.params.id)
+      ? req.params.id[0]
+      : req.params.id;
+
+    const calendario = await this.calendarService.assignClients(
+      calendarId,
+      req.body.clienteIds,
+    );
+
+    logInfo("Calendario asignado a clientes", {
+      calendarioId: calendarId,
+      clienteIds: req.body.clienteIds,
+    });
+
+    res.json({
+      success: true,
+      message: "Calendario asignado exitosamente",
+      data: calendario,
+    });
+  };
+
+  /**
+   * DELETE /api/sla/calendars/:id/clients/:clientId
+   * Quitar el calendario de un cliente.
+   */
+  unassignClient = async (req: AuthRequest, res: Response): Promise<void> => {
+    const calendarId = Array.isArray(req.params.id)
+      ? req.params.id[0]
+      : req.params.id;
+    const clientId = Array.isArray(req.params.clientId)
+      ? req.params.clientId[0]
+      : req.params.clientId;
+
+    await this.calendarService.unassignClient(calendarId, clientId);
+
+    logInfo("Calendario desasignado de cliente", {
+      calendarioId: calendarId,
+      clienteId: clientId,
+    });
+
+    res.json({
+      success: true,
+      message: "Calendario desasignado exitosamente",
+    });
+  };
+}
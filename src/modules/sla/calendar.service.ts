@@ -0,0 +1,199 @@
+import { prisma } from "../../config/database.config";
+import {
+  CreateCalendarDto,
+  UpdateCalendarDto,
+  FeriadoDto,
+  NotFoundError,
+  ConflictError,
+} from "../../shared/types";
+
+/**
+ * Relaciones necesarias para calcular tiempo laborable con un calendario.
+ */
+export const calendarioSLAInclude = {
+  franjas: true,
+  feriados: true,
+} as const;
+
+export class CalendarService {
+  /**
+   * Crear un calendario laboral con su horario semanal y feriados.
+   */
+  async createCalendar(data: CreateCalendarDto) {
+    const existing = await prisma.calendarioLaboral.findUnique({
+      where: { nombre: data.nombre },
+    });
+
+    if (existing) {
+      throw new ConflictError("Ya existe un calendario con ese nombre");
+    }
+
+    const calendario = await prisma.calendarioLaboral.create({
+      data: {
+        nombre: data.nombre,
+        zonaHoraria: data.zonaHoraria,
+        franjas: {
+          create: data.franjas,
+        },
+        feriados: {
+          create: this.mapFeriados(data.feriados ?? []),
+        },
+      },
+      include: calendarioSLAInclude,
+    });
+
+    return calendario;
+  }
+
+  /**
+   * Listar calendarios con la cantidad de clientes asignados.
+   */
+  async getCalendars() {
+    const calendarios = await prisma.calendarioLaboral.findMany({
+      orderBy: { nombre: "asc" },
+      include: {
+        ...calendarioSLAInclude,
+        _count: {
+          select: {
+            clientes: true,
+          },
+        },
+      },
+    });
+
+    return calendarios;
+  }
+
+  /**
+   * Obtener un calendario por ID con sus clientes asignados.
+   */
+  async getCalendarById(calendarId: string) {
+    const calendario = await prisma.calendarioLaboral.findUnique({
+      where: { id: calendarId },
+      include: {
+        ...calendarioSLAInclude,
+        clientes: {
+          select: {
+            id: true,
+            nombre: true,
+            tipo: true,
+          },
+        },
+      },
+    });
+
+    if (!calendario) {
+      throw new NotFoundError("Calendario no encontrado");
+    }
+
+    return calendario;
+  }
+
+  /**
+   * Actualizar un calendario.
+   * Si se envían franjas o feriados, reemplazan por completo a los actuales.
+   */
+  async updateCalendar(calendarId: string, data: UpdateCalendarDto) {
+    const calendario = await prisma.calendarioLaboral.findUnique({
+      where: { id: calendarId },
+    });
+
+    if (!calendario) {
+      throw new NotFoundError("Calendario no encontrado");
+    }
+
+    if (data.nombre && data.nombre !== calendario.nombre) {
+      const existing = await prisma.calendarioLaboral.findUnique({
+        where: { nombre: data.nombre },
+      });
+
+      if (existing) {
+        throw new ConflictError("Ya existe un calendario con ese nombre");
+      }
+    }
+
+    const updatedCalendario = await prisma.calendarioLaboral.update({
+      where: { id: calendarId },
+      data: {
+        nombre: data.nombre,
+        zonaHoraria: data.zonaHoraria,
+        franjas: data.franjas
+          ? { deleteMany: {}, create: data.franjas }
+          : undefined,
+        feriados: data.feriados
+          ? { deleteMany: {}, create: this.mapFeriados(data.feriados) }
+          : undefined,
+      },
+      include: calendarioSLAInclude,
+    });
+
+    return updatedCalendario;
+  }
+
+  /**
+   * Eliminar un calendario.
+   * Los clientes asignados vuelven a medir el SLA en tiempo de reloj
+   * y los agentes que lo usaban como turno quedan sin turno.
+   */
+  async deleteCalendar(calendarId: string) {
+    const calendario = await prisma.calendarioLaboral.findUnique({
+      where: { id: calendarId },
+    });
+
+    if (!calendario) {
+      throw new NotFoundError("Calendario no encontrado");
+    }
+
+    await prisma.calendarioLaboral.delete({
+      where: { id: calendarId },
+    });
+  }
+
+  /**
+   * Asignar el calendario a uno o varios clientes.
+   */
+  async assignClients(calendarId: string, clienteIds: string[]) {
+    await this.getCalendarById(calendarId);
+
+    const clientes = await prisma.cliente.findMany({
+      where: { id: { in: clienteIds } },
+      select: { id: true },
+    });
+
+    if (clientes.length !== new Set(clienteIds).size) {
+      throw new NotFoundError("Uno o más clientes no existen");
+    }
+
+    await prisma.cliente.updateMany({
+      where: { id: { in: clienteIds } },
+      data: { calendarioId: calendarId },
+    });
+
+    return this.getCalendarById(calendarId);
+  }
+
+  /**
+   * Quitar el calendario de un cliente.
+   */
+  async unassignClient(calendarId: string, clienteId: string) {
+    const cliente = await prisma.cliente.findUnique({
+      where: { id: clienteId },
+    });
+
+    if (!cliente || cliente.calendarioId !== calendarId) {
+      throw new NotFoundError("El cliente no tiene asignado este calendario");
+    }
+
+    await prisma.cliente.update({
+      where: { id: clienteId },
+      data: { calendarioId: null },
+    });
+  }
+
+  private mapFeriados(feriados: FeriadoDto[]) {
+    return feriados.map((feriado) => ({
+      fecha: new Date(`${feriado.fecha}T00:00:00.000Z`),
+      descripcion: feriado.descripcion,
+    }));
+  }
+}
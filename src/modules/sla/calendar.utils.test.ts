@@ -0,0 +1,173 @@
+import {
+  CalendarioSLA,
+  estaEnHorarioLaboral,
+  isValidTimeZone,
+  msLaborablesEntre,
+} from "./calendar.utils";
+
+const HORA = 60 * 60 * 1000;
+const MINUTO = 60 * 1000;
+
+// Lunes a viernes de 08:00 a 18:00 (10 horas por día, 50 por semana)
+const franjasOficina = [1, 2, 3, 4, 5].map((diaSemana) => ({
+  diaSemana,
+  horaInicio: "08:00",
+  horaFin: "18:00",
+}));
+
+const bogota: CalendarioSLA = {
+  zonaHoraria: "America/Bogota",
+  franjas: franjasOficina,
+  feriados: [],
+};
+
+const conFeriados = (
+  calendario: CalendarioSLA,
+  ...fechas: string[]
+): CalendarioSLA => ({
+  ...calendario,
+  feriados: fechas.map((fecha) => ({ fecha: new Date(`${fecha}T00:00:00Z`) })),
+});
+
+/**
+ * Referencia lenta: suma minuto a minuto los instantes en horario laboral.
+ */
+const msLaborablesPorMinuto = (
+  desde: Date,
+  hasta: Date,
+  calendario: CalendarioSLA,
+): number => {
+  let total = 0;
+  for (let t = desde.getTime(); t < hasta.getTime(); t += MINUTO) {
+    if (estaEnHorarioLaboral(new Date(t), calendario)) {
+      total += MINUTO;
+    }
+  }
+  return total;
+};
+
+describe("msLaborablesEntre", () => {
+  it("sin calendario retorna el tiempo de reloj", () => {
+    const desde = new Date("2026-10-17T10:00:00Z");
+    const hasta = new Date("2026-10-19T13:30:00Z");
+
+    expect(msLaborablesEntre(desde, hasta)).toBe(51.5 * HORA);
+    expect(msLaborablesEntre(desde, hasta, null)).toBe(51.5 * HORA);
+  });
+
+  it("retorna 0 si el rango está vacío o invertido", () => {
+    const instante = new Date("2026-10-19T15:00:00Z");
+
+    expect(msLaborablesEntre(instante, instante, bogota)).toBe(0);
+    expect(
+      msLaborablesEntre(instante, new Date("2026-10-19T14:00:00Z"), bogota),
+    ).toBe(0);
+  });
+
+  it("cuenta solo la parte del rango dentro de la franja del día", () => {
+    // Lunes 07:00 a 10:30 en Bogotá (UTC-5): solo 08:00-10:30 es laborable
+    const desde = new Date("2026-10-19T12:00:00Z");
+    const hasta = new Date("2026-10-19T15:30:00Z");
+
+    expect(msLaborablesEntre(desde, hasta, bogota)).toBe(2.5 * HORA);
+  });
+
+  it("no cuenta el fin de semana", () => {
+    // Viernes 17:00 a lunes 09:00 hora local
+    const desde = new Date("2026-10-23T22:00:00Z");
+    const hasta = new Date("2026-10-26T14:00:00Z");
+
+    expect(msLaborablesEntre(desde, hasta, bogota)).toBe(2 * HORA);
+  });
+
+  it("descuenta los feriados", () => {
+    // Lunes 08:00 a miércoles 08:00 con el martes feriado
+    const desde = new Date("2026-10-19T13:00:00Z");
+    const hasta = new Date("2026-10-21T13:00:00Z");
+
+    expect(msLaborablesEntre(desde, hasta, bogota)).toBe(20 * HORA);
+    expect(
+      msLaborablesEntre(desde, hasta, conFeriados(bogota, "2026-10-20")),
+    ).toBe(10 * HORA);
+  });
+
+  it("suma las semanas completas y descuenta sus feriados", () => {
+    // Tres semanas exactas, de lunes a lunes a medianoche local
+    const desde = new Date("2026-10-05T05:00:00Z");
+    const hasta = new Date("2026-10-26T05:00:00Z");
+
+    expect(msLaborablesEntre(desde, hasta, bogota)).toBe(150 * HORA);
+    expect(
+      msLaborablesEntre(
+        desde,
+        hasta,
+        conFeriados(bogota, "2026-10-12", "2026-10-18"),
+      ),
+    ).toBe(140 * HORA);
+  });
+
+  it("coincide con el conteo minuto a minuto, también con cambio de horario", () => {
+    const nuevaYork = conFeriados(
+      { ...bogota, zonaHoraria: "America/New_York" },
+      "2026-03-04",
+    );
+
+    // Rangos de más de una semana que cruzan el cambio de horario del 8 de
+    // marzo, con bordes a mitad de franja y fuera de ella
+    const rangos: [string, string][] = [
+      ["2026-02-26T16:17:00Z", "2026-03-17T19:43:00Z"],
+      ["2026-03-01T03:00:00Z", "2026-03-09T12:30:00Z"],
+      ["2026-03-06T21:59:00Z", "2026-03-23T13:01:00Z"],
+    ];
+
+    for (const [desde, hasta] of rangos) {
+      expect(
+        msLaborablesEntre(new Date(desde), new Date(hasta), nuevaYork),
+      ).toBe(
+        msLaborablesPorMinuto(new Date(desde), new Date(hasta), nuevaYork),
+      );
+    }
+  });
+});
+
+describe("estaEnHorarioLaboral", () => {
+  it("usa la hora local de la zona del calendario", () => {
+    // 12:30 UTC del lunes son las 07:30 en Bogotá
+    expect(estaEnHorarioLaboral(new Date("2026-10-19T12:30:00Z"), bogota)).toBe(
+      false,
+    );
+    expect(estaEnHorarioLaboral(new Date("2026-10-19T13:00:00Z"), bogota)).toBe(
+      true,
+    );
+  });
+
+  it("el fin de la franja no es laborable", () => {
+    expect(estaEnHorarioLaboral(new Date("2026-10-19T22:59:00Z"), bogota)).toBe(
+      true,
+    );
+    expect(estaEnHorarioLaboral(new Date("2026-10-19T23:00:00Z"), bogota)).toBe(
+      false,
+    );
+  });
+
+  it("los feriados y fines de semana no son laborables", () => {
+    const instante = new Date("2026-10-20T15:00:00Z");
+
+    expect(estaEnHorarioLaboral(instante, bogota)).toBe(true);
+    expect(
+      estaEnHorarioLaboral(instante, conFeriados(bogota, "2026-10-20")),
+    ).toBe(false);
+    expect(estaEnHorarioLaboral(new Date("2026-10-24T15:00:00Z"), bogota)).toBe(
+      false,
+    );
+  });
+});
+
+describe("isValidTimeZone", () => {
+  it("acepta identificadores IANA y rechaza el resto", () => {
+    expect(isValidTimeZone("America/Bogota")).toBe(true);
+    expect(isValidTimeZone("UTC")).toBe(true);
+    expect(isValidTimeZone("America/Atlantida")).toBe(false);
+    expect(isValidTimeZone("")).toBe(false);
+  });
+});
@@ -0,0 +1,280 @@
+/**
+ * Cálculo de tiempo laborable según un calendario (horario semanal,
+ * zona horaria y feriados). Sin calendario, el tiempo es de reloj (24x7).
+ */
+
+export interface FranjaLaboral {
+  diaSemana: number; // 0 = domingo ... 6 = sábado
+  horaInicio: string; // "HH:mm"
+  horaFin: string; // "HH:mm"
+}
+
+export interface CalendarioSLA {
+  zonaHoraria: string;
+  franjas: FranjaLaboral[];
+  feriados: { fecha: Date }[];
+}
+
+const MS_POR_MINUTO = 60 * 1000;
+const MS_POR_DIA = 24 * 60 * MS_POR_MINUTO;
+
+/**
+ * Verifica que la zona horaria sea un identificador IANA válido.
+ */
+export const isValidTimeZone = (zonaHoraria: string): boolean => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: zonaHoraria });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Crear un Intl.DateTimeFormat es costoso, se reutiliza uno por zona horaria.
+ */
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (zonaHoraria: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(zonaHoraria);
+
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: zonaHoraria,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(zonaHoraria, formatter);
+  }
+
+  return formatter;
+};
+
+/**
+ * Componentes de fecha/hora de un instante en la zona horaria indicada.
+ */
+const getPartesLocales = (instante: Date, zonaHoraria: string) => {
+  const formatter = getFormatter(zonaHoraria);
+
+  const partes: Record<string, number> = {};
+  for (const { type, value } of formatter.formatToParts(instante)) {
+    if (type !== "literal") {
+      partes[type] = Number(value);
+    }
+  }
+
+  return {
+    year: partes.year,
+    month: partes.month,
+    day: partes.day,
+    hour: partes.hour,
+    minute: partes.minute,
+    second: partes.second,
+  };
+};
+
+/**
+ * Diferencia en ms entre la hora local de la zona y UTC para un instante.
+ */
+const getOffsetMs = (instante: Date, zonaHoraria: string): number => {
+  const p = getPartesLocales(instante, zonaHoraria);
+  const comoUtc = Date.UTC(
+    p.year,
+    p.month - 1,
+    p.day,
+    p.hour,
+    p.minute,
+    p.second,
+  );
+  return comoUtc - (instante.getTime() - instante.getMilliseconds());
+};
+
+/**
+ * Convierte una hora local de la zona a un instante UTC.
+ * Se recalcula el offset una vez para cubrir cambios de horario (DST).
+ */
+const localAInstante = (
+  year: number,
+  month: number,
+  day: number,
+  minutosDelDia: number,
+  zonaHoraria: string,
+): number => {
+  const comoUtc = Date.UTC(year, month - 1, day) + minutosDelDia * MS_POR_MINUTO;
+  const primerIntento = comoUtc - getOffsetMs(new Date(comoUtc), zonaHoraria);
+  return comoUtc - getOffsetMs(new Date(primerIntento), zonaHoraria);
+};
+
+const horaAMinutos = (hora: string): number => {
+  const [h, m] = hora.split(":").map(Number);
+  return h * 60 + m;
+};
+
+const formatearFecha = (year: number, month: number, day: number): string =>
+  `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+
+/**
+ * Milisegundos laborables de un día local, dentro del rango [desde, hasta).
+ * dia es la fecha local expresada como medianoche UTC.
+ */
+const msLaborablesDelDia = (
+  dia: number,
+  desde: Date,
+  hasta: Date,
+  calendario: CalendarioSLA,
+  feriados: Set<string>,
+): number => {
+  const fechaDia = new Date(dia);
+  const year = fechaDia.getUTCFullYear();
+  const month = fechaDia.getUTCMonth() + 1;
+  const day = fechaDia.getUTCDate();
+
+  if (feriados.has(formatearFecha(year, month, day))) return 0;
+
+  let total = 0;
+
+  for (const franja of calendario.franjas) {
+    if (franja.diaSemana !== fechaDia.getUTCDay()) continue;
+
+    const inicioFranja = localAInstante(
+      year,
+      month,
+      day,
+      horaAMinutos(franja.horaInicio),
+      calendario.zonaHoraria,
+    );
+    const finFranja = localAInstante(
+      year,
+      month,
+      day,
+      horaAMinutos(franja.horaFin),
+      calendario.zonaHoraria,
+    );
+
+    const desdeEfectivo = Math.max(inicioFranja, desde.getTime());
+    const hastaEfectivo = Math.min(finFranja, hasta.getTime());
+
+    if (hastaEfectivo > desdeEfectivo) {
+      total += hastaEfectivo - desdeEfectivo;
+    }
+  }
+
+  return total;
+};
+
+/**
+ * Duración nominal de las franjas de un día de la semana.
+ */
+const msFranjasDiaSemana = (
+  calendario: CalendarioSLA,
+  diaSemana: number,
+): number =>
+  calendario.franjas
+    .filter((f) => f.diaSemana === diaSemana)
+    .reduce(
+      (total, f) =>
+        total +
+        (horaAMinutos(f.horaFin) - horaAMinutos(f.horaInicio)) * MS_POR_MINUTO,
+      0,
+    );
+
+/**
+ * Milisegundos laborables entre dos instantes según el calendario.
+ * Sin calendario retorna el tiempo de reloj.
+ *
+ * Los días del borde y los que no completan una semana se calculan día
+ * por día; las semanas completas intermedias se suman con la duración
+ * semanal del horario, descontando sus feriados. Así el costo no depende
+ * de la antigüedad del ticket. En esas semanas se usa la duración nominal
+ * de las franjas (no se ajusta una franja que cruce un cambio de horario).
+ */
+export const msLaborablesEntre = (
+  desde: Date,
+  hasta: Date,
+  calendario?: CalendarioSLA | null,
+): number => {
+  if (hasta <= desde) return 0;
+  if (!calendario) return hasta.getTime() - desde.getTime();
+
+  const feriados = new Set(
+    calendario.feriados.map((f) => f.fecha.toISOString().slice(0, 10)),
+  );
+
+  // Días locales representados como medianoche UTC (contador de calendario)
+  const inicio = getPartesLocales(desde, calendario.zonaHoraria);
+  const fin = getPartesLocales(hasta, calendario.zonaHoraria);
+  const primerDia = Date.UTC(inicio.year, inicio.month - 1, inicio.day);
+  const ultimoDia = Date.UTC(fin.year, fin.month - 1, fin.day);
+
+  const msDelDia = (dia: number) =>
+    msLaborablesDelDia(dia, desde, hasta, calendario, feriados);
+
+  let total = msDelDia(primerDia);
+
+  if (ultimoDia === primerDia) return total;
+
+  total += msDelDia(ultimoDia);
+
+  // Los días intermedios quedan completos dentro del rango
+  const diasIntermedios = (ultimoDia - primerDia) / MS_POR_DIA - 1;
+  const semanas = Math.floor(diasIntermedios / 7);
+  const inicioSemanas = primerDia + MS_POR_DIA;
+  const finSemanas = inicioSemanas + semanas * 7 * MS_POR_DIA;
+
+  if (semanas > 0) {
+    let msSemana = 0;
+    for (let diaSemana = 0; diaSemana < 7; diaSemana++) {
+      msSemana += msFranjasDiaSemana(calendario, diaSemana);
+    }
+
+    total += semanas * msSemana;
+
+    for (const feriado of feriados) {
+      const dia = Date.parse(feriado);
+      if (dia >= inicioSemanas && dia < finSemanas) {
+        total -= msFranjasDiaSemana(calendario, new Date(dia).getUTCDay());
+      }
+    }
+  }
+
+  for (let dia = finSemanas; dia < ultimoDia; dia += MS_POR_DIA) {
+    total += msDelDia(dia);
+  }
+
+  return total;
+};
+
+/**
+ * Indica si un instante cae dentro del horario del calendario
+ * (franja del día local y fuera de feriados).
+ */
+export const estaEnHorarioLaboral = (
+  instante: Date,
+  calendario: CalendarioSLA,
+): boolean => {
+  const p = getPartesLocales(instante, calendario.zonaHoraria);
+  const fecha = formatearFecha(p.year, p.month, p.day);
+
+  const esFeriado = calendario.feriados.some(
+    (f) => f.fecha.toISOString().slice(0, 10) === fecha,
+  );
+
+  if (esFeriado) {
+    return false;
+  }
+
+  const diaSemana = new Date(Date.UTC(p.year, p.month - 1, p.day)).getUTCDay();
+  const minutos = p.hour * 60 + p.minute;
+
+  return calendario.franjas.some(
+    (f) =>
+      f.diaSemana === diaSemana &&
+      minutos >= horaAMinutos(f.horaInicio) &&
+      minutos < horaAMinutos(f.horaFin),
+  );
+};
@@ -0,0 +1,122 @@
+import { Response } from "express";
+import { AuthRequest } from "../../shared/types";
+import { SlaPolicyService } from "./sla-policy.service";
+import { logInfo } from "../../config/logger.config";
+
+export class SlaPolicyController {
+  private slaPolicyService: SlaPolicyService;
+
+  constructor() {
+    this.slaPolicyService = new SlaPolicyService();
+  }
+
+  /**
+   * POST /api/sla/policies
+   * Crear una política SLA.
+   */
+  createPolicy = async (req: AuthRequest, res: Response): Promise<void> => {
+    const politica = await this.slaPolicyService.createPolicy(
+      req.body,
+      req.user!.userId,
+      req.user!.rol,
+    );
+
+    logInfo("Política SLA creada", {
+      politicaId: politica.id,
+      nombre: politica.nombre,
+      userId: req.user!.userId,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: "Política SLA creada exitosamente",
+      data: politica,
+    });
+  };
+
+  /**
+   * GET /api/sla/policies
+   * Listar políticas SLA, opcionalmente solo las de un cliente.
+   */
+  getPolicies = async (req: AuthRequest, res: Response): Promise<void> => {
+    const politicas = await this.slaPolicyService.getPolicies(
+      req.query.clienteId as string | undefined,
+    );
+
+    res.json({
+      success: true,
+      data: politicas,
+    });
+  };
+
+  /**
+   * GET /api/sla/policies/:id
+   * Obtener una política SLA por ID.
+   */
+  getPolicyById = async (req: AuthRequest, res: Response): Promise<void> => {
+    const policyId = Array.isArray(req.params.id)
+      ? req.params.id[0]
+      : req.params.id;
+
+    const politica = await this.slaPolicyService.getPolicyById(policyId);
+
+    res.json({
+      success: true,
+      data: politica,
+    });
+  };
+
+  /**
+   * PUT /api/sla/policies/:id
+   * Actualizar una política SLA.
+   */
+  updatePolicy = async (req: AuthRequest, res: Response): Promise<void> => {
+    const policyId = Array.isArray(req.params.id)
+      ? req.params.id[0]
+      : req.params.id;
+
+    const politica = await this.slaPolicyService.updatePolicy(
+      policyId,
+      req.body,
+      req.user!.userId,
+      req.user!.rol,
+    );
+
+    logInfo("Política SLA actualizada", {
+      politicaId: policyId,
+      userId: req.user!.userId,
+    });
+
+    res.json({
+      success: true,
+      message: "Política SLA actualizada exitosamente",
+      data: politica,
+    });
+  };
+
+  /**
+   * DELETE /api/sla/policies/:id
+   * Eliminar una política SLA.
+   */
+  deletePolicy = async (req: AuthRequest, res: Response): Promise<void> => {
+    const policyId = Array.isArray(req.params.id)
+      ? req.params.id[0]
+      : req.params.id;
+
+    await this.slaPolicyService.deletePolicy(
+      policyId,
+      req.user!.userId,
+      req.user!.rol,
+    );
+
+    logInfo("Política SLA eliminada", {
+      politicaId: policyId,
+      userId: req.user!.userId,
+    });
+
+    res.json({
+      success: true,
+      message: "Política SLA eliminada exitosamente",
+    });
+  };
+}
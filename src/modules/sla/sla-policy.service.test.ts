@@ -0,0 +1,114 @@
+import { PoliticaSla, Prioridad, TipoCliente } from "@prisma/client";
+import { config } from "../../config/env.config";
+import { CriteriosSla, SlaPolicyService } from "./sla-policy.service";
+
+const criterios: CriteriosSla = {
+  clienteId: "cliente-acme",
+  tipoCliente: TipoCliente.VIP,
+  prioridad: Prioridad.ALTA,
+};
+
+const politica = (
+  id: string,
+  filtros: Partial<
+    Pick<PoliticaSla, "clienteId" | "tipoCliente" | "prioridad">
+  > = {},
+): PoliticaSla => ({
+  id,
+  nombre: `Política ${id}`,
+  activo: true,
+  clienteId: null,
+  tipoCliente: null,
+  prioridad: null,
+  horasNivel1: 1,
+  horasNivel2: 2,
+  minutosPrimeraRespuesta: 15,
+  horasResolucion: 8,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...filtros,
+});
+
+describe("SlaPolicyService.resolverObjetivos", () => {
+  const service = new SlaPolicyService();
+  const elegida = (politicas: PoliticaSla[], datos = criterios) =>
+    service.resolverObjetivos(politicas, datos).politicaId;
+
+  it("gana la política más específica: cliente > prioridad > tipo", () => {
+    const general = politica("general");
+    const tipo = politica("tipo", { tipoCliente: TipoCliente.VIP });
+    const prioridad = politica("prioridad", { prioridad: Prioridad.ALTA });
+    const prioridadYTipo = politica("prioridad-tipo", {
+      prioridad: Prioridad.ALTA,
+      tipoCliente: TipoCliente.VIP,
+    });
+    const cliente = politica("cliente", { clienteId: "cliente-acme" });
+
+    expect(elegida([general, tipo])).toBe("tipo");
+    expect(elegida([tipo, prioridad])).toBe("prioridad");
+    expect(elegida([prioridad, prioridadYTipo])).toBe("prioridad-tipo");
+    expect(elegida([prioridadYTipo, cliente])).toBe("cliente");
+  });
+
+  it("el orden de las políticas no cambia el resultado", () => {
+    const politicas = [
+      politica("tipo", { tipoCliente: TipoCliente.VIP }),
+      politica("cliente-prioridad", {
+        clienteId: "cliente-acme",
+        prioridad: Prioridad.ALTA,
+      }),
+      politica("cliente", { clienteId: "cliente-acme" }),
+    ];
+
+    expect(elegida(politicas)).toBe("cliente-prioridad");
+    expect(elegida([...politicas].reverse())).toBe("cliente-prioridad");
+  });
+
+  it("ignora las políticas con algún criterio que no coincide", () => {
+    const politicas = [
+      politica("otro-cliente", { clienteId: "cliente-otro" }),
+      politica("cliente-baja", {
+        clienteId: "cliente-acme",
+        prioridad: Prioridad.BAJA,
+      }),
+      politica("normal", { tipoCliente: TipoCliente.NORMAL }),
+      politica("general"),
+    ];
+
+    expect(elegida(politicas)).toBe("general");
+  });
+
+  it("retorna los objetivos de la política elegida", () => {
+    expect(service.resolverObjetivos([politica("general")], criterios)).toEqual(
+      {
+        politicaId: "general",
+        horasNivel1: 1,
+        horasNivel2: 2,
+        minutosPrimeraRespuesta: 15,
+        horasResolucion: 8,
+      },
+    );
+  });
+
+  it("sin coincidencias usa la configuración según el tipo de cliente", () => {
+    expect(service.resolverObjetivos([], criterios)).toEqual({
+      politicaId: null,
+      horasNivel1: config.slaVipHours,
+      horasNivel2: config.slaVipNivel2Hours,
+      minutosPrimeraRespuesta: config.slaVipFirstResponseMinutes,
+      horasResolucion: config.slaVipResolutionHours,
+    });
+    expect(
+      service.resolverObjetivos([], {
+        ...criterios,
+        tipoCliente: TipoCliente.NORMAL,
+      }),
+    ).toEqual({
+      politicaId: null,
+      horasNivel1: config.slaNormalHours,
+      horasNivel2: config.slaNormalNivel2Hours,
+      minutosPrimeraRespuesta: config.slaNormalFirstResponseMinutes,
+      horasResolucion: config.slaNormalResolutionHours,
+    });
+  });
+});
@@ -0,0 +1,343 @@
+import { prisma } from "../../config/database.config";
+import { config } from "../../config/env.config";
+import {
+  CreateSlaPolicyDto,
+  UpdateSlaPolicyDto,
+  NotFoundError,
+  ConflictError,
+  ValidationError,
+} from "../../shared/types";
+import { PoliticaSla, Prioridad, Rol, TipoCliente } from "@prisma/client";
+import { LogService } from "../logs/log.service";
+import { AccionLog, EntidadLog } from "../logs/log.model";
+
+/**
+ * Datos del ticket que determinan qué política SLA aplica.
+ */
+export interface CriteriosSla {
+  clienteId: string;
+  tipoCliente: TipoCliente;
+  prioridad: Prioridad;
+}
+
+/**
+ * Objetivos SLA resueltos para un ticket.
+ * politicaId es null cuando no aplica ninguna política y se usan
+ * los valores por defecto de la configuración.
+ */
+export interface ObjetivosSla {
+  politicaId: string | null;
+  horasNivel1: number;
+  horasNivel2: number;
+  minutosPrimeraRespuesta: number;
+  horasResolucion: number;
+}
+
+const clienteSelect = {
+  select: {
+    id: true,
+    nombre: true,
+    tipo: true,
+  },
+} as const;
+
+export class SlaPolicyService {
+  private logService: LogService;
+
+  constructor() {
+    this.logService = new LogService();
+  }
+
+  /**
+   * Crear una política SLA.
+   */
+  async createPolicy(data: CreateSlaPolicyDto, adminId: string, adminRol: Rol) {
+    await this.validateCriterios(data, null);
+
+    const politica = await prisma.politicaSla.create({
+      data: {
+        nombre: data.nombre,
+        activo: data.activo ?? true,
+        tipoCliente: data.tipoCliente ?? null,
+        prioridad: data.prioridad ?? null,
+        clienteId: data.clienteId ?? null,
+        horasNivel1: data.horasNivel1,
+        horasNivel2: data.horasNivel2,
+        minutosPrimeraRespuesta: data.minutosPrimeraRespuesta,
+        horasResolucion: data.horasResolucion,
+      },
+      include: {
+        cliente: clienteSelect,
+      },
+    });
+
+    await this.logService.record({
+      accion: AccionLog.POLITICA_SLA_CREADA,
+      entidad: EntidadLog.POLITICA_SLA,
+      entidadId: politica.id,
+      actorId: adminId,
+      actorRol: adminRol,
+      detalles: this.detallesPolitica(politica),
+    });
+
+    return politica;
+  }
+
+  /**
+   * Listar políticas SLA. Las de cliente primero, luego las generales.
+   */
+  async getPolicies(clienteId?: string) {
+    const politicas = await prisma.politicaSla.findMany({
+      where: clienteId ? { clienteId } : undefined,
+      include: {
+        cliente: clienteSelect,
+      },
+      orderBy: [{ clienteId: { sort: "asc", nulls: "last" } }, { nombre: "asc" }],
+    });
+
+    return politicas;
+  }
+
+  /**
+   * Obtener una política SLA por ID.
+   */
+  async getPolicyById(policyId: string) {
+    const politica = await prisma.politicaSla.findUnique({
+      where: { id: policyId },
+      include: {
+        cliente: clienteSelect,
+      },
+    });
+
+    if (!politica) {
+      throw new NotFoundError("Política SLA no encontrada");
+    }
+
+    return politica;
+  }
+
+  /**
+   * Actualizar una política SLA.
+   * Enviar null en un criterio lo elimina (aplica a cualquier valor).
+   */
+  async updatePolicy(
+    policyId: string,
+    data: UpdateSlaPolicyDto,
+    adminId: string,
+    adminRol: Rol,
+  ) {
+    const politica = await this.getPolicyById(policyId);
+
+    await this.validateCriterios(
+      {
+        nombre: data.nombre ?? politica.nombre,
+        tipoCliente:
+          data.tipoCliente !== undefined
+            ? data.tipoCliente
+            : politica.tipoCliente,
+        prioridad:
+          data.prioridad !== undefined ? data.prioridad : politica.prioridad,
+        clienteId:
+          data.clienteId !== undefined ? data.clienteId : politica.clienteId,
+      },
+      policyId,
+    );
+
+    const updatedPolitica = await prisma.politicaSla.update({
+      where: { id: policyId },
+      data: {
+        nombre: data.nombre,
+        activo: data.activo,
+        tipoCliente: data.tipoCliente,
+        prioridad: data.prioridad,
+        clienteId: data.clienteId,
+        horasNivel1: data.horasNivel1,
+        horasNivel2: data.horasNivel2,
+        minutosPrimeraRespuesta: data.minutosPrimeraRespuesta,
+        horasResolucion: data.horasResolucion,
+      },
+      include: {
+        cliente: clienteSelect,
+      },
+    });
+
+    await this.logService.record({
+      accion: AccionLog.POLITICA_SLA_ACTUALIZADA,
+      entidad: EntidadLog.POLITICA_SLA,
+      entidadId: policyId,
+      actorId: adminId,
+      actorRol: adminRol,
+      detalles: {
+        anterior: this.detallesPolitica(politica),
+        nuevo: this.detallesPolitica(updatedPolitica),
+      },
+    });
+
+    return updatedPolitica;
+  }
+
+  /**
+   * Eliminar una política SLA.
+   * Los tickets afectados pasan a la siguiente política que coincida.
+   */
+  async deletePolicy(policyId: string, adminId: string, adminRol: Rol) {
+    const politica = await this.getPolicyById(policyId);
+
+    await prisma.politicaSla.delete({
+      where: { id: policyId },
+    });
+
+    await this.logService.record({
+      accion: AccionLog.POLITICA_SLA_ELIMINADA,
+      entidad: EntidadLog.POLITICA_SLA,
+      entidadId: policyId,
+      actorId: adminId,
+      actorRol: adminRol,
+      detalles: this.detallesPolitica(politica),
+    });
+  }
+
+  /**
+   * Políticas activas, para resolver los objetivos de varios tickets
+   * con una sola consulta.
+   */
+  async getPoliticasActivas(): Promise<PoliticaSla[]> {
+    return prisma.politicaSla.findMany({
+      where: { activo: true },
+    });
+  }
+
+  /**
+   * Objetivos SLA de un ticket según las políticas activas.
+   *
+   * Una política aplica si todos sus criterios no nulos coinciden.
+   * Gana la más específica: cliente > prioridad > tipo de cliente.
+   * Sin coincidencias se usan los valores de la configuración.
+   */
+  resolverObjetivos(
+    politicas: PoliticaSla[],
+    criterios: CriteriosSla,
+  ): ObjetivosSla {
+    let elegida: PoliticaSla | null = null;
+    let mejorPuntaje = -1;
+
+    for (const politica of politicas) {
+      if (
+        (politica.clienteId && politica.clienteId !== criterios.clienteId) ||
+        (politica.tipoCliente &&
+          politica.tipoCliente !== criterios.tipoCliente) ||
+        (politica.prioridad && politica.prioridad !== criterios.prioridad)
+      ) {
+        continue;
+      }
+
+      const puntaje =
+        (politica.clienteId ? 4 : 0) +
+        (politica.prioridad ? 2 : 0) +
+        (politica.tipoCliente ? 1 : 0);
+
+      if (puntaje > mejorPuntaje) {
+        elegida = politica;
+        mejorPuntaje = puntaje;
+      }
+    }
+
+    if (elegida) {
+      return {
+        politicaId: elegida.id,
+        horasNivel1: elegida.horasNivel1,
+        horasNivel2: elegida.horasNivel2,
+        minutosPrimeraRespuesta: elegida.minutosPrimeraRespuesta,
+        horasResolucion: elegida.horasResolucion,
+      };
+    }
+
+    const esVip = criterios.tipoCliente === TipoCliente.VIP;
+
+    return {
+      politicaId: null,
+      horasNivel1: esVip ? config.slaVipHours : config.slaNormalHours,
+      horasNivel2: esVip
+        ? config.slaVipNivel2Hours
+        : config.slaNormalNivel2Hours,
+      minutosPrimeraRespuesta: esVip
+        ? config.slaVipFirstResponseMinutes
+        : config.slaNormalFirstResponseMinutes,
+      horasResolucion: esVip
+        ? config.slaVipResolutionHours
+        : config.slaNormalResolutionHours,
+    };
+  }
+
+  /**
+   * Valida nombre único, cliente existente y que no haya otra política
+   * con exactamente los mismos criterios (sería ambigua).
+   */
+  private async validateCriterios(
+    data: Pick<
+      CreateSlaPolicyDto,
+      "nombre" | "tipoCliente" | "prioridad" | "clienteId"
+    >,
+    policyId: string | null,
+  ) {
+    const tipoCliente = data.tipoCliente ?? null;
+    const prioridad = data.prioridad ?? null;
+    const clienteId = data.clienteId ?? null;
+
+    if (clienteId && tipoCliente) {
+      throw new ValidationError(
+        "Una política de cliente no puede restringir además el tipo de cliente",
+      );
+    }
+
+    if (clienteId) {
+      const cliente = await prisma.cliente.findUnique({
+        where: { id: clienteId },
+      });
+
+      if (!cliente) {
+        throw new NotFoundError("Cliente no encontrado");
+      }
+    }
+
+    const existingNombre = await prisma.politicaSla.findUnique({
+      where: { nombre: data.nombre },
+    });
+
+    if (existingNombre && existingNombre.id !== policyId) {
+      throw new ConflictError("Ya existe una política SLA con ese nombre");
+    }
+
+    const duplicada = await prisma.politicaSla.findFirst({
+      where: {
+        tipoCliente,
+        prioridad,
+        clienteId,
+        id: policyId ? { not: policyId } : undefined,
+      },
+    });
+
+    if (duplicada) {
+      throw new ConflictError(
+        `La política "${duplicada.nombre}" ya tiene los mismos criterios`,
+      );
+    }
+  }
+
+  /**
+   * Criterios y objetivos de la política para el log de actividad.
+   */
+  private detallesPolitica(politica: PoliticaSla) {
+    return {
+      nombre: politica.nombre,
+      activo: politica.activo,
+      tipoCliente: politica.tipoCliente,
+      prioridad: politica.prioridad,
+      clienteId: politica.clienteId,
+      horasNivel1: politica.horasNivel1,
+      horasNivel2: politica.horasNivel2,
+      minutosPrimeraRespuesta: politica.minutosPrimeraRespuesta,
+      horasResolucion: politica.horasResolucion,
+    };
+  }
+}
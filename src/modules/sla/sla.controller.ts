@@ -0,0 +1,46 @@
+import { Response } from "express";
+import { AuthRequest } from "../../shared/types";
+import { SlaService } from "./sla.service";
+import { logInfo } from "../../config/logger.config";
+
+export class SlaController {
+  private slaService: SlaService;
+
+  constructor() {
+    this.slaService = new SlaService();
+  }
+
+  /**
+   * GET /api/sla/runs
+   * Últimas ejecuciones del escalamiento SLA.
+   */
+  getRuns = async (req: AuthRequest, res: Response): Promise<void> => {
+    const limit = req.query.limit ? Number(req.query.limit) : 20;
+
+    const runs = await this.slaService.getRuns(limit);
+
+    res.json({
+      success: true,
+      data: runs,
+    });
+  };
+
+  /**
+   * POST /api/sla/runs
+   * Encolar una ejecución inmediata del escalamiento SLA.
+   */
+  triggerRun = async (req: AuthRequest, res: Response): Promise<void> => {
+    const run = await this.slaService.triggerRun(req.user!.userId);
+
+    logInfo("Escalamiento SLA encolado manualmente", {
+      jobId: run.id,
+      userId: req.user!.userId,
+    });
+
+    res.status(202).json({
+      success: true,
+      message: "Escalamiento encolado",
+      data: run,
+    });
+  };
+}
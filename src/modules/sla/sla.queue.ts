@@ -0,0 +1,89 @@
+import Queue from "bull";
+import { config } from "../../config/env.config";
+import { createQueue } from "../../config/queue.config";
+import { logInfo, logError } from "../../config/logger.config";
+
+export const SLA_QUEUE_NAME = "sla-escalation";
+
+/**
+ * Identificador fijo del job repetible, evita duplicados entre réplicas.
+ */
+const SLA_REPEAT_JOB_ID = "sla-escalation-repeat";
+
+/**
+ * Cantidad de ejecuciones completadas y fallidas que se conservan como historial.
+ */
+export const SLA_JOB_HISTORY_LIMIT = 50;
+
+export type OrigenEjecucionSla = "PROGRAMADO" | "MANUAL";
+
+export interface SlaJobData {
+  origen: OrigenEjecucionSla;
+  solicitadoPor: string | null;
+}
+
+let slaQueue: Queue.Queue<SlaJobData> | null = null;
+
+/**
+ * Obtiene la cola de escalamiento SLA.
+ * Se crea de forma diferida para no abrir conexiones antes de connectRedis().
+ */
+export const getSlaQueue = (): Queue.Queue<SlaJobData> => {
+  if (!slaQueue) {
+    slaQueue = createQueue<SlaJobData>(SLA_QUEUE_NAME);
+    slaQueue.on("failed", (job, error) => {
+      logError(error, { jobId: job.id, queue: SLA_QUEUE_NAME });
+    });
+  }
+
+  return slaQueue;
+};
+
+/**
+ * Registra el procesador de la cola y programa el job repetible.
+ * Bull garantiza que cada repetición se encola una sola vez aunque
+ * varias réplicas de la API llamen a esta función.
+ * El registro es idempotente: con el mismo intervalo la programación
+ * existente se conserva, y solo se quitan las de otra configuración
+ * (después de registrar la vigente, para no dejar un hueco sin job).
+ */
+export const startSlaScheduler = async (
+  processor: (job: Queue.Job<SlaJobData>) => Promise<unknown>,
+): Promise<void> => {
+  const queue = getSlaQueue();
+
+  queue.process(config.queueConcurrency, processor);
+
+  const every = config.slaEscalationIntervalMinutes * 60 * 1000;
+
+  if (every > 0) {
+    await queue.add(
+      { origen: "PROGRAMADO", solicitadoPor: null },
+      {
+        jobId: SLA_REPEAT_JOB_ID,
+        repeat: { every },
+        removeOnComplete: SLA_JOB_HISTORY_LIMIT,
+        removeOnFail: SLA_JOB_HISTORY_LIMIT,
+      },
+    );
+  }
+
+  const repeatableJobs = await queue.getRepeatableJobs();
+  const desactualizados = repeatableJobs.filter(
+    (job) => every <= 0 || job.id !== SLA_REPEAT_JOB_ID || job.every !== every,
+  );
+
+  await Promise.all(
+    desactualizados.map((job) => queue.removeRepeatableByKey(job.key)),
+  );
+
+  if (every <= 0) {
+    logInfo("Escalamiento SLA programado desactivado");
+    return;
+  }
+
+  logInfo("Escalamiento SLA programado", {
+    intervaloMinutos: config.slaEscalationIntervalMinutes,
+    programacionesQuitadas: desactualizados.length,
+  });
+};
@@ -0,0 +1,176 @@
+import { Router } from "express";
+import { SlaController } from "./sla.controller";
+import { CalendarController } from "./calendar.controller";
+import { SlaPolicyController } from "./sla-policy.controller";
+import { asyncHandler } from "../../shared/middleware/errorHandler";
+import { Permiso } from "../roles/permissions";
+import {
+  authenticate,
+  authorizePermission,
+} from "../../shared/middleware/auth.middleware";
+import {
+  validateRunsLimit,
+  validateCreateCalendar,
+  validateUpdateCalendar,
+  validateAssignCalendarClients,
+  validateCreateSlaPolicy,
+  validateUpdateSlaPolicy,
+} from "../../shared/middleware/validation.middleware";
+
+const router = Router();
+const slaController = new SlaController();
+const calendarController = new CalendarController();
+const slaPolicyController = new SlaPolicyController();
+
+/**
+ * Todas las rutas requieren autenticación.
+ */
+router.use(authenticate);
+
+/**
+ * GET /api/sla/runs
+ * Historial de ejecuciones del escalamiento (permiso sla.run).
+ */
+router.get(
+  "/runs",
+  authorizePermission(Permiso.SLA_RUN),
+  validateRunsLimit,
+  asyncHandler(slaController.getRuns),
+);
+
+/**
+ * POST /api/sla/runs
+ * Disparar una ejecución del escalamiento (permiso sla.run).
+ */
+router.post(
+  "/runs",
+  authorizePermission(Permiso.SLA_RUN),
+  asyncHandler(slaController.triggerRun),
+);
+
+/**
+ * GET /api/sla/policies
+ * Listar políticas SLA (permiso sla.manage).
+ */
+router.get(
+  "/policies",
+  authorizePermission(Permiso.SLA_MANAGE),
+  asyncHandler(slaPolicyController.getPolicies),
+);
+
+/**
+ * POST /api/sla/policies
+ * Crear política SLA (permiso sla.manage).
+ */
+router.post(
+  "/policies",
+  authorizePermission(Permiso.SLA_MANAGE),
+  validateCreateSlaPolicy,
+  asyncHandler(slaPolicyController.createPolicy),
+);
+
+/**
+ * GET /api/sla/policies/:id
+ * Obtener política SLA (permiso sla.manage).
+ */
+router.get(
+  "/policies/:id",
+  authorizePermission(Permiso.SLA_MANAGE),
+  asyncHandler(slaPolicyController.getPolicyById),
+);
+
+/**
+ * PUT /api/sla/policies/:id
+ * Actualizar política SLA (permiso sla.manage).
+ */
+router.put(
+  "/policies/:id",
+  authorizePermission(Permiso.SLA_MANAGE),
+  validateUpdateSlaPolicy,
+  asyncHandler(slaPolicyController.updatePolicy),
+);
+
+/**
+ * DELETE /api/sla/policies/:id
+ * Eliminar política SLA (permiso sla.manage).
+ */
+router.delete(
+  "/policies/:id",
+  authorizePermission(Permiso.SLA_MANAGE),
+  asyncHandler(slaPolicyController.deletePolicy),
+);
+
+/**
+ * GET /api/sla/calendars
+ * Listar calendarios laborales (permiso sla.manage).
+ */
+router.get(
+  "/calendars",
+  authorizePermission(Permiso.SLA_MANAGE),
+  asyncHandler(calendarController.getCalendars),
+);
+
+/**
+ * POST /api/sla/calendars
+ * Crear calendario laboral (permiso sla.manage).
+ */
+router.post(
+  "/calendars",
+  authorizePermission(Permiso.SLA_MANAGE),
+  validateCreateCalendar,
+  asyncHandler(calendarController.createCalendar),
+);
+
+/**
+ * GET /api/sla/calendars/:id
+ * Obtener calendario laboral (permiso sla.manage).
+ */
+router.get(
+  "/calendars/:id",
+  authorizePermission(Permiso.SLA_MANAGE),
+  asyncHandler(calendarController.getCalendarById),
+);
+
+/**
+ * PUT /api/sla/calendars/:id
+ * Actualizar calendario laboral (permiso sla.manage).
+ */
+router.put(
+  "/calendars/:id",
+  authorizePermission(Permiso.SLA_MANAGE),
+  validateUpdateCalendar,
+  asyncHandler(calendarController.updateCalendar),
+);
+
+/**
+ * DELETE /api/sla/calendars/:id
+ * Eliminar calendario laboral (permiso sla.manage).
+ */
+router.delete(
+  "/calendars/:id",
+  authorizePermission(Permiso.SLA_MANAGE),
+  asyncHandler(calendarController.deleteCalendar),
+);
+
+/**
+ * PUT /api/sla/calendars/:id/clients
+ * Asignar el calendario a clientes (permiso sla.manage).
+ */
+router.put(
+  "/calendars/:id/clients",
+  authorizePermission(Permiso.SLA_MANAGE),
+  validateAssignCalendarClients,
+  asyncHandler(calendarController.assignClients),
+);
+
+/**
+ * DELETE /api/sla/calendars/:id/clients/:clientId
+ * Quitar el calendario de un cliente (permiso sla.manage).
+ */
+router.delete(
+  "/calendars/:id/clients/:clientId",
+  authorizePermission(Permiso.SLA_MANAGE),
+  asyncHandler(calendarController.unassignClient),
+);
+
+export { router as slaRoutes };
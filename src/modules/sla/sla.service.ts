@@ -0,0 +1,128 @@
+import Queue from "bull";
+import { withRedisLock } from "../../config/queue.config";
+import { logInfo } from "../../config/logger.config";
+import { ConflictError } from "../../shared/types";
+import { TicketService } from "../tickets/ticket.service";
+import {
+  getSlaQueue,
+  startSlaScheduler,
+  SlaJobData,
+  OrigenEjecucionSla,
+  SLA_JOB_HISTORY_LIMIT,
+} from "./sla.queue";
+
+/**
+ * Lock compartido por todas las réplicas: solo una ejecuta el escalamiento a la vez.
+ */
+const SLA_LOCK_KEY = "techsupport:lock:sla-escalation";
+const SLA_LOCK_TTL_MS = 10 * 60 * 1000;
+
+export class SlaService {
+  private ticketService: TicketService;
+
+  constructor() {
+    this.ticketService = new TicketService();
+  }
+
+  /**
+   * Inicia el worker de escalamiento y programa su ejecución periódica.
+   */
+  async startScheduler(): Promise<void> {
+    await startSlaScheduler((job) => this.processJob(job));
+  }
+
+  /**
+   * Ejecutar el escalamiento protegido por el lock distribuido.
+   * Lanza ConflictError si otra instancia ya está escalando.
+   */
+  async runEscalation() {
+    const result = await this.escalarConLock();
+
+    if (!result) {
+      throw new ConflictError("Ya hay un escalamiento SLA en ejecución");
+    }
+
+    return result;
+  }
+
+  /**
+   * Encolar una ejecución inmediata del escalamiento.
+   */
+  async triggerRun(userId: string) {
+    const job = await getSlaQueue().add(
+      { origen: "MANUAL", solicitadoPor: userId },
+      {
+        removeOnComplete: SLA_JOB_HISTORY_LIMIT,
+        removeOnFail: SLA_JOB_HISTORY_LIMIT,
+      },
+    );
+
+    return this.mapJob(job, "waiting");
+  }
+
+  /**
+   * Últimas ejecuciones (completadas, fallidas y en curso), más recientes primero.
+   */
+  async getRuns(limit: number = 20) {
+    const queue = getSlaQueue();
+
+    const [active, waiting, completed, failed] = await Promise.all([
+      queue.getActive(),
+      queue.getWaiting(),
+      queue.getCompleted(0, limit - 1),
+      queue.getFailed(0, limit - 1),
+    ]);
+
+    return [
+      ...active.map((job) => this.mapJob(job, "active")),
+      ...waiting.map((job) => this.mapJob(job, "waiting")),
+      ...completed.map((job) => this.mapJob(job, "completed")),
+      ...failed.map((job) => this.mapJob(job, "failed")),
+    ]
+      .sort((a, b) => b.creado.getTime() - a.creado.getTime())
+      .slice(0, limit);
+  }
+
+  /**
+   * Procesador de la cola.
+   * Si el lock está tomado la ejecución se omite en lugar de fallar.
+   */
+  private async processJob(job: Queue.Job<SlaJobData>) {
+    logInfo("Ejecutando escalamiento SLA", {
+      jobId: job.id,
+      origen: job.data.origen,
+    });
+
+    const result = await this.escalarConLock();
+
+    return (
+      result ?? {
+        omitido: true,
+        motivo: "Ya hay un escalamiento SLA en ejecución",
+      }
+    );
+  }
+
+  /**
+   * Retorna null si otra instancia tiene el lock.
+   */
+  private escalarConLock() {
+    return withRedisLock(SLA_LOCK_KEY, SLA_LOCK_TTL_MS, () =>
+      this.ticketService.escalarTicketsPorSLA(),
+    );
+  }
+
+  private mapJob(job: Queue.Job<SlaJobData>, estado: string) {
+    return {
+      id: job.id,
+      origen: job.data.origen as OrigenEjecucionSla,
+      solicitadoPor: job.data.solicitadoPor,
+      estado,
+      creado: new Date(job.timestamp),
+      iniciado: job.processedOn ? new Date(job.processedOn) : null,
+      finalizado: job.finishedOn ? new Date(job.finishedOn) : null,
+      resultado: job.returnvalue ?? null,
+      error: job.failedReason ?? null,
+    };
+  }
+}
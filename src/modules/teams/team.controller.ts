@@ -0,0 +1,159 @@
+import { Response } from "express";
+import { AuthRequest } from "../../shared/types";
+import { TeamService } from "./team.service";
+import { logInfo } from "../../config/logger.config";
+
+export class TeamController {
+  private teamService: TeamService;
+
+  constructor() {
+    this.teamService = new TeamService();
+  }
+
+  /**
+   * POST /api/teams
+   * Crear un equipo.
+   */
+  createTeam = async (req: AuthRequest, res: Response): Promise<void> => {
+    const equipo = await this.teamService.createTeam(req.body);
+
+    logInfo("Equipo creado", {
+      equipoId: equipo.id,
+      nombre: equipo.nombre,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: "Equipo creado exitosamente",
+      data: equipo,
+    });
+  };
+
+  /**
+   * GET /api/teams
+   * Listar equipos.
+   */
+  getTeams = async (_req: AuthRequest, res: Response): Promise<void> => {
+    const equipos = await this.teamService.getTeams();
+
+    res.json({
+      success: true,
+      data: equipos,
+    });
+  };
+
+  /**
+   * GET /api/teams/:id
+   * Obtener un equipo con sus miembros y supervisores.
+   */
+  getTeamById = async (req: AuthRequest, res: Response): Promise<void> => {
+    const teamId = Array.isArray(req.params.id)
+      ? req.params.id[0]
+      : req.params.id;
+
+    const equipo = await this.teamService.getTeamById(teamId);
+
+    res.json({
+      success: true,
+      data: equipo,
+    });
+  };
+
+  /**
+   * PUT /api/teams/:id
+   * Actualizar un equipo.
+   */
+  updateTeam = async (req: AuthRequest, res: Response): Promise<void> => {
+    const teamId = Array.isArray(req.params.id)
+      ? req.params.id[0]
+      : req.params.id;
+
+    const equipo = await this.teamService.updateTeam(teamId, req.body);
+
+    logInfo("Equipo actualizado", { equipoId: teamId });
+
+    res.json({
+      success: true,
+      message: "Equipo actualizado exitosamente",
+      data: equipo,
+    });
+  };
+
+  /**
+   * DELETE /api/teams/:id
+   * Eliminar un equipo.
+   */
+  deleteTeam = async (req: AuthRequest, res: Response): Promise<void> => {
+    const teamId = Array.isArray(req.params.id)
+      ? req.params.id[0]
+      : req.params.id;
+
+    await this.teamService.deleteTeam(teamId);
+
+    logInfo("Equipo eliminado", { equipoId: teamId });
+
+    res.json({
+      success: true,
+      message: "Equipo eliminado exitosamente",
+    });
+  };
+
+  /**
+   * PUT /api/teams/:id/agents
+   * Reemplazar los miembros del equipo.
+   */
+  setTeamAgents = async (req: AuthRequest, res: Response): Promise<void> => {
+    const teamId = Array.isArray(req.params.id)
+      ? req.params.id[0]
+      : req.params.id;
+
+    const equipo = await this.teamService.setTeamAgents(
+      teamId,
+      req.body.agenteIds,
+      req.user!.userId,
+      req.user!.rol,
+    );
+
+    logInfo("Miembros de equipo actualizados", {
+      equipoId: teamId,
+      agenteIds: req.body.agenteIds,
+      userId: req.user!.userId,
+    });
+
+    res.json({
+      success: true,
+      message: "Miembros del equipo actualizados exitosamente",
+      data: equipo,
+    });
+  };
+
+  /**
+   * PUT /api/teams/:id/supervisors
+   * Reemplazar los supervisores del equipo.
+   */
+  setTeamSupervisors = async (
+    req: AuthRequest,
+    res: Response,
+  ): Promise<void> => {
+    const teamId = Array.isArray(req.params.id)
+      ? req.params.id[0]
+      : req.params.id;
+
+    const equipo = await this.teamService.setTeamSupervisors(
+      teamId,
+      req.body.supervisorIds,
+    );
+
+    logInfo("Supervisores de equipo actualizados", {
+      equipoId: teamId,
+      supervisorIds: req.body.supervisorIds,
+      userId: req.user!.userId,
+    });
+
+    res.json({
+      success: true,
+      message: "Supervisores del equipo actualizados exitosamente",
+      data: equipo,
+    });
+  };
+}
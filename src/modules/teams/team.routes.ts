@@ -0,0 +1,90 @@
+import { Router } from "express";
+import { TeamController } from "./team.controller";
+import { asyncHandler } from "../../shared/middleware/errorHandler";
+import {
+  authenticate,
+  authorize,
+} from "../../shared/middleware/auth.middleware";
+import {
+  validateCreateTeam,
+  validateUpdateTeam,
+  validateSetTeamAgents,
+  validateSetTeamSupervisors,
+} from "../../shared/middleware/validation.middleware";
+import { Rol } from "@prisma/client";
+
+const router = Router();
+const teamController = new TeamController();
+
+/**
+ * Todas las rutas requieren autenticación.
+ */
+router.use(authenticate);
+
+/**
+ * GET /api/teams
+ * Listar equipos (todos los roles).
+ */
+router.get("/", asyncHandler(teamController.getTeams));
+
+/**
+ * POST /api/teams
+ * Crear equipo (solo ADMIN).
+ */
+router.post(
+  "/",
+  authorize(Rol.ADMIN),
+  validateCreateTeam,
+  asyncHandler(teamController.createTeam),
+);
+
+/**
+ * GET /api/teams/:id
+ * Obtener equipo con miembros y supervisores.
+ */
+router.get("/:id", asyncHandler(teamController.getTeamById));
+
+/**
+ * PUT /api/teams/:id
+ * Actualizar equipo (solo ADMIN).
+ */
+router.put(
+  "/:id",
+  authorize(Rol.ADMIN),
+  validateUpdateTeam,
+  asyncHandler(teamController.updateTeam),
+);
+
+/**
+ * DELETE /api/teams/:id
+ * Eliminar equipo (solo ADMIN).
+ */
+router.delete(
+  "/:id",
+  authorize(Rol.ADMIN),
+  asyncHandler(teamController.deleteTeam),
+);
+
+/**
+ * PUT /api/teams/:id/agents
+ * Reemplazar miembros (ADMIN, o SUPERVISOR del equipo).
+ */
+router.put(
+  "/:id/agents",
+  authorize(Rol.ADMIN, Rol.SUPERVISOR),
+  validateSetTeamAgents,
+  asyncHandler(teamController.setTeamAgents),
+);
+
+/**
+ * PUT /api/teams/:id/supervisors
+ * Reemplazar supervisores (solo ADMIN).
+ */
+router.put(
+  "/:id/supervisors",
+  authorize(Rol.ADMIN),
+  validateSetTeamSupervisors,
+  asyncHandler(teamController.setTeamSupervisors),
+);
+
+export { router as teamRoutes };
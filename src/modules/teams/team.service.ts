@@ -0,0 +1,234 @@
+import { prisma } from "../../config/database.config";
+import {
+  CreateTeamDto,
+  UpdateTeamDto,
+  NotFoundError,
+  ConflictError,
+  ForbiddenError,
+  ValidationError,
+} from "../../shared/types";
+import { Rol } from "@prisma/client";
+
+const agenteResumenSelect = {
+  id: true,
+  nombre: true,
+  email: true,
+  nivel: true,
+  activo: true,
+  disponibilidad: true,
+} as const;
+
+const supervisorResumenSelect = {
+  id: true,
+  nombre: true,
+  email: true,
+} as const;
+
+export class TeamService {
+  /**
+   * Crear un equipo.
+   */
+  async createTeam(data: CreateTeamDto) {
+    const existing = await prisma.equipo.findUnique({
+      where: { nombre: data.nombre },
+    });
+
+    if (existing) {
+      throw new ConflictError("Ya existe un equipo con ese nombre");
+    }
+
+    const equipo = await prisma.equipo.create({
+      data: {
+        nombre: data.nombre,
+        descripcion: data.descripcion,
+      },
+    });
+
+    return equipo;
+  }
+
+  /**
+   * Listar equipos con sus supervisores y cantidad de miembros.
+   */
+  async getTeams() {
+    const equipos = await prisma.equipo.findMany({
+      orderBy: { nombre: "asc" },
+      include: {
+        supervisores: { select: supervisorResumenSelect },
+        _count: {
+          select: {
+            agentes: true,
+          },
+        },
+      },
+    });
+
+    return equipos;
+  }
+
+  /**
+   * Obtener un equipo con sus miembros y supervisores.
+   */
+  async getTeamById(teamId: string) {
+    const equipo = await prisma.equipo.findUnique({
+      where: { id: teamId },
+      include: {
+        agentes: { select: agenteResumenSelect },
+        supervisores: { select: supervisorResumenSelect },
+      },
+    });
+
+    if (!equipo) {
+      throw new NotFoundError("Equipo no encontrado");
+    }
+
+    return equipo;
+  }
+
+  /**
+   * Actualizar un equipo.
+   */
+  async updateTeam(teamId: string, data: UpdateTeamDto) {
+    const equipo = await prisma.equipo.findUnique({
+      where: { id: teamId },
+    });
+
+    if (!equipo) {
+      throw new NotFoundError("Equipo no encontrado");
+    }
+
+    if (data.nombre && data.nombre !== equipo.nombre) {
+      const existing = await prisma.equipo.findUnique({
+        where: { nombre: data.nombre },
+      });
+
+      if (existing) {
+        throw new ConflictError("Ya existe un equipo con ese nombre");
+      }
+    }
+
+    const updatedEquipo = await prisma.equipo.update({
+      where: { id: teamId },
+      data: {
+        nombre: data.nombre,
+        descripcion: data.descripcion,
+      },
+    });
+
+    return updatedEquipo;
+  }
+
+  /**
+   * Eliminar un equipo.
+   * Los tickets de su cola quedan sin equipo (solo visibles para ADMIN
+   * y su agente asignado).
+   */
+  async deleteTeam(teamId: string) {
+    const equipo = await prisma.equipo.findUnique({
+      where: { id: teamId },
+    });
+
+    if (!equipo) {
+      throw new NotFoundError("Equipo no encontrado");
+    }
+
+    await prisma.equipo.delete({
+      where: { id: teamId },
+    });
+  }
+
+  /**
+   * Reemplazar los miembros de un equipo.
+   * Un supervisor solo puede modificar los equipos que gestiona.
+   */
+  async setTeamAgents(
+    teamId: string,
+    agenteIds: string[],
+    userId: string,
+    userRol: Rol,
+  ) {
+    const equipo = await prisma.equipo.findUnique({
+      where: { id: teamId },
+      include: { supervisores: { select: { id: true } } },
+    });
+
+    if (!equipo) {
+      throw new NotFoundError("Equipo no encontrado");
+    }
+
+    if (
+      userRol === Rol.SUPERVISOR &&
+      !equipo.supervisores.some((s) => s.id === userId)
+    ) {
+      throw new ForbiddenError(
+        "Solo puedes modificar los equipos que gestionas",
+      );
+    }
+
+    const unicos = new Set(agenteIds);
+    const total = await prisma.agente.count({
+      where: { id: { in: [...unicos] } },
+    });
+
+    if (total !== unicos.size) {
+      throw new NotFoundError("Uno o más agentes no existen");
+    }
+
+    const updatedEquipo = await prisma.equipo.update({
+      where: { id: teamId },
+      data: {
+        agentes: {
+          set: [...unicos].map((id) => ({ id })),
+        },
+      },
+      include: {
+        agentes: { select: agenteResumenSelect },
+      },
+    });
+
+    return updatedEquipo;
+  }
+
+  /**
+   * Reemplazar los supervisores de un equipo.
+   * Solo se aceptan usuarios activos con rol SUPERVISOR.
+   */
+  async setTeamSupervisors(teamId: string, supervisorIds: string[]) {
+    const equipo = await prisma.equipo.findUnique({
+      where: { id: teamId },
+    });
+
+    if (!equipo) {
+      throw new NotFoundError("Equipo no encontrado");
+    }
+
+    const unicos = new Set(supervisorIds);
+    const total = await prisma.usuario.count({
+      where: {
+        id: { in: [...unicos] },
+        rol: Rol.SUPERVISOR,
+        activo: true,
+      },
+    });
+
+    if (total !== unicos.size) {
+      throw new ValidationError(
+        "Todos los usuarios deben existir, estar activos y tener rol SUPERVISOR",
+      );
+    }
+
+    const updatedEquipo = await prisma.equipo.update({
+      where: { id: teamId },
+      data: {
+        supervisores: {
+          set: [...unicos].map((id) => ({ id })),
+        },
+      },
+      include: {
+        supervisores: { select: supervisorResumenSelect },
+      },
+    });
+
+    return updatedEquipo;
+  }
+}
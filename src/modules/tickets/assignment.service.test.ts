@@ -0,0 +1,42 @@
+import { NivelEscalamiento } from "@prisma/client";
+import { habilidadesFaltantes, puedeAtenderNivel } from "./assignment.service";
+
+describe("puedeAtenderNivel", () => {
+  it("un agente atiende tickets de su nivel y de los inferiores", () => {
+    expect(
+      puedeAtenderNivel(NivelEscalamiento.NIVEL_2, NivelEscalamiento.NIVEL_2),
+    ).toBe(true);
+    expect(
+      puedeAtenderNivel(NivelEscalamiento.NIVEL_3, NivelEscalamiento.NIVEL_1),
+    ).toBe(true);
+  });
+
+  it("un agente no atiende tickets de un nivel superior", () => {
+    expect(
+      puedeAtenderNivel(NivelEscalamiento.NIVEL_1, NivelEscalamiento.NIVEL_2),
+    ).toBe(false);
+    expect(
+      puedeAtenderNivel(NivelEscalamiento.NIVEL_2, NivelEscalamiento.NIVEL_3),
+    ).toBe(false);
+  });
+});
+
+describe("habilidadesFaltantes", () => {
+  const agente = [{ id: "redes" }, { id: "sap" }];
+
+  it("retorna las habilidades requeridas que el agente no posee", () => {
+    expect(habilidadesFaltantes(agente, ["sap", "linux", "windows"])).toEqual([
+      "linux",
+      "windows",
+    ]);
+  });
+
+  it("retorna vacío si el agente las tiene todas o no se requiere ninguna", () => {
+    expect(habilidadesFaltantes(agente, ["redes", "sap"])).toEqual([]);
+    expect(habilidadesFaltantes(agente, [])).toEqual([]);
+  });
+
+  it("un agente sin habilidades no cumple ninguna", () => {
+    expect(habilidadesFaltantes([], ["redes"])).toEqual(["redes"]);
+  });
+});
@@ -0,0 +1,256 @@
+import { prisma } from "../../config/database.config";
+import { redisClient } from "../../config/redis.config";
+import { config, EstrategiaAsignacion } from "../../config/env.config";
+import { logError } from "../../config/logger.config";
+import {
+  disponibilidadInclude,
+  evaluarDisponibilidad,
+} from "../agents/availability.utils";
+import {
+  Agente,
+  EstadoTicket,
+  NivelEscalamiento,
+  Prisma,
+} from "@prisma/client";
+
+/**
+ * Resultado de la asignación automática.
+ * motivo queda registrado en el historial del ticket.
+ */
+export interface AsignacionAutomatica {
+  agenteId: string;
+  estrategia: EstrategiaAsignacion;
+  motivo: string;
+}
+
+/**
+ * Niveles de menor a mayor: un agente puede atender tickets de su nivel
+ * o de niveles inferiores.
+ */
+const NIVELES: NivelEscalamiento[] = [
+  NivelEscalamiento.NIVEL_1,
+  NivelEscalamiento.NIVEL_2,
+  NivelEscalamiento.NIVEL_3,
+];
+
+/**
+ * Estados que cuentan como carga de trabajo del agente.
+ */
+export const ESTADOS_ABIERTOS: EstadoTicket[] = [
+  EstadoTicket.ABIERTO,
+  EstadoTicket.EN_PROGRESO,
+  EstadoTicket.EN_ESPERA,
+  EstadoTicket.ESCALADO,
+];
+
+const ROUND_ROBIN_KEY_PREFIX = "techsupport:assignment:rr:";
+
+export const puedeAtenderNivel = (
+  nivelAgente: NivelEscalamiento,
+  nivelTicket: NivelEscalamiento,
+): boolean => NIVELES.indexOf(nivelAgente) >= NIVELES.indexOf(nivelTicket);
+
+/**
+ * Habilidades requeridas que el agente no posee.
+ */
+export const habilidadesFaltantes = (
+  habilidadesAgente: { id: string }[],
+  habilidadIds: string[],
+): string[] => {
+  const propias = new Set(habilidadesAgente.map((h) => h.id));
+  return habilidadIds.filter((id) => !propias.has(id));
+};
+
+export class AssignmentService {
+  /**
+   * Elegir un agente disponible para un ticket del nivel indicado.
+   * Se omiten agentes ausentes, ocupados o fuera de su turno.
+   *
+   * Se prefieren agentes del mismo nivel; si no hay, se usa el
+   * siguiente nivel superior con agentes activos. Si el ticket requiere
+   * habilidades, primero se buscan agentes que las tengan todas; en modo
+   * OBLIGATORIA no se considera a nadie más.
+   * Si el ticket está en la cola de un equipo, solo se consideran sus miembros.
+   * Retorna null si está desactivada o no hay candidatos. Un error
+   * nunca impide crear o escalar el ticket: queda sin asignar.
+   */
+  async elegirAgente(
+    nivel: NivelEscalamiento,
+    habilidadIds: string[] = [],
+    equipoId: string | null = null,
+  ): Promise<AsignacionAutomatica | null> {
+    if (!config.autoAssignmentEnabled) {
+      return null;
+    }
+
+    try {
+      const equipo: Prisma.AgenteWhereInput = equipoId
+        ? { equipos: { some: { id: equipoId } } }
+        : {};
+      let candidatos: Agente[] = [];
+      let detalle = "";
+
+      if (habilidadIds.length > 0) {
+        candidatos = await this.getCandidatos(nivel, {
+          ...equipo,
+          AND: habilidadIds.map((id) => ({ habilidades: { some: { id } } })),
+        });
+        detalle = " con las habilidades requeridas";
+
+        if (
+          candidatos.length === 0 &&
+          config.skillMatching === "PREFERIDA"
+        ) {
+          candidatos = await this.getCandidatos(nivel, equipo);
+          detalle = " (ninguno tiene las habilidades requeridas)";
+        }
+      } else {
+        candidatos = await this.getCandidatos(nivel, equipo);
+      }
+
+      if (candidatos.length === 0) {
+        return null;
+      }
+
+      let asignacion: AsignacionAutomatica;
+      switch (config.assignmentStrategy) {
+        case "ROUND_ROBIN":
+          asignacion = await this.elegirRoundRobin(candidatos, equipoId);
+          break;
+        case "PONDERADA":
+          asignacion = await this.elegirPonderado(candidatos);
+          break;
+        default:
+          asignacion = await this.elegirMenorCarga(candidatos);
+      }
+
+      const delEquipo = equipoId ? " del equipo" : "";
+      return { ...asignacion, motivo: asignacion.motivo + delEquipo + detalle };
+    } catch (error) {
+      logError(error as Error, { contexto: "asignacion-automatica", nivel });
+      return null;
+    }
+  }
+
+  /**
+   * Agentes disponibles del primer nivel que tenga alguno, desde el pedido
+   * hacia arriba. Orden estable para que el round-robin sea predecible.
+   */
+  private async getCandidatos(
+    nivel: NivelEscalamiento,
+    filtro: Prisma.AgenteWhereInput = {},
+  ): Promise<Agente[]> {
+    const now = new Date();
+
+    for (const candidato of NIVELES.slice(NIVELES.indexOf(nivel))) {
+      const agentes = await prisma.agente.findMany({
+        where: { ...filtro, nivel: candidato, activo: true },
+        include: disponibilidadInclude(now),
+        orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+      });
+
+      // El turno depende de la zona horaria, se evalúa en memoria
+      const disponibles = agentes.filter(
+        (agente) => evaluarDisponibilidad(agente, now).disponible,
+      );
+
+      if (disponibles.length > 0) {
+        return disponibles;
+      }
+    }
+
+    return [];
+  }
+
+  /**
+   * Turnos rotativos por nivel (y por equipo, si aplica). El contador vive
+   * en Redis para que todas las réplicas compartan la rotación.
+   */
+  private async elegirRoundRobin(
+    candidatos: Agente[],
+    equipoId: string | null,
+  ): Promise<AsignacionAutomatica> {
+    const nivel = candidatos[0].nivel;
+    const clave = equipoId ? `${equipoId}:${nivel}` : nivel;
+    const turno = await redisClient.incr(`${ROUND_ROBIN_KEY_PREFIX}${clave}`);
+    const indice = (turno - 1) % candidatos.length;
+    const agente = candidatos[indice];
+
+    return {
+      agenteId: agente.id,
+      estrategia: "ROUND_ROBIN",
+      motivo: `Round-robin: turno ${indice + 1} de ${candidatos.length} agentes de ${nivel}`,
+    };
+  }
+
+  /**
+   * Agente con menos tickets abiertos. En empate, el de mayor antigüedad.
+   */
+  private async elegirMenorCarga(
+    candidatos: Agente[],
+  ): Promise<AsignacionAutomatica> {
+    const cargas = await this.getCargas(candidatos);
+
+    let agente = candidatos[0];
+    for (const candidato of candidatos) {
+      if (cargas.get(candidato.id)! < cargas.get(agente.id)!) {
+        agente = candidato;
+      }
+    }
+
+    return {
+      agenteId: agente.id,
+      estrategia: "MENOR_CARGA",
+      motivo: `Menor carga: ${cargas.get(agente.id)} tickets abiertos entre ${candidatos.length} agentes de ${agente.nivel}`,
+    };
+  }
+
+  /**
+   * Carga relativa al peso del agente: (abiertos + 1) / peso.
+   * Un agente con peso 2 recibe aproximadamente el doble de tickets.
+   */
+  private async elegirPonderado(
+    candidatos: Agente[],
+  ): Promise<AsignacionAutomatica> {
+    const cargas = await this.getCargas(candidatos);
+    const cargaRelativa = (a: Agente) =>
+      (cargas.get(a.id)! + 1) / Math.max(a.peso, 1);
+
+    let agente = candidatos[0];
+    for (const candidato of candidatos) {
+      if (cargaRelativa(candidato) < cargaRelativa(agente)) {
+        agente = candidato;
+      }
+    }
+
+    return {
+      agenteId: agente.id,
+      estrategia: "PONDERADA",
+      motivo: `Ponderada: ${cargas.get(agente.id)} tickets abiertos con peso ${agente.peso} (carga relativa ${cargaRelativa(agente).toFixed(2)}) entre ${candidatos.length} agentes de ${agente.nivel}`,
+    };
+  }
+
+  /**
+   * Cantidad de tickets abiertos por agente.
+   */
+  private async getCargas(candidatos: Agente[]): Promise<Map<string, number>> {
+    const conteos = await prisma.ticket.groupBy({
+      by: ["agenteAsignadoId"],
+      where: {
+        agenteAsignadoId: { in: candidatos.map((agente) => agente.id) },
+        estado: { in: ESTADOS_ABIERTOS },
+        deletedAt: null,
+      },
+      _count: { _all: true },
+    });
+
+    const cargas = new Map(candidatos.map((agente) => [agente.id, 0]));
+    for (const conteo of conteos) {
+      if (conteo.agenteAsignadoId) {
+        cargas.set(conteo.agenteAsignadoId, conteo._count._all);
+      }
+    }
+
+    return cargas;
+  }
+}
@@ -0,0 +1,131 @@
+import { Response } from "express";
+import { AuthRequest } from "../../shared/types";
+import { AttachmentService } from "./attachment.service";
+import { logInfo } from "../../config/logger.config";
+
+export class AttachmentController {
+  private attachmentService: AttachmentService;
+
+  constructor() {
+    this.attachmentService = new AttachmentService();
+  }
+
+  /**
+   * POST /api/tickets/:id/attachments
+   * POST /api/tickets/:id/comments/:commentId/attachments
+   * Subir un archivo (multipart/form-data, campo "archivo").
+   */
+  uploadAttachment = async (req: AuthRequest, res: Response): Promise<void> => {
+    const ticketId = Array.isArray(req.params.id)
+      ? req.params.id[0]
+      : req.params.id;
+    const commentId = Array.isArray(req.params.commentId)
+      ? req.params.commentId[0]
+      : req.params.commentId;
+
+    const adjunto = await this.attachmentService.createAttachment(
+      ticketId,
+      commentId,
+      req.file,
+      req.user!.userId,
+      req.user!.rol,
+    );
+
+    logInfo("Adjunto subido", {
+      ticketId,
+      comentarioId: adjunto.comentarioId,
+      adjuntoId: adjunto.id,
+      mimeType: adjunto.mimeType,
+      tamano: adjunto.tamano,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: "Archivo adjuntado exitosamente",
+      data: adjunto,
+    });
+  };
+
+  /**
+   * GET /api/tickets/:id/attachments
+   * GET /api/tickets/:id/comments/:commentId/attachments
+   * Listar adjuntos del ticket o de un comentario.
+   */
+  getAttachments = async (req: AuthRequest, res: Response): Promise<void> => {
+    const ticketId = Array.isArray(req.params.id)
+      ? req.params.id[0]
+      : req.params.id;
+    const commentId = Array.isArray(req.params.commentId)
+      ? req.params.commentId[0]
+      : req.params.commentId;
+
+    const adjuntos = await this.attachmentService.getAttachments(
+      ticketId,
+      commentId,
+      req.user!.userId,
+      req.user!.rol,
+    );
+
+    res.json({
+      success: true,
+      data: adjuntos,
+    });
+  };
+
+  /**
+   * GET /api/tickets/:id/attachments/:attachmentId/download
+   * Descargar un adjunto con su nombre original
+   * (Content-Disposition: attachment).
+   */
+  downloadAttachment = async (
+    req: AuthRequest,
+    res: Response,
+  ): Promise<void> => {
+    const ticketId = Array.isArray(req.params.id)
+      ? req.params.id[0]
+      : req.params.id;
+    const attachmentId = Array.isArray(req.params.attachmentId)
+      ? req.params.attachmentId[0]
+      : req.params.attachmentId;
+
+    const { adjunto, filePath } =
+      await this.attachmentService.getAttachmentFile(
+        ticketId,
+        attachmentId,
+        req.user!.userId,
+        req.user!.rol,
+      );
+
+    // Siempre como descarga: el navegador no debe interpretar el archivo
+    res.setHeader("Content-Type", adjunto.mimeType);
+    res.setHeader("X-Content-Type-Options", "nosniff");
+    res.download(filePath, adjunto.nombreOriginal);
+  };
+
+  /**
+   * DELETE /api/tickets/:id/attachments/:attachmentId
+   * Eliminar un adjunto.
+   */
+  deleteAttachment = async (req: AuthRequest, res: Response): Promise<void> => {
+    const ticketId = Array.isArray(req.params.id)
+      ? req.params.id[0]
+      : req.params.id;
+    const attachmentId = Array.isArray(req.params.attachmentId)
+      ? req.params.attachmentId[0]
+      : req.params.attachmentId;
+
+    await this.attachmentService.deleteAttachment(
+      ticketId,
+      attachmentId,
+      req.user!.userId,
+      req.user!.rol,
+    );
+
+    logInfo("Adjunto eliminado", { ticketId, adjuntoId: attachmentId });
+
+    res.json({
+      success: true,
+      message: "Adjunto eliminado exitosamente",
+    });
+  };
+}
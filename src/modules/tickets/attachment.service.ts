@@ -0,0 +1,245 @@
+import fs from "fs/promises";
+import path from "path";
+import { prisma } from "../../config/database.config";
+import { logWarning } from "../../config/logger.config";
+import {
+  uploadDirectory,
+  verificarContenidoAdjunto,
+} from "../../shared/middleware/upload.middleware";
+import {
+  NotFoundError,
+  ForbiddenError,
+  ValidationError,
+} from "../../shared/types";
+import { Rol } from "@prisma/client";
+import { TicketService } from "./ticket.service";
+import { LogService } from "../logs/log.service";
+import { AccionLog, EntidadLog } from "../logs/log.model";
+
+/**
+ * Datos del usuario que subió el archivo.
+ */
+const subidoPorSelect = {
+  select: {
+    id: true,
+    nombre: true,
+    email: true,
+  },
+};
+
+export class AttachmentService {
+  private ticketService: TicketService;
+  private logService: LogService;
+
+  constructor() {
+    this.ticketService = new TicketService();
+    this.logService = new LogService();
+  }
+
+  /**
+   * Registrar un archivo ya guardado en disco como adjunto del ticket
+   * (o de uno de sus comentarios).
+   * Si el contenido no corresponde al tipo declarado o el usuario no
+   * tiene acceso, el archivo se elimina del disco.
+   */
+  async createAttachment(
+    ticketId: string,
+    comentarioId: string | undefined,
+    file: Express.Multer.File | undefined,
+    userId: string,
+    userRol: Rol,
+  ) {
+    if (!file) {
+      throw new ValidationError("Se requiere un archivo en el campo 'archivo'");
+    }
+
+    try {
+      await verificarContenidoAdjunto(file);
+      await this.ticketService.getTicketById(ticketId, userId, userRol);
+
+      if (comentarioId) {
+        await this.findComment(ticketId, comentarioId);
+      }
+
+      const adjunto = await prisma.adjunto.create({
+        data: {
+          nombreOriginal: file.originalname,
+          nombreAlmacenado: file.filename,
+          mimeType: file.mimetype,
+          tamano: file.size,
+          ticketId,
+          comentarioId,
+          subidoPorId: userId,
+        },
+        include: {
+          subidoPor: subidoPorSelect,
+        },
+      });
+
+      await this.logService.record({
+        accion: AccionLog.ADJUNTO_SUBIDO,
+        entidad: EntidadLog.ADJUNTO,
+        entidadId: adjunto.id,
+        actorId: userId,
+        actorRol: userRol,
+        detalles: {
+          ticketId,
+          comentarioId: adjunto.comentarioId,
+          nombreOriginal: adjunto.nombreOriginal,
+          tamano: adjunto.tamano,
+        },
+      });
+
+      return adjunto;
+    } catch (error) {
+      await this.removeFiles([file.filename]);
+      throw error;
+    }
+  }
+
+  /**
+   * Listar los adjuntos de un ticket.
+   * Si se indica comentarioId, solo los de ese comentario.
+   */
+  async getAttachments(
+    ticketId: string,
+    comentarioId: string | undefined,
+    userId: string,
+    userRol: Rol,
+  ) {
+    await this.ticketService.getTicketById(ticketId, userId, userRol);
+
+    if (comentarioId) {
+      await this.findComment(ticketId, comentarioId);
+    }
+
+    const adjuntos = await prisma.adjunto.findMany({
+      where: {
+        ticketId,
+        comentarioId,
+      },
+      include: {
+        subidoPor: subidoPorSelect,
+      },
+      orderBy: {
+        createdAt: "asc",
+      },
+    });
+
+    return adjuntos;
+  }
+
+  /**
+   * Obtener la ruta en disco de un adjunto para su descarga.
+   */
+  async getAttachmentFile(
+    ticketId: string,
+    attachmentId: string,
+    userId: string,
+    userRol: Rol,
+  ) {
+    const adjunto = await this.findAttachment(
+      ticketId,
+      attachmentId,
+      userId,
+      userRol,
+    );
+
+    const filePath = path.join(uploadDirectory, adjunto.nombreAlmacenado);
+
+    try {
+      await fs.access(filePath);
+    } catch {
+      throw new NotFoundError("El archivo ya no existe en el almacenamiento");
+    }
+
+    return { adjunto, filePath };
+  }
+
+  /**
+   * Eliminar un adjunto.
+   * Quien lo subió puede eliminarlo; ADMIN y SUPERVISOR cualquiera.
+   */
+  async deleteAttachment(
+    ticketId: string,
+    attachmentId: string,
+    userId: string,
+    userRol: Rol,
+  ) {
+    const adjunto = await this.findAttachment(
+      ticketId,
+      attachmentId,
+      userId,
+      userRol,
+    );
+
+    if (adjunto.subidoPorId !== userId && userRol === Rol.AGENTE) {
+      throw new ForbiddenError("No tienes permiso para eliminar este adjunto");
+    }
+
+    await prisma.adjunto.delete({
+      where: { id: attachmentId },
+    });
+
+    await this.removeFiles([adjunto.nombreAlmacenado]);
+
+    await this.logService.record({
+      accion: AccionLog.ADJUNTO_ELIMINADO,
+      entidad: EntidadLog.ADJUNTO,
+      entidadId: attachmentId,
+      actorId: userId,
+      actorRol: userRol,
+      detalles: { ticketId, nombreOriginal: adjunto.nombreOriginal },
+    });
+  }
+
+  /**
+   * Elimina archivos del disco.
+   * Un fallo no interrumpe la operación: el registro ya no existe.
+   */
+  async removeFiles(nombresAlmacenados: string[]) {
+    await Promise.all(
+      nombresAlmacenados.map(async (nombre) => {
+        try {
+          await fs.unlink(path.join(uploadDirectory, nombre));
+        } catch (error) {
+          logWarning("No se pudo eliminar el archivo adjunto", {
+            archivo: nombre,
+            error: (error as Error).message,
+          });
+        }
+      }),
+    );
+  }
+
+  private async findAttachment(
+    ticketId: string,
+    attachmentId: string,
+    userId: string,
+    userRol: Rol,
+  ) {
+    await this.ticketService.getTicketById(ticketId, userId, userRol);
+
+    const adjunto = await prisma.adjunto.findUnique({
+      where: { id: attachmentId },
+    });
+
+    if (!adjunto || adjunto.ticketId !== ticketId) {
+      throw new NotFoundError("Adjunto no encontrado");
+    }
+
+    return adjunto;
+  }
+
+  private async findComment(ticketId: string, comentarioId: string) {
+    const comentario = await prisma.comentario.findUnique({
+      where: { id: comentarioId },
+    });
+
+    if (!comentario || comentario.ticketId !== ticketId) {
+      throw new NotFoundError("Comentario no encontrado");
+    }
+
+    return comentario;
+  }
+}
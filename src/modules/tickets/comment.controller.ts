@@ -0,0 +1,126 @@
+import { Response } from "express";
+import { AuthRequest } from "../../shared/types";
+import { CommentService } from "./comment.service";
+import { logInfo } from "../../config/logger.config";
+
+export class CommentController {
+  private commentService: CommentService;
+
+  constructor() {
+    this.commentService = new CommentService();
+  }
+
+  /**
+   * POST /api/tickets/:id/comments
+   * Agregar una respuesta pública o nota interna.
+   */
+  createComment = async (req: AuthRequest, res: Response): Promise<void> => {
+    const ticketId = Array.isArray(req.params.id)
+      ? req.params.id[0]
+      : req.params.id;
+
+    const comentario = await this.commentService.createComment(
+      ticketId,
+      req.body,
+      req.user!.userId,
+      req.user!.rol,
+      req.apiKey?.id,
+    );
+
+    logInfo("Comentario agregado", {
+      ticketId,
+      comentarioId: comentario.id,
+      esInterno: comentario.esInterno,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: "Comentario agregado exitosamente",
+      data: comentario,
+    });
+  };
+
+  /**
+   * GET /api/tickets/:id/comments
+   * Obtener el hilo de conversación del ticket.
+   */
+  getComments = async (req: AuthRequest, res: Response): Promise<void> => {
+    const ticketId = Array.isArray(req.params.id)
+      ? req.params.id[0]
+      : req.params.id;
+
+    const esInterno =
+      req.query.esInterno !== undefined
+        ? req.query.esInterno === "true"
+        : undefined;
+
+    const comentarios = await this.commentService.getComments(
+      ticketId,
+      esInterno,
+      req.user!.userId,
+      req.user!.rol,
+      req.apiKey?.id,
+    );
+
+    res.json({
+      success: true,
+      data: comentarios,
+    });
+  };
+
+  /**
+   * PUT /api/tickets/:id/comments/:commentId
+   * Editar un comentario propio.
+   */
+  updateComment = async (req: AuthRequest, res: Response): Promise<void> => {
+    const ticketId = Array.isArray(req.params.id)
+      ? req.params.id[0]
+      : req.params.id;
+    const commentId = Array.isArray(req.params.commentId)
+      ? req.params.commentId[0]
+      : req.params.commentId;
+
+    const comentario = await this.commentService.updateComment(
+      ticketId,
+      commentId,
+      req.body,
+      req.user!.userId,
+      req.user!.rol,
+    );
+
+    logInfo("Comentario actualizado", { ticketId, comentarioId: commentId });
+
+    res.json({
+      success: true,
+      message: "Comentario actualizado exitosamente",
+      data: comentario,
+    });
+  };
+
+  /**
+   * DELETE /api/tickets/:id/comments/:commentId
+   * Eliminar un comentario.
+   */
+  deleteComment = async (req: AuthRequest, res: Response): Promise<void> => {
+    const ticketId = Array.isArray(req.params.id)
+      ? req.params.id[0]
+      : req.params.id;
+    const commentId = Array.isArray(req.params.commentId)
+      ? req.params.commentId[0]
+      : req.params.commentId;
+
+    await this.commentService.deleteComment(
+      ticketId,
+      commentId,
+      req.user!.userId,
+      req.user!.rol,
+    );
+
+    logInfo("Comentario eliminado", { ticketId, comentarioId: commentId });
+
+    res.json({
+      success: true,
+      message: "Comentario eliminado exitosamente",
+    });
+  };
+}
@@ -0,0 +1,262 @@
+import { prisma } from "../../config/database.config";
+import {
+  CreateCommentDto,
+  UpdateCommentDto,
+  NotFoundError,
+  ForbiddenError,
+} from "../../shared/types";
+import { Rol } from "@prisma/client";
+import { TicketService } from "./ticket.service";
+import { AttachmentService } from "./attachment.service";
+import { LogService } from "../logs/log.service";
+import { AccionLog, EntidadLog } from "../logs/log.model";
+
+/**
+ * Datos del autor que se exponen junto a cada comentario.
+ */
+const autorSelect = {
+  select: {
+    id: true,
+    nombre: true,
+    email: true,
+    rol: true,
+  },
+};
+
+export class CommentService {
+  private ticketService: TicketService;
+  private attachmentService: AttachmentService;
+  private logService: LogService;
+
+  constructor() {
+    this.ticketService = new TicketService();
+    this.attachmentService = new AttachmentService();
+    this.logService = new LogService();
+  }
+
+  /**
+   * Agregar una respuesta pública o nota interna al ticket.
+   * Aplica las mismas reglas de acceso que getTicketById.
+   * apiKeyId indica que el comentario llega desde una integración.
+   */
+  async createComment(
+    ticketId: string,
+    data: CreateCommentDto,
+    userId: string,
+    userRol: Rol,
+    apiKeyId?: string,
+  ) {
+    await this.ticketService.getTicketById(ticketId, userId, userRol);
+
+    const comentario = await prisma.comentario.create({
+      data: {
+        contenido: data.contenido,
+        esInterno: data.esInterno ?? false,
+        ticketId,
+        autorId: userId,
+      },
+      include: {
+        autor: autorSelect,
+      },
+    });
+
+    // La primera respuesta pública de un agente detiene el reloj de
+    // primera respuesta
+    if (
+      !comentario.esInterno &&
+      (await this.esRespuestaDeAgente(userId, apiKeyId))
+    ) {
+      await this.ticketService.registrarPrimeraRespuesta(ticketId);
+    }
+
+    await this.logService.record({
+      accion: AccionLog.COMENTARIO_CREADO,
+      entidad: EntidadLog.COMENTARIO,
+      entidadId: comentario.id,
+      actorId: userId,
+      actorRol: userRol,
+      apiKeyId,
+      detalles: { ticketId, esInterno: comentario.esInterno },
+    });
+
+    return comentario;
+  }
+
+  /**
+   * Listar el hilo de conversación de un ticket en orden cronológico.
+   * Permite filtrar solo respuestas públicas o solo notas internas.
+   * Las integraciones (apiKeyId) solo ven las respuestas públicas.
+   */
+  async getComments(
+    ticketId: string,
+    esInterno: boolean | undefined,
+    userId: string,
+    userRol: Rol,
+    apiKeyId?: string,
+  ) {
+    await this.ticketService.getTicketById(ticketId, userId, userRol);
+
+    const comentarios = await prisma.comentario.findMany({
+      where: {
+        ticketId,
+        esInterno: apiKeyId ? false : esInterno,
+      },
+      include: {
+        autor: autorSelect,
+        adjuntos: true,
+      },
+      orderBy: {
+        createdAt: "asc",
+      },
+    });
+
+    return comentarios;
+  }
+
+  /**
+   * Editar un comentario.
+   * Solo el autor puede modificar el contenido o la visibilidad.
+   */
+  async updateComment(
+    ticketId: string,
+    commentId: string,
+    data: UpdateCommentDto,
+    userId: string,
+    userRol: Rol,
+  ) {
+    const comentario = await this.findComment(
+      ticketId,
+      commentId,
+      userId,
+      userRol,
+    );
+
+    if (comentario.autorId !== userId) {
+      throw new ForbiddenError("Solo el autor puede editar este comentario");
+    }
+
+    const updatedComentario = await prisma.comentario.update({
+      where: { id: commentId },
+      data: {
+        contenido: data.contenido,
+        esInterno: data.esInterno,
+      },
+      include: {
+        autor: autorSelect,
+      },
+    });
+
+    // Una nota interna que pasa a pública cuenta como respuesta desde ahora
+    if (
+      comentario.esInterno &&
+      !updatedComentario.esInterno &&
+      (await this.esRespuestaDeAgente(userId))
+    ) {
+      await this.ticketService.registrarPrimeraRespuesta(ticketId);
+    }
+
+    await this.logService.record({
+      accion: AccionLog.COMENTARIO_ACTUALIZADO,
+      entidad: EntidadLog.COMENTARIO,
+      entidadId: commentId,
+      actorId: userId,
+      actorRol: userRol,
+      detalles: {
+        ticketId,
+        contenidoEditado: updatedComentario.contenido !== comentario.contenido,
+        esInternoAnterior: comentario.esInterno,
+        esInterno: updatedComentario.esInterno,
+      },
+    });
+
+    return updatedComentario;
+  }
+
+  /**
+   * Eliminar un comentario.
+   * El autor puede eliminar los suyos; ADMIN y SUPERVISOR cualquiera.
+   */
+  async deleteComment(
+    ticketId: string,
+    commentId: string,
+    userId: string,
+    userRol: Rol,
+  ) {
+    const comentario = await this.findComment(
+      ticketId,
+      commentId,
+      userId,
+      userRol,
+    );
+
+    if (comentario.autorId !== userId && userRol === Rol.AGENTE) {
+      throw new ForbiddenError(
+        "No tienes permiso para eliminar este comentario",
+      );
+    }
+
+    const adjuntos = await prisma.adjunto.findMany({
+      where: { comentarioId: commentId },
+      select: { nombreAlmacenado: true },
+    });
+
+    // Los registros de adjuntos se eliminan en cascada; los archivos no
+    await prisma.comentario.delete({
+      where: { id: commentId },
+    });
+
+    await this.attachmentService.removeFiles(
+      adjuntos.map((adjunto) => adjunto.nombreAlmacenado),
+    );
+
+    await this.logService.record({
+      accion: AccionLog.COMENTARIO_ELIMINADO,
+      entidad: EntidadLog.COMENTARIO,
+      entidadId: commentId,
+      actorId: userId,
+      actorRol: userRol,
+      detalles: { ticketId },
+    });
+  }
+
+  /**
+   * Busca un comentario verificando que pertenezca al ticket
+   * y que el usuario tenga acceso a dicho ticket.
+   */
+  private async findComment(
+    ticketId: string,
+    commentId: string,
+    userId: string,
+    userRol: Rol,
+  ) {
+    await this.ticketService.getTicketById(ticketId, userId, userRol);
+
+    const comentario = await prisma.comentario.findUnique({
+      where: { id: commentId },
+    });
+
+    if (!comentario || comentario.ticketId !== ticketId) {
+      throw new NotFoundError("Comentario no encontrado");
+    }
+
+    return comentario;
+  }
+
+  /**
+   * Responde al cliente el personal de soporte. Los comentarios de
+   * integraciones no detienen el reloj: ni los hechos con una API key ni
+   * los de su usuario de servicio (el dueño de alguna key), aunque entre
+   * con JWT.
+   */
+  private async esRespuestaDeAgente(
+    userId: string,
+    apiKeyId?: string,
+  ): Promise<boolean> {
+    if (apiKeyId) {
+      return false;
+    }
+
+    const keys = await prisma.apiKey.count({ where: { usuarioId: userId } });
+    return keys === 0;
+  }
+}
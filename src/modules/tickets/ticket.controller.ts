@@ -1,13 +1,16 @@
 import { Response } from "express";
 import { AuthRequest } from "../../shared/types";
 import { TicketService } from "./ticket.service";
+import { SlaService } from "../sla/sla.service";
 import { logInfo } from "../../config/logger.config";
 
 export class TicketController {
   private ticketService: TicketService;
+  private slaService: SlaService;
 
   constructor() {
     this.ticketService = new TicketService();
+    this.slaService = new SlaService();
   }
 
   /**
@@ -19,6 +22,7 @@ export class TicketController {
       req.body,
       req.user!.userId,
       req.user!.rol,
+      req.apiKey?.id,
     );
 
     logInfo("Ticket creado", {
@@ -44,6 +48,7 @@ export class TicketController {
       prioridad: req.query.prioridad as string | undefined,
       clienteId: req.query.clienteId as string | undefined,
       agenteAsignadoId: req.query.agenteAsignadoId as string | undefined,
+      equipoId: req.query.equipoId as string | undefined,
       fechaDesde: req.query.fechaDesde
         ? new Date(req.query.fechaDesde as string)
         : undefined,
@@ -70,6 +75,23 @@ export class TicketController {
     });
   };
 
+  /**
+   * GET /api/tickets/queue
+   * Cola sin asignar de los equipos del usuario.
+   */
+  getTeamQueue = async (req: AuthRequest, res: Response): Promise<void> => {
+    const tickets = await this.ticketService.getTeamQueue(
+      req.query.equipoId as string | undefined,
+      req.user!.userId,
+      req.user!.rol,
+    );
+
+    res.json({
+      success: true,
+      data: tickets,
+    });
+  };
+
   /**
    * GET /api/tickets/:id
    * Obtener un ticket por ID.
@@ -119,6 +141,30 @@ export class TicketController {
     });
   };
 
+  /**
+   * GET /api/tickets/:id/history
+   * Obtener el historial de cambios del ticket.
+   */
+  getTicketHistory = async (
+    req: AuthRequest,
+    res: Response,
+  ): Promise<void> => {
+    const ticketId = Array.isArray(req.params.id)
+      ? req.params.id[0]
+      : req.params.id;
+
+    const historial = await this.ticketService.getTicketHistory(
+      ticketId,
+      req.user!.userId,
+      req.user!.rol,
+    );
+
+    res.json({
+      success: true,
+      data: historial,
+    });
+  };
+
   /**
    * DELETE /api/tickets/:id
    * Eliminar un ticket (soft delete).
@@ -146,9 +192,10 @@ export class TicketController {
    * POST /api/tickets/escalar-sla
    * Ejecutar escalamiento automático por SLA.
    * Solo ADMIN y SUPERVISOR pueden ejecutar esto manualmente.
+   * Comparte el lock con el job programado para no escalar en paralelo.
    */
   escalarPorSLA = async (_req: AuthRequest, res: Response): Promise<void> => {
-    const result = await this.ticketService.escalarTicketsPorSLA();
+    const result = await this.slaService.runEscalation();
 
     logInfo("Escalamiento SLA ejecutado", result);
 
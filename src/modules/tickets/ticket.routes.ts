@@ -1,20 +1,30 @@
 import { Router } from "express";
 import { TicketController } from "./ticket.controller";
+import { CommentController } from "./comment.controller";
+import { AttachmentController } from "./attachment.controller";
 import { asyncHandler } from "../../shared/middleware/errorHandler";
 import {
   authenticate,
-  authorize,
+  authorizePermission,
+  requireScope,
+  denyApiKey,
 } from "../../shared/middleware/auth.middleware";
 import {
   validateCreateTicket,
   validateUpdateTicket,
   validatePagination,
   validateDateFilters,
+  validateCreateComment,
+  validateUpdateComment,
 } from "../../shared/middleware/validation.middleware";
-import { Rol } from "@prisma/client";
+import { uploadAttachment } from "../../shared/middleware/upload.middleware";
+import { Permiso } from "../roles/permissions";
+import { ScopeApiKey } from "@prisma/client";
 
 const router = Router();
 const ticketController = new TicketController();
+const commentController = new CommentController();
+const attachmentController = new AttachmentController();
 
 /**
  * Todas las rutas requieren autenticación.
@@ -23,11 +33,11 @@ router.use(authenticate);
 
 /**
  * POST /api/tickets/escalar-sla
- * Ejecutar escalamiento automático (solo ADMIN y SUPERVISOR).
+ * Ejecutar escalamiento automático (permiso sla.run).
  */
 router.post(
   "/escalar-sla",
-  authorize(Rol.ADMIN, Rol.SUPERVISOR),
+  authorizePermission(Permiso.SLA_RUN),
   asyncHandler(ticketController.escalarPorSLA),
 );
 
@@ -37,6 +47,8 @@ router.post(
  */
 router.post(
   "/",
+  authorizePermission(Permiso.TICKET_CREATE),
+  requireScope(ScopeApiKey.TICKETS_CREAR),
   validateCreateTicket,
   asyncHandler(ticketController.createTicket),
 );
@@ -47,16 +59,33 @@ router.post(
  */
 router.get(
   "/",
+  authorizePermission(Permiso.TICKET_READ),
+  requireScope(ScopeApiKey.TICKETS_LECTURA),
   validatePagination,
   validateDateFilters,
   asyncHandler(ticketController.getTickets),
 );
 
+/**
+ * GET /api/tickets/queue
+ * Cola de tickets sin asignar de los equipos del usuario (?equipoId= opcional).
+ */
+router.get(
+  "/queue",
+  authorizePermission(Permiso.TICKET_READ),
+  asyncHandler(ticketController.getTeamQueue),
+);
+
 /**
  * GET /api/tickets/:id
  * Obtener un ticket por ID.
  */
-router.get("/:id", asyncHandler(ticketController.getTicketById));
+router.get(
+  "/:id",
+  authorizePermission(Permiso.TICKET_READ),
+  requireScope(ScopeApiKey.TICKETS_LECTURA),
+  asyncHandler(ticketController.getTicketById),
+);
 
 /**
  * PUT /api/tickets/:id
@@ -64,6 +93,7 @@ router.get("/:id", asyncHandler(ticketController.getTicketById));
  */
 router.put(
   "/:id",
+  authorizePermission(Permiso.TICKET_UPDATE),
   validateUpdateTicket,
   asyncHandler(ticketController.updateTicket),
 );
@@ -71,12 +101,129 @@ router.put(
 /**
  * DELETE /api/tickets/:id
  * Eliminar un ticket (soft delete).
- * Solo ADMIN y SUPERVISOR pueden eliminar.
  */
 router.delete(
   "/:id",
-  authorize(Rol.ADMIN, Rol.SUPERVISOR),
+  authorizePermission(Permiso.TICKET_DELETE),
   asyncHandler(ticketController.deleteTicket),
 );
 
+/**
+ * GET /api/tickets/:id/history
+ * Historial de cambios del ticket.
+ */
+router.get(
+  "/:id/history",
+  authorizePermission(Permiso.TICKET_HISTORY),
+  asyncHandler(ticketController.getTicketHistory),
+);
+
+/**
+ * GET /api/tickets/:id/comments
+ * Obtener el hilo de conversación del ticket.
+ */
+router.get(
+  "/:id/comments",
+  authorizePermission(Permiso.TICKET_READ),
+  requireScope(ScopeApiKey.TICKETS_LECTURA),
+  asyncHandler(commentController.getComments),
+);
+
+/**
+ * POST /api/tickets/:id/comments
+ * Agregar una respuesta pública o nota interna.
+ */
+router.post(
+  "/:id/comments",
+  authorizePermission(Permiso.TICKET_COMMENT),
+  requireScope(ScopeApiKey.TICKETS_COMENTAR),
+  validateCreateComment,
+  asyncHandler(commentController.createComment),
+);
+
+/**
+ * PUT /api/tickets/:id/comments/:commentId
+ * Editar un comentario (solo el autor).
+ */
+router.put(
+  "/:id/comments/:commentId",
+  authorizePermission(Permiso.TICKET_COMMENT),
+  validateUpdateComment,
+  asyncHandler(commentController.updateComment),
+);
+
+/**
+ * DELETE /api/tickets/:id/comments/:commentId
+ * Eliminar un comentario (autor, ADMIN o SUPERVISOR).
+ */
+router.delete(
+  "/:id/comments/:commentId",
+  authorizePermission(Permiso.TICKET_COMMENT),
+  asyncHandler(commentController.deleteComment),
+);
+
+/**
+ * GET /api/tickets/:id/attachments
+ * Listar adjuntos del ticket.
+ */
+router.get(
+  "/:id/attachments",
+  authorizePermission(Permiso.TICKET_READ),
+  asyncHandler(attachmentController.getAttachments),
+);
+
+/**
+ * POST /api/tickets/:id/attachments
+ * Subir un adjunto al ticket (multipart, campo "archivo").
+ */
+router.post(
+  "/:id/attachments",
+  authorizePermission(Permiso.TICKET_ATTACH),
+  denyApiKey,
+  uploadAttachment,
+  asyncHandler(attachmentController.uploadAttachment),
+);
+
+/**
+ * GET /api/tickets/:id/attachments/:attachmentId/download
+ * Descargar un adjunto.
+ */
+router.get(
+  "/:id/attachments/:attachmentId/download",
+  authorizePermission(Permiso.TICKET_READ),
+  asyncHandler(attachmentController.downloadAttachment),
+);
+
+/**
+ * DELETE /api/tickets/:id/attachments/:attachmentId
+ * Eliminar un adjunto (quien lo subió, ADMIN o SUPERVISOR).
+ */
+router.delete(
+  "/:id/attachments/:attachmentId",
+  authorizePermission(Permiso.TICKET_ATTACH),
+  asyncHandler(attachmentController.deleteAttachment),
+);
+
+/**
+ * GET /api/tickets/:id/comments/:commentId/attachments
+ * Listar adjuntos de un comentario.
+ */
+router.get(
+  "/:id/comments/:commentId/attachments",
+  authorizePermission(Permiso.TICKET_READ),
+  asyncHandler(attachmentController.getAttachments),
+);
+
+/**
+ * POST /api/tickets/:id/comments/:commentId/attachments
+ * Subir un adjunto a un comentario (multipart, campo "archivo").
+ */
+router.post(
+  "/:id/comments/:commentId/attachments",
+  authorizePermission(Permiso.TICKET_ATTACH),
+  denyApiKey,
+  uploadAttachment,
+  asyncHandler(attachmentController.uploadAttachment),
+);
+
 export { router as ticketRoutes };
@@ -5,9 +5,13 @@ import {
   UpdateTicketDto,
   TicketFilters,
   PaginationParams,
+  SlaObjetivo,
+  SlaTargetStatus,
+  TicketSlaStatus,
   NotFoundError,
   ForbiddenError,
   ValidationError,
+  ConflictError,
 } from "../../shared/types";
 import {
   EstadoTicket,
@@ -15,14 +19,93 @@ import {
   NivelEscalamiento,
   TipoCliente,
   Rol,
+  OrigenCambio,
+  Prisma,
+  Ticket,
+  PoliticaSla,
 } from "@prisma/client";
+import { LogService } from "../logs/log.service";
+import { AccionLog, EntidadLog } from "../logs/log.model";
+import { msLaborablesEntre } from "../sla/calendar.utils";
+import { calendarioSLAInclude } from "../sla/calendar.service";
+import { SlaPolicyService, ObjetivosSla } from "../sla/sla-policy.service";
+import {
+  AssignmentService,
+  AsignacionAutomatica,
+  puedeAtenderNivel,
+  habilidadesFaltantes,
+  ESTADOS_ABIERTOS,
+} from "./assignment.service";
+import { SkillService } from "../agents/skill.service";
+import {
+  disponibilidadInclude,
+  evaluarDisponibilidad,
+} from "../agents/availability.utils";
+
+/**
+ * Campos del ticket cuyo cambio queda registrado en el historial.
+ */
+const CAMPOS_AUDITADOS = [
+  "estado",
+  "agenteAsignadoId",
+  "equipoId",
+  "nivelEscalamiento",
+] as const;
+
+type CampoAuditado = (typeof CAMPOS_AUDITADOS)[number];
+
+/**
+ * Relaciones incluidas en las respuestas de tickets.
+ * El calendario del cliente se usa para calcular el estado SLA
+ * y se omite de la respuesta.
+ */
+const ticketInclude = {
+  cliente: {
+    include: {
+      calendario: { include: calendarioSLAInclude },
+    },
+  },
+  agenteAsignado: true,
+  equipo: true,
+  habilidadesRequeridas: true,
+} satisfies Prisma.TicketInclude;
+
+type TicketConRelaciones = Prisma.TicketGetPayload<{
+  include: typeof ticketInclude;
+}>;
+
+const minutosLaborables = (
+  desde: Date,
+  hasta: Date,
+  calendario: Parameters<typeof msLaborablesEntre>[2],
+): number => Math.floor(msLaborablesEntre(desde, hasta, calendario) / (1000 * 60));
 
 export class TicketService {
+  private logService: LogService;
+  private slaPolicyService: SlaPolicyService;
+  private assignmentService: AssignmentService;
+  private skillService: SkillService;
+
+  constructor() {
+    this.logService = new LogService();
+    this.slaPolicyService = new SlaPolicyService();
+    this.assignmentService = new AssignmentService();
+    this.skillService = new SkillService();
+  }
+
   /**
    * Crear ticket con prioridad asignada automáticamente según tipo de cliente.
    * VIP → ALTA, NORMAL → MEDIA.
+   * Si no se indica agente, lo elige el motor de asignación automática
+   * (entre los miembros del equipo, si se indica uno). Sin candidatos,
+   * el ticket queda en la cola del equipo.
    */
-  async createTicket(data: CreateTicketDto, userId: string, userRol: Rol) {
+  async createTicket(
+    data: CreateTicketDto,
+    userId: string,
+    userRol: Rol,
+    apiKeyId?: string,
+  ) {
     const cliente = await prisma.cliente.findUnique({
       where: { id: data.clienteId },
     });
@@ -31,41 +114,99 @@ export class TicketService {
       throw new NotFoundError("Cliente no encontrado");
     }
 
+    const habilidadIds = data.habilidadIds ?? [];
+
+    if (habilidadIds.length > 0) {
+      await this.skillService.assertSkillsExist(habilidadIds);
+    }
+
+    if (data.equipoId) {
+      await this.validateEquipo(data.equipoId, userId, userRol);
+    }
+
     if (data.agenteAsignadoId) {
+      const now = new Date();
       const agente = await prisma.agente.findUnique({
         where: { id: data.agenteAsignadoId },
+        include: {
+          habilidades: true,
+          equipos: { select: { id: true } },
+          ...disponibilidadInclude(now),
+        },
       });
 
       if (!agente || !agente.activo) {
         throw new NotFoundError("Agente no encontrado o inactivo");
       }
+
+      const disponibilidad = evaluarDisponibilidad(agente, now);
+      if (!disponibilidad.disponible) {
+        throw new ConflictError(
+          `El agente no está disponible: ${disponibilidad.motivo}`,
+        );
+      }
+
+      this.validateEquipoAgente(agente, data.equipoId ?? null);
+      await this.validateHabilidadesAgente(agente, habilidadIds);
     }
 
     const prioridad =
       cliente.tipo === TipoCliente.VIP ? Prioridad.ALTA : Prioridad.MEDIA;
 
+    const asignacion = data.agenteAsignadoId
+      ? null
+      : await this.assignmentService.elegirAgente(
+          NivelEscalamiento.NIVEL_1,
+          habilidadIds,
+          data.equipoId ?? null,
+        );
+
     const ticket = await prisma.ticket.create({
       data: {
         titulo: data.titulo,
         descripcion: data.descripcion,
         clienteId: data.clienteId,
-        agenteAsignadoId: data.agenteAsignadoId,
+        agenteAsignadoId: data.agenteAsignadoId ?? asignacion?.agenteId,
+        equipoId: data.equipoId,
         prioridad,
         estado: EstadoTicket.ABIERTO,
         nivelEscalamiento: NivelEscalamiento.NIVEL_1,
+        habilidadesRequeridas: {
+          connect: habilidadIds.map((id) => ({ id })),
+        },
+        historial: asignacion
+          ? { create: this.buildHistorialAsignacion(null, asignacion) }
+          : undefined,
       },
-      include: {
-        cliente: true,
-        agenteAsignado: true,
+      include: ticketInclude,
+    });
+
+    await this.logService.record({
+      accion: AccionLog.TICKET_CREADO,
+      entidad: EntidadLog.TICKET,
+      entidadId: ticket.id,
+      actorId: userId,
+      actorRol: userRol,
+      apiKeyId,
+      detalles: {
+        clienteId: ticket.clienteId,
+        prioridad: ticket.prioridad,
+        agenteAsignadoId: ticket.agenteAsignadoId,
+        equipoId: ticket.equipoId,
+        asignacion,
       },
     });
 
-    return ticket;
+    return this.toTicketResponse(
+      ticket,
+      await this.slaPolicyService.getPoliticasActivas(),
+    );
   }
 
   /**
    * Listar tickets con filtros y paginación.
-   * Agentes solo ven tickets asignados a ellos.
+   * Agentes ven los tickets asignados a ellos y la cola sin asignar
+   * de sus equipos; supervisores, los de los equipos que gestionan.
    */
   async getTickets(
     filters: TicketFilters,
@@ -79,20 +220,9 @@ export class TicketService {
 
     const where: any = {
       deletedAt: null,
+      AND: [await this.getAlcance(userId, userRol)],
     };
 
-    if (userRol === Rol.AGENTE) {
-      const agente = await prisma.agente.findUnique({
-        where: { usuarioId: userId },
-      });
-
-      if (!agente) {
-        throw new ForbiddenError("No tienes un perfil de agente asociado");
-      }
-
-      where.agenteAsignadoId = agente.id;
-    }
-
     if (filters.estado) {
       where.estado = filters.estado as EstadoTicket;
     }
@@ -109,6 +239,10 @@ export class TicketService {
       where.agenteAsignadoId = filters.agenteAsignadoId;
     }
 
+    if (filters.equipoId) {
+      where.equipoId = filters.equipoId;
+    }
+
     if (filters.fechaDesde || filters.fechaHasta) {
       where.fechaCreacion = {};
 
@@ -121,26 +255,27 @@ export class TicketService {
       }
     }
 
-    const [tickets, totalItems] = await Promise.all([
+    const [tickets, totalItems, politicas] = await Promise.all([
       prisma.ticket.findMany({
         where,
         skip,
         take: pageSize,
-        include: {
-          cliente: true,
-          agenteAsignado: true,
-        },
+        include: ticketInclude,
         orderBy: {
           fechaCreacion: "desc",
         },
       }),
       prisma.ticket.count({ where }),
+      this.slaPolicyService.getPoliticasActivas(),
     ]);
 
     const totalPages = Math.ceil(totalItems / pageSize);
+    const now = new Date();
 
     return {
-      data: tickets,
+      data: tickets.map((ticket) =>
+        this.toTicketResponse(ticket, politicas, now),
+      ),
       pagination: {
         page,
         pageSize,
@@ -153,33 +288,47 @@ export class TicketService {
   }
 
   /**
-   * Obtener ticket por ID.
-   * Agentes solo pueden ver sus propios tickets.
+   * Cola de equipo: tickets abiertos sin agente asignado, por prioridad
+   * y antigüedad. Cada usuario solo ve las colas de sus equipos.
    */
-  async getTicketById(ticketId: string, userId: string, userRol: Rol) {
-    const ticket = await prisma.ticket.findUnique({
-      where: { id: ticketId },
-      include: {
-        cliente: true,
-        agenteAsignado: true,
-      },
-    });
+  async getTeamQueue(
+    equipoId: string | undefined,
+    userId: string,
+    userRol: Rol,
+  ) {
+    const [tickets, politicas] = await Promise.all([
+      prisma.ticket.findMany({
+        where: {
+          deletedAt: null,
+          agenteAsignadoId: null,
+          equipoId: equipoId ?? { not: null },
+          estado: { in: ESTADOS_ABIERTOS },
+          AND: [await this.getAlcance(userId, userRol)],
+        },
+        include: ticketInclude,
+        orderBy: [{ prioridad: "asc" }, { fechaCreacion: "asc" }],
+      }),
+      this.slaPolicyService.getPoliticasActivas(),
+    ]);
 
-    if (!ticket || ticket.deletedAt) {
-      throw new NotFoundError("Ticket no encontrado");
-    }
+    const now = new Date();
 
-    if (userRol === Rol.AGENTE) {
-      const agente = await prisma.agente.findUnique({
-        where: { usuarioId: userId },
-      });
+    return tickets.map((ticket) =>
+      this.toTicketResponse(ticket, politicas, now),
+    );
+  }
 
-      if (!agente || ticket.agenteAsignadoId !== agente.id) {
-        throw new ForbiddenError("No tienes permiso para ver este ticket");
-      }
-    }
+  /**
+   * Obtener ticket por ID con su estado SLA.
+   * Aplica el mismo alcance por rol y equipo que el listado.
+   */
+  async getTicketById(ticketId: string, userId: string, userRol: Rol) {
+    const ticket = await this.findAccessibleTicket(ticketId, userId, userRol);
 
-    return ticket;
+    return this.toTicketResponse(
+      ticket,
+      await this.slaPolicyService.getPoliticasActivas(),
+    );
   }
 
   /**
@@ -193,21 +342,49 @@ export class TicketService {
     userId: string,
     userRol: Rol,
   ) {
-    const ticket = await this.getTicketById(ticketId, userId, userRol);
+    const ticket = await this.findAccessibleTicket(ticketId, userId, userRol);
+    const calendario = ticket.cliente.calendario;
 
     if (data.estado) {
       this.validateEstadoTransition(ticket.estado, data.estado as EstadoTicket);
     }
 
+    const habilidadIds =
+      data.habilidadIds ?? ticket.habilidadesRequeridas.map((h) => h.id);
+
+    if (data.habilidadIds) {
+      await this.skillService.assertSkillsExist(data.habilidadIds);
+    }
+
+    const equipoId =
+      data.equipoId !== undefined ? data.equipoId : ticket.equipoId;
+
+    if (data.equipoId && data.equipoId !== ticket.equipoId) {
+      await this.validateEquipo(data.equipoId, userId, userRol);
+    }
+
     if (data.agenteAsignadoId) {
+      const now = new Date();
       const agente = await prisma.agente.findUnique({
         where: { id: data.agenteAsignadoId },
+        include: {
+          habilidades: true,
+          equipos: { select: { id: true } },
+          ...disponibilidadInclude(now),
+        },
       });
 
       if (!agente || !agente.activo) {
         throw new NotFoundError("Agente no encontrado o inactivo");
       }
 
+      const disponibilidad = evaluarDisponibilidad(agente, now);
+      if (!disponibilidad.disponible) {
+        throw new ConflictError(
+          `El agente no está disponible: ${disponibilidad.motivo}`,
+        );
+      }
+
       if (ticket.estado === EstadoTicket.ESCALADO) {
         if (
           ticket.nivelEscalamiento === NivelEscalamiento.NIVEL_2 &&
@@ -228,6 +405,9 @@ export class TicketService {
           );
         }
       }
+
+      this.validateEquipoAgente(agente, equipoId);
+      await this.validateHabilidadesAgente(agente, habilidadIds);
     }
 
     const updateData: any = {
@@ -235,38 +415,263 @@ export class TicketService {
       descripcion: data.descripcion,
       estado: data.estado as EstadoTicket | undefined,
       agenteAsignadoId: data.agenteAsignadoId,
+      equipoId: data.equipoId,
+      habilidadesRequeridas: data.habilidadIds
+        ? { set: data.habilidadIds.map((id) => ({ id })) }
+        : undefined,
     };
 
+    // Al cambiar de equipo sin indicar agente, el ticket pasa a la cola
+    // del nuevo equipo si el agente actual no es miembro
+    if (
+      equipoId &&
+      equipoId !== ticket.equipoId &&
+      !data.agenteAsignadoId &&
+      ticket.agenteAsignadoId
+    ) {
+      const esMiembro = await prisma.agente.count({
+        where: {
+          id: ticket.agenteAsignadoId,
+          equipos: { some: { id: equipoId } },
+        },
+      });
+
+      if (!esMiembro) {
+        updateData.agenteAsignadoId = null;
+      }
+    }
+
+    // Al cambiar las habilidades sin indicar agente, el agente que conserva
+    // el ticket también debe cumplirlas
+    if (
+      data.habilidadIds &&
+      !data.agenteAsignadoId &&
+      updateData.agenteAsignadoId !== null &&
+      ticket.agenteAsignadoId
+    ) {
+      const agenteActual = await prisma.agente.findUnique({
+        where: { id: ticket.agenteAsignadoId },
+        include: { habilidades: true },
+      });
+
+      if (agenteActual) {
+        await this.validateHabilidadesAgente(agenteActual, habilidadIds);
+      }
+    }
+
+    const now = new Date();
+    let tiempoPausado = ticket.tiempoPausado;
+
+    // Entrar en espera del cliente detiene el reloj SLA
+    if (
+      data.estado === EstadoTicket.EN_ESPERA &&
+      ticket.estado !== EstadoTicket.EN_ESPERA
+    ) {
+      updateData.fechaInicioPausa = now;
+    }
+
+    // Salir de la espera acumula el tiempo pausado (total y del nivel actual)
+    if (
+      data.estado &&
+      data.estado !== EstadoTicket.EN_ESPERA &&
+      ticket.estado === EstadoTicket.EN_ESPERA &&
+      ticket.fechaInicioPausa
+    ) {
+      const minutosPausa = minutosLaborables(
+        ticket.fechaInicioPausa,
+        now,
+        calendario,
+      );
+
+      tiempoPausado += minutosPausa;
+      updateData.fechaInicioPausa = null;
+      updateData.tiempoPausado = tiempoPausado;
+      updateData.tiempoPausadoNivel = ticket.tiempoPausadoNivel + minutosPausa;
+    }
+
     if (
       data.estado === EstadoTicket.RESUELTO &&
       ticket.estado !== EstadoTicket.RESUELTO
     ) {
-      const now = new Date();
-      const tiempoResolucion = Math.floor(
-        (now.getTime() - ticket.fechaCreacion.getTime()) / (1000 * 60),
+      const tiempoResolucion = Math.max(
+        minutosLaborables(ticket.fechaCreacion, now, calendario) -
+          tiempoPausado,
+        0,
       );
 
       updateData.fechaResolucion = now;
       updateData.tiempoResolucion = tiempoResolucion;
     }
 
-    const updatedTicket = await prisma.ticket.update({
+    const cambios = this.buildHistorial(
+      ticket,
+      updateData,
+      OrigenCambio.USUARIO,
+      userId,
+    );
+
+    const [updatedTicket] = await prisma.$transaction([
+      prisma.ticket.update({
+        where: { id: ticketId },
+        data: updateData,
+        include: ticketInclude,
+      }),
+      prisma.historialTicket.createMany({ data: cambios }),
+    ]);
+
+    await this.logService.record({
+      accion: AccionLog.TICKET_ACTUALIZADO,
+      entidad: EntidadLog.TICKET,
+      entidadId: ticketId,
+      actorId: userId,
+      actorRol: userRol,
+      detalles: {
+        cambios: cambios.map(({ campo, valorAnterior, valorNuevo }) => ({
+          campo,
+          valorAnterior,
+          valorNuevo,
+        })),
+      },
+    });
+
+    return this.toTicketResponse(
+      updatedTicket,
+      await this.slaPolicyService.getPoliticasActivas(),
+    );
+  }
+
+  /**
+   * Registra la primera respuesta visible para el cliente.
+   * Solo la primera cuenta; las siguientes no modifican el ticket.
+   */
+  async registrarPrimeraRespuesta(ticketId: string) {
+    const ticket = await prisma.ticket.findUnique({
       where: { id: ticketId },
-      data: updateData,
+      include: ticketInclude,
+    });
+
+    if (!ticket || ticket.fechaPrimeraRespuesta) {
+      return;
+    }
+
+    const now = new Date();
+
+    // El filtro por fecha nula evita pisar una respuesta registrada en paralelo
+    await prisma.ticket.updateMany({
+      where: { id: ticketId, fechaPrimeraRespuesta: null },
+      data: {
+        fechaPrimeraRespuesta: now,
+        tiempoPrimeraRespuesta: minutosLaborables(
+          ticket.fechaCreacion,
+          now,
+          ticket.cliente.calendario,
+        ),
+      },
+    });
+  }
+
+  /**
+   * Reasignar los tickets abiertos de un agente que dejó de estar disponible.
+   * Los que no encuentran reemplazo quedan sin asignar.
+   * filtro restringe los tickets afectados; con soloDesasignar no se usa
+   * la asignación automática y todos vuelven a la cola de su equipo.
+   */
+  async reasignarTicketsDeAgente(
+    agenteId: string,
+    causa: string,
+    opciones: { filtro?: Prisma.TicketWhereInput; soloDesasignar?: boolean } = {},
+  ) {
+    const tickets = await prisma.ticket.findMany({
+      where: {
+        ...opciones.filtro,
+        agenteAsignadoId: agenteId,
+        estado: { in: ESTADOS_ABIERTOS },
+        deletedAt: null,
+      },
       include: {
-        cliente: true,
-        agenteAsignado: true,
+        habilidadesRequeridas: { select: { id: true } },
+      },
+    });
+
+    // Los tickets de un equipo solo se reparten entre sus miembros
+    const reasignados: string[] = [];
+    const sinAsignar: string[] = [];
+
+    for (const ticket of tickets) {
+      const asignacion = opciones.soloDesasignar
+        ? null
+        : await this.assignmentService.elegirAgente(
+            ticket.nivelEscalamiento,
+            ticket.habilidadesRequeridas.map((h) => h.id),
+            ticket.equipoId,
+          );
+
+      const historial = asignacion
+        ? this.buildHistorialAsignacion(agenteId, {
+            ...asignacion,
+            motivo: `${causa}. ${asignacion.motivo}`,
+          })
+        : {
+            campo: "agenteAsignadoId",
+            valorAnterior: agenteId,
+            valorNuevo: null,
+            origen: OrigenCambio.ASIGNACION_AUTOMATICA,
+            motivo: opciones.soloDesasignar
+              ? causa
+              : `${causa}. Sin agentes disponibles`,
+          };
+
+      await prisma.$transaction([
+        prisma.ticket.update({
+          where: { id: ticket.id },
+          data: { agenteAsignadoId: asignacion?.agenteId ?? null },
+        }),
+        prisma.historialTicket.create({
+          data: { ticketId: ticket.id, ...historial },
+        }),
+      ]);
+
+      (asignacion ? reasignados : sinAsignar).push(ticket.id);
+    }
+
+    return {
+      totalTickets: tickets.length,
+      reasignados,
+      sinAsignar,
+    };
+  }
+
+  /**
+   * Obtener el historial de cambios de un ticket en orden cronológico.
+   */
+  async getTicketHistory(ticketId: string, userId: string, userRol: Rol) {
+    await this.findAccessibleTicket(ticketId, userId, userRol);
+
+    const historial = await prisma.historialTicket.findMany({
+      where: { ticketId },
+      include: {
+        usuario: {
+          select: {
+            id: true,
+            nombre: true,
+            email: true,
+            rol: true,
+          },
+        },
+      },
+      orderBy: {
+        createdAt: "asc",
       },
     });
 
-    return updatedTicket;
+    return historial;
   }
 
   /**
    * Soft delete de ticket.
    */
   async deleteTicket(ticketId: string, userId: string, userRol: Rol) {
-    const ticket = await this.getTicketById(ticketId, userId, userRol);
+    const ticket = await this.findAccessibleTicket(ticketId, userId, userRol);
 
     await prisma.ticket.update({
       where: { id: ticketId },
@@ -274,11 +679,22 @@ export class TicketService {
         deletedAt: new Date(),
       },
     });
+
+    await this.logService.record({
+      accion: AccionLog.TICKET_ELIMINADO,
+      entidad: EntidadLog.TICKET,
+      entidadId: ticket.id,
+      actorId: userId,
+      actorRol: userRol,
+    });
   }
 
   /**
-   * Escalar tickets que excedieron el SLA.
-   * VIP: 2 horas, Normal: 24 horas.
+   * Escalar tickets que excedieron el plazo SLA de su nivel actual.
+   * El plazo se cuenta desde que el ticket entró al nivel (fechaNivelActual),
+   * por lo que NIVEL_3 solo se alcanza si NIVEL_2 también venció su ventana.
+   * Si el agente asignado no puede atender el nuevo nivel, se reasigna;
+   * si no hay otro agente disponible el ticket vuelve a la cola.
    * Nivel 1 → Nivel 2 → Nivel 3.
    */
   async escalarTicketsPorSLA() {
@@ -287,25 +703,48 @@ export class TicketService {
     const ticketsAbiertos = await prisma.ticket.findMany({
       where: {
         estado: {
-          in: [EstadoTicket.ABIERTO, EstadoTicket.EN_PROGRESO],
+          in: [
+            EstadoTicket.ABIERTO,
+            EstadoTicket.EN_PROGRESO,
+            EstadoTicket.ESCALADO,
+          ],
+        },
+        nivelEscalamiento: {
+          not: NivelEscalamiento.NIVEL_3,
         },
         deletedAt: null,
       },
       include: {
-        cliente: true,
+        cliente: {
+          include: {
+            calendario: { include: calendarioSLAInclude },
+          },
+        },
+        agenteAsignado: true,
+        habilidadesRequeridas: { select: { id: true } },
       },
     });
 
+    const politicas = await this.slaPolicyService.getPoliticasActivas();
     const ticketsEscalados: string[] = [];
 
     for (const ticket of ticketsAbiertos) {
+      // Solo cuenta horas laborables si el cliente tiene calendario asignado,
+      // descontando el tiempo que el ticket estuvo en espera en este nivel
       const horasTranscurridas =
-        (now.getTime() - ticket.fechaCreacion.getTime()) / (1000 * 60 * 60);
+        (msLaborablesEntre(
+          ticket.fechaNivelActual,
+          now,
+          ticket.cliente.calendario,
+        ) -
+          ticket.tiempoPausadoNivel * 60 * 1000) /
+        (1000 * 60 * 60);
 
+      const objetivos = this.getObjetivos(ticket, politicas);
       const slaHoras =
-        ticket.cliente.tipo === TipoCliente.VIP
-          ? config.slaVipHours
-          : config.slaNormalHours;
+        ticket.nivelEscalamiento === NivelEscalamiento.NIVEL_2
+          ? objetivos.horasNivel2
+          : objetivos.horasNivel1;
 
       if (horasTranscurridas > slaHoras) {
         const nuevoNivel =
@@ -313,11 +752,83 @@ export class TicketService {
             ? NivelEscalamiento.NIVEL_2
             : NivelEscalamiento.NIVEL_3;
 
-        await prisma.ticket.update({
-          where: { id: ticket.id },
-          data: {
-            estado: EstadoTicket.ESCALADO,
-            nivelEscalamiento: nuevoNivel,
+        const updateData = {
+          estado: EstadoTicket.ESCALADO,
+          nivelEscalamiento: nuevoNivel,
+          fechaNivelActual: now,
+          tiempoPausadoNivel: 0,
+        };
+
+        const historial = this.buildHistorial(
+          ticket,
+          updateData,
+          OrigenCambio.SLA,
+          null,
+        );
+
+        // El agente actual se conserva si puede atender el nuevo nivel
+        const conservaAgente = Boolean(
+          ticket.agenteAsignado &&
+          puedeAtenderNivel(ticket.agenteAsignado.nivel, nuevoNivel),
+        );
+
+        const asignacion = conservaAgente
+          ? null
+          : await this.assignmentService.elegirAgente(
+              nuevoNivel,
+              ticket.habilidadesRequeridas.map((h) => h.id),
+              ticket.equipoId,
+            );
+
+        if (ticket.agenteAsignadoId && !conservaAgente) {
+          const causa = `El agente asignado no puede atender ${nuevoNivel}`;
+
+          historial.push({
+            ticketId: ticket.id,
+            ...(asignacion
+              ? this.buildHistorialAsignacion(ticket.agenteAsignadoId, {
+                  ...asignacion,
+                  motivo: `${causa}. ${asignacion.motivo}`,
+                })
+              : {
+                  campo: "agenteAsignadoId",
+                  valorAnterior: ticket.agenteAsignadoId,
+                  valorNuevo: null,
+                  origen: OrigenCambio.ASIGNACION_AUTOMATICA,
+                  motivo: `${causa}. Sin agentes disponibles, vuelve a la cola`,
+                }),
+          });
+        } else if (asignacion) {
+          historial.push({
+            ticketId: ticket.id,
+            ...this.buildHistorialAsignacion(null, asignacion),
+          });
+        }
+
+        await prisma.$transaction([
+          prisma.ticket.update({
+            where: { id: ticket.id },
+            data: {
+              ...updateData,
+              agenteAsignadoId: conservaAgente
+                ? undefined
+                : (asignacion?.agenteId ?? null),
+            },
+          }),
+          prisma.historialTicket.createMany({ data: historial }),
+        ]);
+
+        await this.logService.record({
+          accion: AccionLog.TICKET_ESCALADO,
+          entidad: EntidadLog.TICKET,
+          entidadId: ticket.id,
+          detalles: {
+            nivelAnterior: ticket.nivelEscalamiento,
+            nivelNuevo: nuevoNivel,
+            horasTranscurridas: Math.floor(horasTranscurridas),
+            slaHoras,
+            politicaId: objetivos.politicaId,
+            asignacion,
           },
         });
 
@@ -332,6 +843,313 @@ export class TicketService {
     };
   }
 
+  /**
+   * Ticket con sus relaciones, validando que el usuario pueda verlo.
+   */
+  private async findAccessibleTicket(
+    ticketId: string,
+    userId: string,
+    userRol: Rol,
+  ) {
+    const ticket = await prisma.ticket.findUnique({
+      where: { id: ticketId },
+      include: ticketInclude,
+    });
+
+    if (!ticket || ticket.deletedAt) {
+      throw new NotFoundError("Ticket no encontrado");
+    }
+
+    if (userRol !== Rol.ADMIN) {
+      const accesible = await prisma.ticket.count({
+        where: {
+          id: ticketId,
+          AND: [await this.getAlcance(userId, userRol)],
+        },
+      });
+
+      if (!accesible) {
+        throw new ForbiddenError("No tienes permiso para ver este ticket");
+      }
+    }
+
+    return ticket;
+  }
+
+  /**
+   * Filtro de tickets visibles según el rol:
+   * - ADMIN: todos.
+   * - SUPERVISOR: los de la cola de sus equipos o asignados a sus miembros,
+   *   y los que no pertenecen a ningún equipo (sin asignar o asignados a un
+   *   agente sin equipo) para que puedan enviarlos a una cola.
+   * - AGENTE: los asignados a él y la cola sin asignar de sus equipos.
+   */
+  private async getAlcance(
+    userId: string,
+    userRol: Rol,
+  ): Promise<Prisma.TicketWhereInput> {
+    if (userRol === Rol.SUPERVISOR) {
+      const supervisados = { supervisores: { some: { id: userId } } };
+
+      return {
+        OR: [
+          { equipo: supervisados },
+          { agenteAsignado: { equipos: { some: supervisados } } },
+          {
+            equipoId: null,
+            OR: [
+              { agenteAsignadoId: null },
+              { agenteAsignado: { equipos: { none: {} } } },
+            ],
+          },
+        ],
+      };
+    }
+
+    if (userRol === Rol.AGENTE) {
+      const agente = await prisma.agente.findUnique({
+        where: { usuarioId: userId },
+      });
+
+      if (!agente) {
+        throw new ForbiddenError("No tienes un perfil de agente asociado");
+      }
+
+      return {
+        OR: [
+          { agenteAsignadoId: agente.id },
+          {
+            agenteAsignadoId: null,
+            equipo: { agentes: { some: { id: agente.id } } },
+          },
+        ],
+      };
+    }
+
+    return {};
+  }
+
+  /**
+   * Respuesta pública del ticket: agrega el estado SLA y omite el calendario.
+   */
+  private toTicketResponse(
+    ticket: TicketConRelaciones,
+    politicas: PoliticaSla[],
+    now = new Date(),
+  ) {
+    const { calendario, ...cliente } = ticket.cliente;
+
+    return {
+      ...ticket,
+      cliente,
+      sla: this.calcularEstadoSla(
+        ticket,
+        this.getObjetivos(ticket, politicas),
+        now,
+      ),
+    };
+  }
+
+  /**
+   * Estado de los objetivos de primera respuesta y resolución.
+   * Ambos relojes corren desde la creación en tiempo laborable del cliente;
+   * el de resolución se detiene mientras el ticket está EN_ESPERA.
+   */
+  private calcularEstadoSla(
+    ticket: TicketConRelaciones,
+    objetivos: ObjetivosSla,
+    now: Date,
+  ): TicketSlaStatus {
+    const calendario = ticket.cliente.calendario;
+    const pausado = ticket.estado === EstadoTicket.EN_ESPERA;
+
+    // Si se resolvió sin respuesta previa, la resolución cuenta como respuesta
+    const fechaRespuesta =
+      ticket.fechaPrimeraRespuesta ?? ticket.fechaResolucion;
+    const primeraRespuesta = this.buildSlaTarget(
+      objetivos.minutosPrimeraRespuesta,
+      ticket.tiempoPrimeraRespuesta ??
+        minutosLaborables(
+          ticket.fechaCreacion,
+          fechaRespuesta ?? now,
+          calendario,
+        ),
+      fechaRespuesta !== null,
+    );
+
+    let consumidoResolucion = ticket.tiempoResolucion;
+
+    if (consumidoResolucion === null) {
+      const pausaActual =
+        pausado && ticket.fechaInicioPausa
+          ? minutosLaborables(ticket.fechaInicioPausa, now, calendario)
+          : 0;
+
+      consumidoResolucion = Math.max(
+        minutosLaborables(ticket.fechaCreacion, now, calendario) -
+          ticket.tiempoPausado -
+          pausaActual,
+        0,
+      );
+    }
+
+    const resolucion = this.buildSlaTarget(
+      Math.round(objetivos.horasResolucion * 60),
+      consumidoResolucion,
+      ticket.tiempoResolucion !== null,
+    );
+
+    const objetivosVencidos: SlaObjetivo[] = [];
+
+    if (primeraRespuesta.vencido) {
+      objetivosVencidos.push("PRIMERA_RESPUESTA");
+    }
+
+    if (resolucion.vencido) {
+      objetivosVencidos.push("RESOLUCION");
+    }
+
+    return {
+      politicaId: objetivos.politicaId,
+      primeraRespuesta,
+      resolucion,
+      pausado,
+      objetivosVencidos,
+    };
+  }
+
+  private buildSlaTarget(
+    objetivoMinutos: number,
+    consumidoMinutos: number,
+    completado: boolean,
+  ): SlaTargetStatus {
+    return {
+      objetivoMinutos,
+      consumidoMinutos,
+      restanteMinutos: Math.max(objetivoMinutos - consumidoMinutos, 0),
+      vencido: consumidoMinutos > objetivoMinutos,
+      completado,
+    };
+  }
+
+  /**
+   * Objetivos SLA del ticket según su cliente y prioridad.
+   */
+  private getObjetivos(
+    ticket: Pick<Ticket, "clienteId" | "prioridad"> & {
+      cliente: { tipo: TipoCliente };
+    },
+    politicas: PoliticaSla[],
+  ): ObjetivosSla {
+    return this.slaPolicyService.resolverObjetivos(politicas, {
+      clienteId: ticket.clienteId,
+      tipoCliente: ticket.cliente.tipo,
+      prioridad: ticket.prioridad,
+    });
+  }
+
+  /**
+   * Genera una entrada de historial por cada campo auditado que cambia.
+   * Los campos ausentes (undefined) en los datos nuevos no se consideran.
+   */
+  private buildHistorial(
+    actual: Pick<Ticket, "id" | CampoAuditado>,
+    nuevo: Partial<Record<CampoAuditado, string | null>>,
+    origen: OrigenCambio,
+    usuarioId: string | null,
+  ): Prisma.HistorialTicketCreateManyInput[] {
+    return CAMPOS_AUDITADOS.filter(
+      (campo) => nuevo[campo] !== undefined && nuevo[campo] !== actual[campo],
+    ).map((campo) => ({
+      ticketId: actual.id,
+      campo,
+      valorAnterior: actual[campo],
+      valorNuevo: nuevo[campo] ?? null,
+      origen,
+      usuarioId,
+    }));
+  }
+
+  /**
+   * El equipo debe existir. Un supervisor solo puede asignar tickets
+   * a los equipos que gestiona.
+   */
+  private async validateEquipo(equipoId: string, userId: string, userRol: Rol) {
+    const equipo = await prisma.equipo.findUnique({
+      where: { id: equipoId },
+      include: { supervisores: { select: { id: true } } },
+    });
+
+    if (!equipo) {
+      throw new NotFoundError("Equipo no encontrado");
+    }
+
+    if (
+      userRol === Rol.SUPERVISOR &&
+      !equipo.supervisores.some((s) => s.id === userId)
+    ) {
+      throw new ForbiddenError(
+        "Solo puedes asignar tickets a los equipos que gestionas",
+      );
+    }
+  }
+
+  /**
+   * Si el ticket está en la cola de un equipo, el agente debe ser miembro.
+   */
+  private validateEquipoAgente(
+    agente: { equipos: { id: string }[] },
+    equipoId: string | null,
+  ) {
+    if (equipoId && !agente.equipos.some((e) => e.id === equipoId)) {
+      throw new ValidationError("El agente no pertenece al equipo del ticket");
+    }
+  }
+
+  /**
+   * En modo OBLIGATORIA el agente debe tener todas las habilidades del ticket.
+   * En modo PREFERIDA la asignación manual no se restringe.
+   */
+  private async validateHabilidadesAgente(
+    agente: { habilidades: { id: string }[] },
+    habilidadIds: string[],
+  ) {
+    if (config.skillMatching !== "OBLIGATORIA") {
+      return;
+    }
+
+    const faltantes = habilidadesFaltantes(agente.habilidades, habilidadIds);
+
+    if (faltantes.length > 0) {
+      const habilidades = await prisma.habilidad.findMany({
+        where: { id: { in: faltantes } },
+        select: { nombre: true },
+      });
+
+      throw new ForbiddenError(
+        `El agente no tiene las habilidades requeridas: ${habilidades
+          .map((h) => h.nombre)
+          .join(", ")}`,
+      );
+    }
+  }
+
+  /**
+   * Entrada de historial para un agente elegido automáticamente.
+   */
+  private buildHistorialAsignacion(
+    agenteAnteriorId: string | null,
+    asignacion: AsignacionAutomatica,
+  ) {
+    return {
+      campo: "agenteAsignadoId",
+      valorAnterior: agenteAnteriorId,
+      valorNuevo: asignacion.agenteId,
+      origen: OrigenCambio.ASIGNACION_AUTOMATICA,
+      motivo: asignacion.motivo,
+    };
+  }
+
   /**
    * Valida que la transición de estado sea permitida.
    * Previene cambios ilógicos como CERRADO → ABIERTO.
@@ -341,13 +1159,24 @@ export class TicketService {
     nuevoEstado: EstadoTicket,
   ): void {
     const transicionesValidas: Record<EstadoTicket, EstadoTicket[]> = {
-      [EstadoTicket.ABIERTO]: [EstadoTicket.EN_PROGRESO, EstadoTicket.ESCALADO],
+      [EstadoTicket.ABIERTO]: [
+        EstadoTicket.EN_PROGRESO,
+        EstadoTicket.EN_ESPERA,
+        EstadoTicket.ESCALADO,
+      ],
       [EstadoTicket.EN_PROGRESO]: [
+        EstadoTicket.EN_ESPERA,
+        EstadoTicket.RESUELTO,
+        EstadoTicket.ESCALADO,
+      ],
+      [EstadoTicket.EN_ESPERA]: [
+        EstadoTicket.EN_PROGRESO,
         EstadoTicket.RESUELTO,
         EstadoTicket.ESCALADO,
       ],
       [EstadoTicket.ESCALADO]: [
         EstadoTicket.EN_PROGRESO,
+        EstadoTicket.EN_ESPERA,
         EstadoTicket.RESUELTO,
       ],
       [EstadoTicket.RESUELTO]: [EstadoTicket.CERRADO],
@@ -15,7 +15,12 @@ export class ClientController {
    * Crear un nuevo cliente.
    */
   createClient = async (req: AuthRequest, res: Response): Promise<void> => {
-    const client = await this.clientService.createClient(req.body);
+    const client = await this.clientService.createClient(
+      req.body,
+      req.user!.userId,
+      req.user!.rol,
+      req.apiKey?.id,
+    );
 
     logInfo("Cliente creado", {
       clientId: client.id,
@@ -74,7 +79,13 @@ export class ClientController {
       ? req.params.id[0]
       : req.params.id;
 
-    const client = await this.clientService.updateClient(clientId, req.body);
+    const client = await this.clientService.updateClient(
+      clientId,
+      req.body,
+      req.user!.userId,
+      req.user!.rol,
+      req.apiKey?.id,
+    );
 
     logInfo("Cliente actualizado", { clientId: client.id });
 
@@ -94,7 +105,11 @@ export class ClientController {
       ? req.params.id[0]
       : req.params.id;
 
-    await this.clientService.deleteClient(clientId);
+    await this.clientService.deleteClient(
+      clientId,
+      req.user!.userId,
+      req.user!.rol,
+    );
 
     logInfo("Cliente eliminado", { clientId });
 
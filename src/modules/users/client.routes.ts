@@ -3,14 +3,16 @@ import { ClientController } from "./client.controller";
 import { asyncHandler } from "../../shared/middleware/errorHandler";
 import {
   authenticate,
-  authorize,
+  authorizePermission,
+  requireScope,
 } from "../../shared/middleware/auth.middleware";
 import {
   validateCreateClient,
   validatePagination,
   validateUpdateClient,
 } from "../../shared/middleware/validation.middleware";
-import { Rol } from "@prisma/client";
+import { Permiso } from "../roles/permissions";
+import { ScopeApiKey } from "@prisma/client";
 
 const router = Router();
 const clientController = new ClientController();
@@ -22,11 +24,12 @@ router.use(authenticate);
 
 /**
  * POST /api/clients
- * Crear un nuevo cliente (solo ADMIN y SUPERVISOR).
+ * Crear un nuevo cliente.
  */
 router.post(
   "/",
-  authorize(Rol.ADMIN, Rol.SUPERVISOR),
+  authorizePermission(Permiso.CLIENT_CREATE),
+  requireScope(ScopeApiKey.CLIENTES_ESCRITURA),
   validateCreateClient,
   asyncHandler(clientController.createClient),
 );
@@ -35,32 +38,44 @@ router.post(
  * GET /api/clients
  * Listar clientes con paginación.
  */
-router.get("/", validatePagination, asyncHandler(clientController.getClients));
+router.get(
+  "/",
+  authorizePermission(Permiso.CLIENT_READ),
+  requireScope(ScopeApiKey.CLIENTES_LECTURA),
+  validatePagination,
+  asyncHandler(clientController.getClients),
+);
 
 /**
  * GET /api/clients/:id
  * Obtener un cliente por ID.
  */
-router.get("/:id", asyncHandler(clientController.getClientById));
+router.get(
+  "/:id",
+  authorizePermission(Permiso.CLIENT_READ),
+  requireScope(ScopeApiKey.CLIENTES_LECTURA),
+  asyncHandler(clientController.getClientById),
+);
 
 /**
  * PUT /api/clients/:id
- * Actualizar un cliente (solo ADMIN y SUPERVISOR).
+ * Actualizar un cliente.
  */
 router.put(
   "/:id",
-  authorize(Rol.ADMIN, Rol.SUPERVISOR),
+  authorizePermission(Permiso.CLIENT_UPDATE),
+  requireScope(ScopeApiKey.CLIENTES_ESCRITURA),
   validateUpdateClient,
   asyncHandler(clientController.updateClient),
 );
 
 /**
  * DELETE /api/clients/:id
- * Eliminar un cliente (solo ADMIN).
+ * Eliminar un cliente.
  */
 router.delete(
   "/:id",
-  authorize(Rol.ADMIN),
+  authorizePermission(Permiso.CLIENT_DELETE),
   asyncHandler(clientController.deleteClient),
 );
 
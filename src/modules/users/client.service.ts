@@ -4,7 +4,9 @@ import {
   ConflictError,
   PaginationParams,
 } from "../../shared/types";
-import { TipoCliente } from "@prisma/client";
+import { TipoCliente, Rol } from "@prisma/client";
+import { LogService } from "../logs/log.service";
+import { AccionLog, EntidadLog } from "../logs/log.model";
 
 interface CreateClientDto {
   nombre: string;
@@ -21,10 +23,21 @@ interface UpdateClientDto {
 }
 
 export class ClientService {
+  private logService: LogService;
+
+  constructor() {
+    this.logService = new LogService();
+  }
+
   /**
    * Crear un nuevo cliente.
    */
-  async createClient(data: CreateClientDto) {
+  async createClient(
+    data: CreateClientDto,
+    userId: string,
+    userRol: Rol,
+    apiKeyId?: string,
+  ) {
     // Verificar que el email no esté en uso
     const existingClient = await prisma.cliente.findUnique({
       where: { email: data.email },
@@ -43,6 +56,16 @@ export class ClientService {
       },
     });
 
+    await this.logService.record({
+      accion: AccionLog.CLIENTE_CREADO,
+      entidad: EntidadLog.CLIENTE,
+      entidadId: client.id,
+      actorId: userId,
+      actorRol: userRol,
+      apiKeyId,
+      detalles: { email: client.email, tipo: client.tipo },
+    });
+
     return client;
   }
 
@@ -113,7 +136,13 @@ export class ClientService {
   /**
    * Actualizar un cliente.
    */
-  async updateClient(clientId: string, data: UpdateClientDto) {
+  async updateClient(
+    clientId: string,
+    data: UpdateClientDto,
+    userId: string,
+    userRol: Rol,
+    apiKeyId?: string,
+  ) {
     const client = await prisma.cliente.findUnique({
       where: { id: clientId },
     });
@@ -143,6 +172,16 @@ export class ClientService {
       },
     });
 
+    await this.logService.record({
+      accion: AccionLog.CLIENTE_ACTUALIZADO,
+      entidad: EntidadLog.CLIENTE,
+      entidadId: clientId,
+      actorId: userId,
+      actorRol: userRol,
+      apiKeyId,
+      detalles: { campos: Object.keys(data) },
+    });
+
     return updatedClient;
   }
 
@@ -150,7 +189,7 @@ export class ClientService {
    * Eliminar un cliente.
    * Solo se puede eliminar si no tiene tickets asociados.
    */
-  async deleteClient(clientId: string) {
+  async deleteClient(clientId: string, userId: string, userRol: Rol) {
     const client = await prisma.cliente.findUnique({
       where: { id: clientId },
       include: {
@@ -175,5 +214,14 @@ export class ClientService {
     await prisma.cliente.delete({
       where: { id: clientId },
     });
+
+    await this.logService.record({
+      accion: AccionLog.CLIENTE_ELIMINADO,
+      entidad: EntidadLog.CLIENTE,
+      entidadId: clientId,
+      actorId: userId,
+      actorRol: userRol,
+      detalles: { email: client.email, nombre: client.nombre },
+    });
   }
 }
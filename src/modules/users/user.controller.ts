@@ -0,0 +1,295 @@
+import { Response } from "express";
+import { Rol } from "@prisma/client";
+import { AuthRequest } from "../../shared/types";
+import { UserService } from "./user.service";
+import { logInfo } from "../../config/logger.config";
+
+export class UserController {
+  private userService: UserService;
+
+  constructor() {
+    this.userService = new UserService();
+  }
+
+  /**
+   * GET /api/users
+   * Listar usuarios con filtros y paginación.
+   */
+  getUsers = async (req: AuthRequest, res: Response): Promise<void> => {
+    const filters = {
+      rol: req.query.rol as Rol | undefined,
+      activo:
+        req.query.activo !== undefined
+          ? req.query.activo === "true"
+          : undefined,
+      search: req.query.search as string | undefined,
+    };
+
+    const pagination = {
+      page: req.query.page ? Number(req.query.page) : 1,
+      pageSize: req.query.pageSize ? Number(req.query.pageSize) : 10,
+    };
+
+    const result = await this.userService.getUsers(filters, pagination);
+
+    res.json({
+      success: true,
+      ...result,
+    });
+  };
+
+  /**
+   * GET /api/users/:id
+   * Obtener un usuario por ID.
+   */
+  getUserById = async (req: AuthRequest, res: Response): Promise<void> => {
+    const userId = Array.isArray(req.params.id)
+      ? req.params.id[0]
+      : req.params.id;
+
+    const user = await this.userService.getUserById(userId);
+
+    res.json({
+      success: true,
+      data: user,
+    });
+  };
+
+  /**
+   * PUT /api/users/:id/role
+   * Cambiar el rol de un usuario.
+   */
+  updateRole = async (req: AuthRequest, res: Response): Promise<void> => {
+    const userId = Array.isArray(req.params.id)
+      ? req.params.id[0]
+      : req.params.id;
+
+    const user = await this.userService.updateRole(
+      userId,
+      req.body,
+      req.user!.userId,
+      req.user!.rol,
+    );
+
+    logInfo("Rol de usuario actualizado", {
+      userId,
+      rol: user.rol,
+      adminId: req.user!.userId,
+    });
+
+    res.json({
+      success: true,
+      message: "Rol actualizado exitosamente",
+      data: user,
+    });
+  };
+
+  /**
+   * PUT /api/users/:id/custom-role
+   * Asignar o quitar el rol personalizado de un usuario.
+   */
+  setCustomRole = async (req: AuthRequest, res: Response): Promise<void> => {
+    const userId = Array.isArray(req.params.id)
+      ? req.params.id[0]
+      : req.params.id;
+
+    const user = await this.userService.setCustomRole(
+      userId,
+      req.body,
+      req.user!.userId,
+      req.user!.rol,
+    );
+
+    logInfo("Rol personalizado de usuario actualizado", {
+      userId,
+      rolPersonalizadoId: req.body.rolPersonalizadoId,
+      adminId: req.user!.userId,
+    });
+
+    res.json({
+      success: true,
+      message: "Rol personalizado actualizado exitosamente",
+      data: user,
+    });
+  };
+
+  /**
+   * POST /api/users/:id/deactivate
+   * Desactivar una cuenta.
+   */
+  deactivateUser = async (req: AuthRequest, res: Response): Promise<void> => {
+    const userId = Array.isArray(req.params.id)
+      ? req.params.id[0]
+      : req.params.id;
+
+    const user = await this.userService.deactivateUser(
+      userId,
+      req.user!.userId,
+      req.user!.rol,
+    );
+
+    logInfo("Usuario desactivado", {
+      userId,
+      adminId: req.user!.userId,
+    });
+
+    res.json({
+      success: true,
+      message: "Usuario desactivado exitosamente",
+      data: user,
+    });
+  };
+
+  /**
+   * POST /api/users/:id/activate
+   * Reactivar una cuenta.
+   */
+  activateUser = async (req: AuthRequest, res: Response): Promise<void> => {
+    const userId = Array.isArray(req.params.id)
+      ? req.params.id[0]
+      : req.params.id;
+
+    const user = await this.userService.activateUser(
+      userId,
+      req.user!.userId,
+      req.user!.rol,
+    );
+
+    logInfo("Usuario activado", {
+      userId,
+      adminId: req.user!.userId,
+    });
+
+    res.json({
+      success: true,
+      message: "Usuario activado exitosamente",
+      data: user,
+    });
+  };
+
+  /**
+   * PUT /api/users/:id/password
+   * Definir una nueva contraseña para el usuario.
+   */
+  setPassword = async (req: AuthRequest, res: Response): Promise<void> => {
+    const userId = Array.isArray(req.params.id)
+      ? req.params.id[0]
+      : req.params.id;
+
+    await this.userService.setPassword(
+      userId,
+      req.body,
+      req.user!.userId,
+      req.user!.rol,
+    );
+
+    logInfo("Contraseña de usuario restablecida", {
+      userId,
+      adminId: req.user!.userId,
+    });
+
+    res.json({
+      success: true,
+      message: "Contraseña restablecida exitosamente",
+    });
+  };
+
+  /**
+   * GET /api/users/:id/sessions
+   * Listar las sesiones activas de un usuario.
+   */
+  getUserSessions = async (req: AuthRequest, res: Response): Promise<void> => {
+    const userId = Array.isArray(req.params.id)
+      ? req.params.id[0]
+      : req.params.id;
+
+    const sesiones = await this.userService.getUserSessions(userId);
+
+    res.json({
+      success: true,
+      data: sesiones,
+    });
+  };
+
+  /**
+   * DELETE /api/users/:id/sessions
+   * Forzar el cierre de todas las sesiones de un usuario.
+   */
+  forceLogout = async (req: AuthRequest, res: Response): Promise<void> => {
+    const userId = Array.isArray(req.params.id)
+      ? req.params.id[0]
+      : req.params.id;
+
+    const result = await this.userService.forceLogout(
+      userId,
+      req.user!.userId,
+      req.user!.rol,
+    );
+
+    logInfo("Sesiones de usuario revocadas", {
+      userId,
+      sesionesRevocadas: result.sesionesRevocadas,
+      adminId: req.user!.userId,
+    });
+
+    res.json({
+      success: true,
+      message: "Sesiones revocadas exitosamente",
+      data: result,
+    });
+  };
+
+  /**
+   * DELETE /api/users/:id/2fa
+   * Quitar la autenticación de dos factores de un usuario.
+   */
+  resetTwoFactor = async (req: AuthRequest, res: Response): Promise<void> => {
+    const userId = Array.isArray(req.params.id)
+      ? req.params.id[0]
+      : req.params.id;
+
+    const user = await this.userService.resetTwoFactor(
+      userId,
+      req.user!.userId,
+      req.user!.rol,
+    );
+
+    logInfo("2FA de usuario restablecido", {
+      userId,
+      adminId: req.user!.userId,
+    });
+
+    res.json({
+      success: true,
+      message: "Autenticación de dos factores restablecida",
+      data: user,
+    });
+  };
+
+  /**
+   * POST /api/users/:id/unlock
+   * Desbloquear una cuenta bloqueada por intentos de login fallidos.
+   */
+  unlockUser = async (req: AuthRequest, res: Response): Promise<void> => {
+    const userId = Array.isArray(req.params.id)
+      ? req.params.id[0]
+      : req.params.id;
+
+    const user = await this.userService.unlockUser(
+      userId,
+      req.user!.userId,
+      req.user!.rol,
+    );
+
+    logInfo("Usuario desbloqueado", {
+      userId,
+      adminId: req.user!.userId,
+    });
+
+    res.json({
+      success: true,
+      message: "Usuario desbloqueado",
+      data: user,
+    });
+  };
+}
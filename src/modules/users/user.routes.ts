@@ -0,0 +1,108 @@
+import { Router } from "express";
+import { UserController } from "./user.controller";
+import { asyncHandler } from "../../shared/middleware/errorHandler";
+import {
+  authenticate,
+  authorize,
+} from "../../shared/middleware/auth.middleware";
+import {
+  validatePagination,
+  validateUserFilters,
+  validateUpdateUserRole,
+  validateSetUserPassword,
+  validateSetUserCustomRole,
+} from "../../shared/middleware/validation.middleware";
+import { Rol } from "@prisma/client";
+
+const router = Router();
+const userController = new UserController();
+
+/**
+ * Todas las rutas requieren autenticación y rol ADMIN.
+ */
+router.use(authenticate, authorize(Rol.ADMIN));
+
+/**
+ * GET /api/users
+ * Listar usuarios (filtros: rol, activo, search).
+ */
+router.get(
+  "/",
+  validatePagination,
+  validateUserFilters,
+  asyncHandler(userController.getUsers),
+);
+
+/**
+ * GET /api/users/:id
+ * Obtener un usuario por ID.
+ */
+router.get("/:id", asyncHandler(userController.getUserById));
+
+/**
+ * PUT /api/users/:id/role
+ * Cambiar rol (crea o desactiva el perfil de agente).
+ */
+router.put(
+  "/:id/role",
+  validateUpdateUserRole,
+  asyncHandler(userController.updateRole),
+);
+
+/**
+ * PUT /api/users/:id/custom-role
+ * Asignar o quitar rol personalizado ({ "rolPersonalizadoId": "..." | null }).
+ */
+router.put(
+  "/:id/custom-role",
+  validateSetUserCustomRole,
+  asyncHandler(userController.setCustomRole),
+);
+
+/**
+ * POST /api/users/:id/deactivate
+ * Desactivar cuenta y revocar sus refresh tokens.
+ */
+router.post("/:id/deactivate", asyncHandler(userController.deactivateUser));
+
+/**
+ * POST /api/users/:id/activate
+ * Reactivar cuenta.
+ */
+router.post("/:id/activate", asyncHandler(userController.activateUser));
+
+/**
+ * PUT /api/users/:id/password
+ * Restablecer contraseña del usuario.
+ */
+router.put(
+  "/:id/password",
+  validateSetUserPassword,
+  asyncHandler(userController.setPassword),
+);
+
+/**
+ * GET /api/users/:id/sessions
+ * Listar sesiones activas del usuario.
+ */
+router.get("/:id/sessions", asyncHandler(userController.getUserSessions));
+
+/**
+ * DELETE /api/users/:id/sessions
+ * Forzar logout: revocar todas las sesiones del usuario.
+ */
+router.delete("/:id/sessions", asyncHandler(userController.forceLogout));
+
+/**
+ * DELETE /api/users/:id/2fa
+ * Quitar 2FA (dispositivo y códigos de recuperación perdidos).
+ */
+router.delete("/:id/2fa", asyncHandler(userController.resetTwoFactor));
+
+/**
+ * POST /api/users/:id/unlock
+ * Desbloquear cuenta bloqueada por intentos de login fallidos.
+ */
+router.post("/:id/unlock", asyncHandler(userController.unlockUser));
+
+export { router as userRoutes };
@@ -0,0 +1,512 @@
+import bcrypt from "bcrypt";
+import { prisma } from "../../config/database.config";
+import {
+  UserFilters,
+  UpdateUserRoleDto,
+  SetUserPasswordDto,
+  SetUserCustomRoleDto,
+  PaginationParams,
+  NotFoundError,
+  ValidationError,
+  ConflictError,
+} from "../../shared/types";
+import { Agente, Prisma, Rol, Usuario } from "@prisma/client";
+import { TicketService } from "../tickets/ticket.service";
+import { SessionService } from "../auth/session.service";
+import { TokenRevocationService } from "../auth/token-revocation.service";
+import { TwoFactorService } from "../auth/two-factor.service";
+import { LoginLockoutService } from "../auth/login-lockout.service";
+import { LogService } from "../logs/log.service";
+import { AccionLog, EntidadLog } from "../logs/log.model";
+
+/**
+ * Campos públicos del usuario: nunca se expone el hash de la contraseña.
+ */
+const usuarioSelect = {
+  id: true,
+  email: true,
+  nombre: true,
+  rol: true,
+  activo: true,
+  totpHabilitado: true,
+  rolPersonalizado: {
+    select: {
+      id: true,
+      nombre: true,
+    },
+  },
+  createdAt: true,
+  updatedAt: true,
+  agente: {
+    select: {
+      id: true,
+      nivel: true,
+      activo: true,
+    },
+  },
+} satisfies Prisma.UsuarioSelect;
+
+export class UserService {
+  private ticketService: TicketService;
+  private sessionService: SessionService;
+  private tokenRevocationService: TokenRevocationService;
+  private twoFactorService: TwoFactorService;
+  private loginLockoutService: LoginLockoutService;
+  private logService: LogService;
+
+  constructor() {
+    this.ticketService = new TicketService();
+    this.sessionService = new SessionService();
+    this.tokenRevocationService = new TokenRevocationService();
+    this.twoFactorService = new TwoFactorService();
+    this.loginLockoutService = new LoginLockoutService();
+    this.logService = new LogService();
+  }
+
+  /**
+   * Listar usuarios con filtros y paginación.
+   */
+  async getUsers(filters: UserFilters, pagination: PaginationParams) {
+    const page = pagination.page || 1;
+    const pageSize = Math.min(pagination.pageSize || 10, 100);
+    const skip = (page - 1) * pageSize;
+
+    const where: Prisma.UsuarioWhereInput = {};
+
+    if (filters.rol) {
+      where.rol = filters.rol;
+    }
+
+    if (filters.activo !== undefined) {
+      where.activo = filters.activo;
+    }
+
+    if (filters.search) {
+      where.OR = [
+        { nombre: { contains: filters.search, mode: "insensitive" } },
+        { email: { contains: filters.search, mode: "insensitive" } },
+      ];
+    }
+
+    const [users, totalItems] = await Promise.all([
+      prisma.usuario.findMany({
+        where,
+        skip,
+        take: pageSize,
+        select: usuarioSelect,
+        orderBy: {
+          createdAt: "desc",
+        },
+      }),
+      prisma.usuario.count({ where }),
+    ]);
+
+    const totalPages = Math.ceil(totalItems / pageSize);
+
+    return {
+      data: users,
+      pagination: {
+        page,
+        pageSize,
+        totalItems,
+        totalPages,
+        hasNextPage: page < totalPages,
+        hasPreviousPage: page > 1,
+      },
+    };
+  }
+
+  /**
+   * Obtener un usuario por ID. bloqueadoHasta indica el fin del bloqueo
+   * por intentos de login fallidos (null si no está bloqueado).
+   */
+  async getUserById(userId: string) {
+    const user = await prisma.usuario.findUnique({
+      where: { id: userId },
+      select: usuarioSelect,
+    });
+
+    if (!user) {
+      throw new NotFoundError("Usuario no encontrado");
+    }
+
+    const bloqueadoHasta = await this.loginLockoutService.getLockout(
+      user.email,
+    );
+
+    return { ...user, bloqueadoHasta };
+  }
+
+  /**
+   * Cambiar el rol de un usuario (ver applyRole).
+   */
+  async updateRole(
+    userId: string,
+    data: UpdateUserRoleDto,
+    adminId: string,
+    adminRol: Rol,
+  ) {
+    if (userId === adminId) {
+      throw new ValidationError("No puedes cambiar tu propio rol");
+    }
+
+    const user = await prisma.usuario.findUnique({
+      where: { id: userId },
+      include: { agente: true },
+    });
+
+    if (!user) {
+      throw new NotFoundError("Usuario no encontrado");
+    }
+
+    if (user.rol === data.rol) {
+      throw new ValidationError(`El usuario ya tiene el rol ${data.rol}`);
+    }
+
+    const reasignacion = await this.applyRole(user, data.rol, {
+      actorId: adminId,
+      actorRol: adminRol,
+    });
+
+    return { ...(await this.getUserById(userId)), reasignacion };
+  }
+
+  /**
+   * Aplicar un rol nuevo. Lo usan el cambio manual y la sincronización
+   * de grupos del SSO (sin actor, con origen OIDC).
+   * - Al pasar a AGENTE se crea su perfil de agente (o se reactiva el anterior).
+   * - Al dejar de ser AGENTE el perfil se desactiva y sus tickets abiertos
+   *   se reasignan; se conserva para no perder el historial.
+   * - Al dejar de ser SUPERVISOR deja de gestionar sus equipos.
+   * - Se quita su rol personalizado, que dependía del rol anterior.
+   * Sus access tokens vigentes (con el rol anterior) se revocan.
+   */
+  async applyRole(
+    user: Usuario & { agente: Agente | null },
+    rol: Rol,
+    actor: { actorId?: string; actorRol?: Rol; origen?: string },
+  ) {
+    await prisma.usuario.update({
+      where: { id: user.id },
+      data: {
+        rol,
+        rolPersonalizadoId: null,
+        equiposSupervisados:
+          user.rol === Rol.SUPERVISOR ? { set: [] } : undefined,
+      },
+    });
+
+    await this.tokenRevocationService.revokeUserTokens(user.id);
+
+    let reasignacion = null;
+
+    if (rol === Rol.AGENTE) {
+      await prisma.agente.upsert({
+        where: { usuarioId: user.id },
+        create: {
+          nombre: user.nombre,
+          email: user.email,
+          usuarioId: user.id,
+        },
+        update: {
+          nombre: user.nombre,
+          email: user.email,
+          activo: user.activo,
+        },
+      });
+    } else if (user.agente?.activo) {
+      reasignacion = await this.desactivarPerfilAgente(
+        user.agente.id,
+        `Usuario ${user.nombre} dejó de ser agente`,
+      );
+    }
+
+    await this.logService.record({
+      accion: AccionLog.USUARIO_ROL_ACTUALIZADO,
+      entidad: EntidadLog.USUARIO,
+      entidadId: user.id,
+      actorId: actor.actorId,
+      actorRol: actor.actorRol,
+      detalles: {
+        rolAnterior: user.rol,
+        rolNuevo: rol,
+        origen: actor.origen,
+        reasignacion,
+      },
+    });
+
+    return reasignacion;
+  }
+
+  /**
+   * Desactivar una cuenta: no puede iniciar sesión, se revocan sus
+   * tokens y, si es agente, sus tickets abiertos se reasignan.
+   */
+  async deactivateUser(userId: string, adminId: string, adminRol: Rol) {
+    if (userId === adminId) {
+      throw new ValidationError("No puedes desactivar tu propia cuenta");
+    }
+
+    const user = await prisma.usuario.findUnique({
+      where: { id: userId },
+      include: { agente: true },
+    });
+
+    if (!user) {
+      throw new NotFoundError("Usuario no encontrado");
+    }
+
+    if (!user.activo) {
+      throw new ConflictError("El usuario ya está inactivo");
+    }
+
+    const [, tokensRevocados] = await prisma.$transaction([
+      prisma.usuario.update({
+        where: { id: userId },
+        data: { activo: false },
+      }),
+      prisma.refreshToken.deleteMany({
+        where: { usuarioId: userId },
+      }),
+    ]);
+
+    await this.tokenRevocationService.revokeUserTokens(userId);
+
+    const reasignacion = user.agente?.activo
+      ? await this.desactivarPerfilAgente(
+          user.agente.id,
+          `Usuario ${user.nombre} desactivado`,
+        )
+      : null;
+
+    await this.logService.record({
+      accion: AccionLog.USUARIO_DESACTIVADO,
+      entidad: EntidadLog.USUARIO,
+      entidadId: userId,
+      actorId: adminId,
+      actorRol: adminRol,
+      detalles: {
+        tokensRevocados: tokensRevocados.count,
+        reasignacion,
+      },
+    });
+
+    return { ...(await this.getUserById(userId)), reasignacion };
+  }
+
+  /**
+   * Reactivar una cuenta. Si es AGENTE, su perfil vuelve a recibir tickets.
+   */
+  async activateUser(userId: string, adminId: string, adminRol: Rol) {
+    const user = await prisma.usuario.findUnique({
+      where: { id: userId },
+      include: { agente: true },
+    });
+
+    if (!user) {
+      throw new NotFoundError("Usuario no encontrado");
+    }
+
+    if (user.activo) {
+      throw new ConflictError("El usuario ya está activo");
+    }
+
+    await prisma.usuario.update({
+      where: { id: userId },
+      data: {
+        activo: true,
+        agente:
+          user.rol === Rol.AGENTE && user.agente
+            ? { update: { activo: true } }
+            : undefined,
+      },
+    });
+
+    await this.logService.record({
+      accion: AccionLog.USUARIO_ACTIVADO,
+      entidad: EntidadLog.USUARIO,
+      entidadId: userId,
+      actorId: adminId,
+      actorRol: adminRol,
+    });
+
+    return this.getUserById(userId);
+  }
+
+  /**
+   * Definir una nueva contraseña para un usuario.
+   * Se revocan sus tokens para cerrar las sesiones abiertas y se anulan
+   * los enlaces de recuperación pendientes.
+   */
+  async setPassword(
+    userId: string,
+    data: SetUserPasswordDto,
+    adminId: string,
+    adminRol: Rol,
+  ) {
+    const user = await prisma.usuario.findUnique({
+      where: { id: userId },
+    });
+
+    if (!user) {
+      throw new NotFoundError("Usuario no encontrado");
+    }
+
+    const hashedPassword = await bcrypt.hash(data.password, 10);
+
+    await prisma.$transaction([
+      prisma.usuario.update({
+        where: { id: userId },
+        data: { password: hashedPassword },
+      }),
+      prisma.refreshToken.deleteMany({
+        where: { usuarioId: userId },
+      }),
+      prisma.passwordResetToken.deleteMany({
+        where: { usuarioId: userId, usedAt: null },
+      }),
+    ]);
+
+    await this.tokenRevocationService.revokeUserTokens(userId);
+
+    await this.logService.record({
+      accion: AccionLog.USUARIO_PASSWORD_RESTABLECIDA,
+      entidad: EntidadLog.USUARIO,
+      entidadId: userId,
+      actorId: adminId,
+      actorRol: adminRol,
+    });
+  }
+
+  /**
+   * Listar las sesiones activas de un usuario.
+   */
+  async getUserSessions(userId: string) {
+    await this.getUserById(userId);
+
+    return this.sessionService.getSessions(userId);
+  }
+
+  /**
+   * Forzar el cierre de todas las sesiones de un usuario.
+   */
+  async forceLogout(userId: string, adminId: string, adminRol: Rol) {
+    await this.getUserById(userId);
+
+    const sesionesRevocadas = await this.sessionService.revokeAllSessions(
+      userId,
+      adminId,
+      adminRol,
+    );
+
+    return { sesionesRevocadas };
+  }
+
+  /**
+   * Quitar la autenticación de dos factores de un usuario.
+   */
+  async resetTwoFactor(userId: string, adminId: string, adminRol: Rol) {
+    await this.twoFactorService.reset(userId, adminId, adminRol);
+
+    return this.getUserById(userId);
+  }
+
+  /**
+   * Asignar un rol personalizado (o quitarlo con null). Debe tener como
+   * rol base el rol actual del usuario. Sus access tokens se revocan.
+   */
+  async setCustomRole(
+    userId: string,
+    data: SetUserCustomRoleDto,
+    adminId: string,
+    adminRol: Rol,
+  ) {
+    const user = await prisma.usuario.findUnique({
+      where: { id: userId },
+      include: { rolPersonalizado: true },
+    });
+
+    if (!user) {
+      throw new NotFoundError("Usuario no encontrado");
+    }
+
+    if (data.rolPersonalizadoId) {
+      const rolPersonalizado = await prisma.rolPermisos.findUnique({
+        where: { id: data.rolPersonalizadoId },
+      });
+
+      if (!rolPersonalizado) {
+        throw new NotFoundError("Rol no encontrado");
+      }
+
+      if (rolPersonalizado.sistema) {
+        throw new ValidationError(
+          "Los roles del sistema se asignan con PUT /api/users/:id/role",
+        );
+      }
+
+      if (rolPersonalizado.rolBase !== user.rol) {
+        throw new ValidationError(
+          `El rol ${rolPersonalizado.nombre} requiere el rol base ${rolPersonalizado.rolBase}`,
+        );
+      }
+    }
+
+    await prisma.usuario.update({
+      where: { id: userId },
+      data: { rolPersonalizadoId: data.rolPersonalizadoId },
+    });
+
+    await this.tokenRevocationService.revokeUserTokens(userId);
+
+    await this.logService.record({
+      accion: AccionLog.USUARIO_ROL_PERSONALIZADO_ACTUALIZADO,
+      entidad: EntidadLog.USUARIO,
+      entidadId: userId,
+      actorId: adminId,
+      actorRol: adminRol,
+      detalles: {
+        rolAnterior: user.rolPersonalizado?.nombre ?? null,
+        rolNuevoId: data.rolPersonalizadoId,
+      },
+    });
+
+    return this.getUserById(userId);
+  }
+
+  /**
+   * Desbloquear una cuenta bloqueada por intentos de login fallidos.
+   */
+  async unlockUser(userId: string, adminId: string, adminRol: Rol) {
+    const user = await this.getUserById(userId);
+
+    const desbloqueado = await this.loginLockoutService.unlock(user.email);
+
+    if (!desbloqueado) {
+      throw new ConflictError("El usuario no está bloqueado");
+    }
+
+    await this.logService.record({
+      accion: AccionLog.USUARIO_DESBLOQUEADO,
+      entidad: EntidadLog.USUARIO,
+      entidadId: userId,
+      actorId: adminId,
+      actorRol: adminRol,
+      detalles: { bloqueadoHasta: user.bloqueadoHasta },
+    });
+
+    return { ...user, bloqueadoHasta: null };
+  }
+
+  /**
+   * Desactiva el perfil de agente y reasigna sus tickets abiertos.
+   */
+  private async desactivarPerfilAgente(agenteId: string, causa: string) {
+    await prisma.agente.update({
+      where: { id: agenteId },
+      data: { activo: false },
+    });
+
+    return this.ticketService.reasignarTicketsDeAgente(agenteId, causa);
+  }
+}
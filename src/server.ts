@@ -18,7 +18,16 @@ import {
 import { authRoutes } from "./modules/auth/auth.routes";
 import { ticketRoutes } from "./modules/tickets/ticket.routes";
 import { clientRoutes } from "./modules/users/client.routes";
-// import { logRoutes } from "./modules/logs/log.routes";
+import { userRoutes } from "./modules/users/user.routes";
+import { logRoutes } from "./modules/logs/log.routes";
+import { slaRoutes } from "./modules/sla/sla.routes";
+import { skillRoutes } from "./modules/agents/skill.routes";
+import { agentRoutes } from "./modules/agents/agent.routes";
+import { teamRoutes } from "./modules/teams/team.routes";
+import { apiKeyRoutes } from "./modules/auth/api-key.routes";
+import { roleRoutes } from "./modules/roles/role.routes";
+import { SlaService } from "./modules/sla/sla.service";
+import { AvailabilityService } from "./modules/agents/availability.service";
 
 const app = express();
 
@@ -51,11 +60,17 @@ app.get("/health", (req, res) => {
   });
 });
 
-// TODO: Descomentar cuando se creen los módulos
 app.use("/api/auth", authRoutes);
 app.use("/api/tickets", ticketRoutes);
 app.use("/api/clients", clientRoutes);
-// app.use("/api/logs", logRoutes);
+app.use("/api/users", userRoutes);
+app.use("/api/logs", logRoutes);
+app.use("/api/sla", slaRoutes);
+app.use("/api/skills", skillRoutes);
+app.use("/api/agents", agentRoutes);
+app.use("/api/teams", teamRoutes);
+app.use("/api/api-keys", apiKeyRoutes);
+app.use("/api/roles", roleRoutes);
 
 // 404 para rutas no encontradas
 app.use((req, res) => {
@@ -90,6 +105,8 @@ const startServer = async (): Promise<void> => {
   try {
     validateConfig();
     await connectDatabases();
+    await new SlaService().startScheduler();
+    new AvailabilityService().startWorker();
 
     app.listen(config.port, () => {
       logger.info("Servidor iniciado", {
@@ -0,0 +1,121 @@
+import { Request, Response } from "express";
+import { Rol, ScopeApiKey } from "@prisma/client";
+import { AuthRequest } from "../types";
+import { denyApiKey, requireScope } from "./auth.middleware";
+import { asyncHandler } from "./errorHandler";
+
+const res = {} as Response;
+
+// AppError fija su prototipo, así que los errores se distinguen por statusCode
+const noAutenticado = expect.objectContaining({ statusCode: 401 });
+const prohibido = expect.objectContaining({ statusCode: 403 });
+
+const usuario = {
+  userId: "usuario-servicio",
+  email: "monitoreo@techsupport.com",
+  rol: Rol.AGENTE,
+};
+
+const peticionJwt = (): AuthRequest => ({ user: usuario }) as AuthRequest;
+
+const peticionApiKey = (...scopes: ScopeApiKey[]): AuthRequest =>
+  ({
+    user: usuario,
+    apiKey: { id: "api-key", scopes, scopeVerificado: false },
+  }) as AuthRequest;
+
+describe("requireScope", () => {
+  const middleware = requireScope(
+    ScopeApiKey.TICKETS_LECTURA,
+    ScopeApiKey.TICKETS_CREAR,
+  );
+
+  it("no afecta a los usuarios autenticados con JWT", () => {
+    const next = jest.fn();
+
+    middleware(peticionJwt(), res, next);
+
+    expect(next).toHaveBeenCalledWith();
+  });
+
+  it("exige un usuario autenticado", () => {
+    expect(() => middleware({} as AuthRequest, res, jest.fn())).toThrow(
+      noAutenticado,
+    );
+  });
+
+  it("acepta la API key con alguno de los scopes y la marca verificada", () => {
+    const req = peticionApiKey(ScopeApiKey.TICKETS_CREAR);
+    const next = jest.fn();
+
+    middleware(req, res, next);
+
+    expect(next).toHaveBeenCalledWith();
+    expect(req.apiKey!.scopeVerificado).toBe(true);
+  });
+
+  it("rechaza la API key sin ninguno de los scopes", () => {
+    const req = peticionApiKey(
+      ScopeApiKey.CLIENTES_LECTURA,
+      ScopeApiKey.TICKETS_COMENTAR,
+    );
+    const next = jest.fn();
+
+    expect(() => middleware(req, res, next)).toThrow(prohibido);
+    expect(next).not.toHaveBeenCalled();
+    expect(req.apiKey!.scopeVerificado).toBe(false);
+  });
+});
+
+describe("denyApiKey", () => {
+  it("deja pasar a los usuarios autenticados con JWT", () => {
+    const next = jest.fn();
+
+    denyApiKey(peticionJwt(), res, next);
+
+    expect(next).toHaveBeenCalledWith();
+  });
+
+  it("rechaza las API keys aunque tengan todos los scopes", () => {
+    const req = peticionApiKey(...Object.values(ScopeApiKey));
+
+    expect(() => denyApiKey(req, res, jest.fn())).toThrow(prohibido);
+  });
+});
+
+describe("asyncHandler con API keys", () => {
+  const ejecutar = async (req: AuthRequest) => {
+    const handler = jest.fn().mockResolvedValue(undefined);
+    const next = jest.fn();
+
+    asyncHandler(handler)(req as Request, res, next);
+    await Promise.resolve();
+
+    return { handler, next };
+  };
+
+  it("rechaza la API key en una ruta sin requireScope", async () => {
+    const { handler, next } = await ejecutar(
+      peticionApiKey(ScopeApiKey.TICKETS_LECTURA),
+    );
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(next).toHaveBeenCalledWith(prohibido);
+  });
+
+  it("ejecuta el handler si requireScope verificó la key", async () => {
+    const req = peticionApiKey(ScopeApiKey.TICKETS_LECTURA);
+    requireScope(ScopeApiKey.TICKETS_LECTURA)(req, res, jest.fn());
+
+    const { handler, next } = await ejecutar(req);
+
+    expect(handler).toHaveBeenCalledWith(req, res, next);
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it("ejecuta el handler para usuarios autenticados con JWT", async () => {
+    const { handler } = await ejecutar(peticionJwt());
+
+    expect(handler).toHaveBeenCalled();
+  });
+});
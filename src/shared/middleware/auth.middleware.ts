@@ -7,34 +7,54 @@ import {
   UnauthorizedError,
   ForbiddenError,
 } from "../types";
-import { Rol } from "@prisma/client";
+import { Rol, ScopeApiKey } from "@prisma/client";
+import { TokenRevocationService } from "../../modules/auth/token-revocation.service";
+import { ApiKeyService } from "../../modules/auth/api-key.service";
+import { PermissionService } from "../../modules/roles/permission.service";
+import { Permiso } from "../../modules/roles/permissions";
+
+const tokenRevocationService = new TokenRevocationService();
+const apiKeyService = new ApiKeyService();
+const permissionService = new PermissionService();
 
 /**
- * Verifica que el token JWT en el header Authorization sea válido
- * y decodifica el usuario en req.user para uso de los handlers.
+ * Verifica que el token JWT en el header Authorization sea válido y
+ * no esté revocado, y decodifica el usuario en req.user para uso de
+ * los handlers.
+ *
+ * Alternativamente acepta una API key en el header X-API-Key: req.user
+ * es el usuario de la key y req.apiKey sus scopes (ver requireScope).
  */
-export const authenticate = (
+export const authenticate = async (
   req: AuthRequest,
   res: Response,
   next: NextFunction,
-): void => {
-  try {
-    const authHeader = req.headers.authorization;
+): Promise<void> => {
+  const authHeader = req.headers.authorization;
+  const apiKeyHeader = req.get("x-api-key");
 
-    if (!authHeader || !authHeader.startsWith("Bearer ")) {
-      throw new UnauthorizedError("Token de autenticación requerido");
-    }
-
-    const token = authHeader.split(" ")[1];
-    const decoded = jwt.verify(token, config.jwtSecret) as JwtPayload;
+  if (apiKeyHeader && !authHeader) {
+    const { payload, apiKey } = await apiKeyService.authenticate(
+      apiKeyHeader,
+      req.ip,
+    );
 
-    req.user = decoded;
+    req.user = payload;
+    req.apiKey = apiKey;
     next();
-  } catch (error) {
-    if (error instanceof UnauthorizedError) {
-      throw error;
-    }
+    return;
+  }
+
+  if (!authHeader || !authHeader.startsWith("Bearer ")) {
+    throw new UnauthorizedError("Token de autenticación requerido");
+  }
 
+  const token = authHeader.split(" ")[1];
+  let decoded: JwtPayload;
+
+  try {
+    decoded = jwt.verify(token, config.jwtSecret) as JwtPayload;
+  } catch (error) {
     if (error instanceof jwt.TokenExpiredError) {
       throw new UnauthorizedError(
         "Token expirado. Por favor haz login de nuevo",
@@ -47,6 +67,13 @@ export const authenticate = (
 
     throw new UnauthorizedError("Error de autenticación");
   }
+
+  if (await tokenRevocationService.isRevoked(decoded)) {
+    throw new UnauthorizedError("Token revocado. Por favor haz login de nuevo");
+  }
+
+  req.user = decoded;
+  next();
 };
 
 /**
@@ -71,6 +98,81 @@ export const authorize = (...allowedRoles: Rol[]) => {
   };
 };
 
+/**
+ * Verifica que el usuario tenga todos los permisos indicados según la
+ * tabla de permisos de su rol (o de su rol personalizado).
+ *
+ * Uso:
+ *   router.delete('/:id', authenticate, authorizePermission(Permiso.TICKET_DELETE), handler);
+ */
+export const authorizePermission = (...permisos: Permiso[]) => {
+  return async (
+    req: AuthRequest,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    if (!req.user) {
+      throw new UnauthorizedError("Usuario no autenticado");
+    }
+
+    if (!(await permissionService.hasPermisos(req.user, permisos))) {
+      throw new ForbiddenError(
+        `Acceso denegado. Se requiere el permiso: ${permisos.join(", ")}`,
+      );
+    }
+
+    next();
+  };
+};
+
+/**
+ * Habilita la ruta para API keys con alguno de los scopes indicados.
+ * No afecta a los usuarios autenticados con JWT; las rutas sin
+ * requireScope rechazan las API keys (ver asyncHandler).
+ *
+ * Uso:
+ *   router.post('/', requireScope(ScopeApiKey.TICKETS_CREAR), handler);
+ */
+export const requireScope = (...scopes: ScopeApiKey[]) => {
+  return (req: AuthRequest, res: Response, next: NextFunction): void => {
+    if (!req.user) {
+      throw new UnauthorizedError("Usuario no autenticado");
+    }
+
+    if (req.apiKey) {
+      if (!scopes.some((scope) => req.apiKey!.scopes.includes(scope))) {
+        throw new ForbiddenError(
+          `La API key no tiene permiso para esta operación. Se requiere uno de los siguientes scopes: ${scopes.join(", ")}`,
+        );
+      }
+
+      req.apiKey.scopeVerificado = true;
+    }
+
+    next();
+  };
+};
+
+/**
+ * Rechaza las API keys antes de middlewares con efectos, como la subida
+ * de archivos: el rechazo por omisión de asyncHandler llega recién al
+ * handler final.
+ *
+ * Uso:
+ *   router.post('/:id/attachments', denyApiKey, uploadAttachment, handler);
+ */
+export const denyApiKey = (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction,
+): void => {
+  if (req.apiKey) {
+    throw new ForbiddenError("Esta operación no está disponible con API key");
+  }
+
+  next();
+};
+
 /**
  * Admin y Supervisor pueden acceder a todos los tickets.
  * Agentes solo ven tickets asignados a ellos (filtrado en el servicio).
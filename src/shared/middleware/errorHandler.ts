@@ -1,5 +1,7 @@
+import fs from "fs";
 import { Request, Response, NextFunction } from "express";
-import { AppError } from "../types";
+import multer from "multer";
+import { AppError, AuthRequest, ForbiddenError } from "../types";
 import { logger } from "../../config/logger.config";
 import { config } from "../../config/env.config";
 
@@ -13,6 +15,12 @@ export const errorHandler = (
   // aunque no lo usemos explícitamente
   next: NextFunction, // eslint-disable-line @typescript-eslint/no-unused-vars
 ): void => {
+  // Un archivo ya subido no debe quedar en disco si la petición falla
+  // (si el servicio ya lo eliminó, el error de unlink se ignora)
+  if (req.file) {
+    fs.unlink(req.file.path, () => undefined);
+  }
+
   if (error instanceof AppError) {
     logger.error(`[AppError] ${error.message}`, {
       statusCode: error.statusCode,
@@ -40,6 +48,27 @@ export const errorHandler = (
     return;
   }
 
+  if (error instanceof multer.MulterError) {
+    logger.warn(`[MulterError] ${error.code}`, {
+      url: req.originalUrl,
+      method: req.method,
+    });
+
+    if (error.code === "LIMIT_FILE_SIZE") {
+      res.status(413).json({
+        success: false,
+        message: `El archivo excede el tamaño máximo de ${config.maxFileSizeMB} MB`,
+      });
+      return;
+    }
+
+    res.status(400).json({
+      success: false,
+      message: `Error al subir el archivo: ${error.message}`,
+    });
+    return;
+  }
+
   if (error.name === "PrismaClientKnownRequestError") {
     const prismaError = error as { code?: string };
 
@@ -88,11 +117,22 @@ export const errorHandler = (
  * Wrapper para handlers async.
  * Express no captura errores de funciones async automáticamente,
  * así que este wrapper los captura y los envía al errorHandler.
+ *
+ * Además rechaza las API keys en las rutas que no declaran requireScope:
+ * al pasar por todos los handlers, ninguna ruta nueva queda expuesta
+ * a las API keys por omisión.
  */
 export const asyncHandler = (
   fn: (req: Request, res: Response, next: NextFunction) => Promise<void>,
 ) => {
   return (req: Request, res: Response, next: NextFunction): void => {
+    const { apiKey } = req as AuthRequest;
+
+    if (apiKey && !apiKey.scopeVerificado) {
+      next(new ForbiddenError("Esta operación no está disponible con API key"));
+      return;
+    }
+
     fn(req, res, next).catch(next);
   };
 };
@@ -28,7 +28,7 @@ export const authRateLimiter = rateLimit({
   legacyHeaders: false,
   message: {
     success: false,
-    message: "Demasiados intentos de login. Por favor espera un minuto",
+    message: "Demasiados intentos de autenticación. Por favor espera un minuto",
   },
 });
 
@@ -0,0 +1,163 @@
+import fs from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import multer from "multer";
+import { config } from "../../config/env.config";
+import { ValidationError } from "../types";
+
+/**
+ * Tipos MIME aceptados para adjuntos de tickets y las extensiones válidas
+ * para cada uno. Documentos, imágenes y archivos comprimidos habituales
+ * en soporte.
+ */
+const EXTENSIONES_POR_TIPO: Record<string, string[]> = {
+  "image/png": [".png"],
+  "image/jpeg": [".jpg", ".jpeg"],
+  "image/gif": [".gif"],
+  "image/webp": [".webp"],
+  "application/pdf": [".pdf"],
+  "text/plain": [".txt", ".log"],
+  "text/csv": [".csv"],
+  "application/json": [".json"],
+  "application/zip": [".zip"],
+  "application/msword": [".doc"],
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": [
+    ".docx",
+  ],
+  "application/vnd.ms-excel": [".xls"],
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": [
+    ".xlsx",
+  ],
+};
+
+export const ALLOWED_MIME_TYPES = Object.keys(EXTENSIONES_POR_TIPO);
+
+const empiezaCon = (
+  cabecera: Buffer,
+  firma: number[] | string,
+  offset: number = 0,
+): boolean => {
+  const bytes =
+    typeof firma === "string"
+      ? Buffer.from(firma, "latin1")
+      : Buffer.from(firma);
+  return bytes.equals(cabecera.subarray(offset, offset + bytes.length));
+};
+
+const esZip = (cabecera: Buffer) =>
+  empiezaCon(cabecera, [0x50, 0x4b, 0x03, 0x04]) ||
+  empiezaCon(cabecera, [0x50, 0x4b, 0x05, 0x06]);
+
+const esOle = (cabecera: Buffer) =>
+  empiezaCon(cabecera, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]);
+
+// Texto plano: sin bytes nulos y sin marcado (HTML, SVG, XML) al inicio
+const esTextoPlano = (cabecera: Buffer) => {
+  const texto = cabecera
+    .toString("utf8")
+    .replace(/^\uFEFF/, "")
+    .trimStart();
+  return !cabecera.includes(0) && !texto.startsWith("<");
+};
+
+/**
+ * Firma (magic bytes) esperada al inicio del archivo para cada tipo.
+ */
+const FIRMAS_POR_TIPO: Record<string, (cabecera: Buffer) => boolean> = {
+  "image/png": (c) =>
+    empiezaCon(c, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+  "image/jpeg": (c) => empiezaCon(c, [0xff, 0xd8, 0xff]),
+  "image/gif": (c) => empiezaCon(c, "GIF87a") || empiezaCon(c, "GIF89a"),
+  "image/webp": (c) => empiezaCon(c, "RIFF") && empiezaCon(c, "WEBP", 8),
+  "application/pdf": (c) => empiezaCon(c, "%PDF-"),
+  "text/plain": esTextoPlano,
+  "text/csv": esTextoPlano,
+  "application/json": esTextoPlano,
+  "application/zip": esZip,
+  "application/msword": esOle,
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document":
+    esZip,
+  "application/vnd.ms-excel": esOle,
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": esZip,
+};
+
+const LARGO_CABECERA = 512;
+
+/**
+ * Ruta absoluta del directorio de subida configurado en UPLOAD_DIR.
+ */
+export const uploadDirectory = path.resolve(config.uploadDir);
+
+/**
+ * Almacenamiento en disco local.
+ * El nombre en disco es un UUID para evitar colisiones y path traversal;
+ * el nombre original se conserva solo en la base de datos.
+ */
+const storage = multer.diskStorage({
+  destination: (_req, _file, cb) => {
+    fs.mkdir(uploadDirectory, { recursive: true }, (error) => {
+      cb(error ?? null, uploadDirectory);
+    });
+  },
+  filename: (_req, file, cb) => {
+    const extension = path.extname(file.originalname).toLowerCase();
+    cb(null, `${randomUUID()}${extension}`);
+  },
+});
+
+/**
+ * Middleware de subida de un único archivo en el campo "archivo".
+ * Aplica el límite MAX_FILE_SIZE_MB, la lista de tipos MIME permitidos y
+ * exige que la extensión corresponda al tipo declarado. El contenido se
+ * revisa después con verificarContenidoAdjunto.
+ */
+export const uploadAttachment = multer({
+  storage,
+  limits: {
+    fileSize: config.maxFileSizeMB * 1024 * 1024,
+    files: 1,
+  },
+  fileFilter: (_req, file, cb) => {
+    if (!ALLOWED_MIME_TYPES.includes(file.mimetype)) {
+      cb(new ValidationError(`Tipo de archivo no permitido: ${file.mimetype}`));
+      return;
+    }
+
+    const extension = path.extname(file.originalname).toLowerCase();
+
+    if (!EXTENSIONES_POR_TIPO[file.mimetype].includes(extension)) {
+      cb(
+        new ValidationError(
+          `La extensión del archivo no corresponde al tipo ${file.mimetype}`,
+        ),
+      );
+      return;
+    }
+
+    cb(null, true);
+  },
+}).single("archivo");
+
+/**
+ * Verificar que el contenido del archivo guardado corresponda al tipo
+ * declarado por el cliente (magic bytes). Evita, por ejemplo, un HTML o
+ * SVG subido como image/png.
+ */
+export const verificarContenidoAdjunto = async (
+  file: Express.Multer.File,
+): Promise<void> => {
+  const archivo = await fs.promises.open(file.path, "r");
+
+  try {
+    const cabecera = Buffer.alloc(LARGO_CABECERA);
+    const { bytesRead } = await archivo.read(cabecera, 0, LARGO_CABECERA, 0);
+
+    if (!FIRMAS_POR_TIPO[file.mimetype](cabecera.subarray(0, bytesRead))) {
+      throw new ValidationError(
+        `El contenido del archivo no corresponde al tipo ${file.mimetype}`,
+      );
+    }
+  } finally {
+    await archivo.close();
+  }
+};
@@ -1,5 +1,9 @@
 import { Request, Response, NextFunction } from "express";
 import { ValidationError } from "../types";
+import { AccionLog, EntidadLog } from "../../modules/logs/log.model";
+import { ResultadoLogin } from "../../modules/logs/login-attempt.model";
+import { Permiso } from "../../modules/roles/permissions";
+import { isValidTimeZone } from "../../modules/sla/calendar.utils";
 
 /**
  * Middleware de Validación de Inputs
@@ -45,6 +49,16 @@ const isValidUUID = (value: string): boolean => {
   return uuidRegex.test(value);
 };
 
+/**
+ * Validar que un valor sea un arreglo de UUIDs (puede estar vacío)
+ */
+const isValidUUIDArray = (value: unknown): value is string[] => {
+  return (
+    Array.isArray(value) &&
+    value.every((id) => typeof id === "string" && isValidUUID(id))
+  );
+};
+
 /**
  * Validar que un string sea una fecha ISO válida
  */
@@ -53,6 +67,16 @@ const isValidDate = (value: string): boolean => {
   return !isNaN(date.getTime());
 };
 
+/**
+ * Validar una hora en formato HH:mm (24 horas, "24:00" como fin de día)
+ */
+const isValidHour = (value: string): boolean => {
+  return (
+    typeof value === "string" &&
+    /^(([01]\d|2[0-3]):[0-5]\d|24:00)$/.test(value)
+  );
+};
+
 /**
  * Escapear caracteres HTML para prevenir XSS
  */
@@ -156,271 +180,1698 @@ export const validateRegister = (
 };
 
 /**
- * Validar datos de creación de ticket
+ * Validar filtros del listado de usuarios en query string
  */
-export const validateCreateTicket = (
+export const validateUserFilters = (
   req: Request,
   res: Response,
   next: NextFunction,
 ): void => {
   const errors: Record<string, string> = {};
-  const { titulo, descripcion, clienteId, agenteAsignadoId } = req.body || {};
-
-  // Título
-  if (!titulo) {
-    errors.titulo = "Título es requerido";
-  } else if (!isValidString(titulo, 3, 200)) {
-    errors.titulo = "Título debe tener entre 3 y 200 caracteres";
-  }
+  const { rol, activo, search } = req.query;
 
-  // Descripción
-  if (!descripcion) {
-    errors.descripcion = "Descripción es requerida";
-  } else if (!isValidString(descripcion, 5, 5000)) {
-    errors.descripcion = "Descripción debe tener entre 5 y 5000 caracteres";
+  const validRoles = ["ADMIN", "SUPERVISOR", "AGENTE"];
+  if (rol && !validRoles.includes(rol as string)) {
+    errors.rol = `Rol no es válido. Opciones: ${validRoles.join(", ")}`;
   }
 
-  // Cliente ID
-  if (!clienteId) {
-    errors.clienteId = "ID de cliente es requerido";
-  } else if (!isValidUUID(clienteId)) {
-    errors.clienteId = "ID de cliente no es válido";
+  if (activo !== undefined && activo !== "true" && activo !== "false") {
+    errors.activo = "activo debe ser true o false";
   }
 
-  // Agente (opcional, pero si lo envían debe ser UUID válido)
-  if (agenteAsignadoId && !isValidUUID(agenteAsignadoId)) {
-    errors.agenteAsignadoId = "ID de agente no es válido";
+  if (search !== undefined && !isValidString(search as string, 1, 100)) {
+    errors.search = "search debe tener entre 1 y 100 caracteres";
   }
 
   if (Object.keys(errors).length > 0) {
     throw new ValidationError(JSON.stringify(errors));
   }
 
-  // Sanitizar
-  if (req.body.titulo) req.body.titulo = sanitizeString(req.body.titulo);
-  if (req.body.descripcion)
-    req.body.descripcion = sanitizeString(req.body.descripcion);
-
   next();
 };
 
 /**
- * Validar datos de actualización de ticket
+ * Validar cambio de rol de un usuario
  */
-export const validateUpdateTicket = (
+export const validateUpdateUserRole = (
   req: Request,
   res: Response,
   next: NextFunction,
 ): void => {
-  const errors: Record<string, string> = {};
-  const { titulo, descripcion, estado, agenteAsignadoId } = req.body || {};
+  const { rol } = req.body || {};
 
-  // Al menos un campo debe estar presente
-  if (!titulo && !descripcion && !estado && !agenteAsignadoId) {
-    throw new ValidationError("Se requiere al menos un campo para actualizar");
+  const validRoles = ["ADMIN", "SUPERVISOR", "AGENTE"];
+  if (!rol) {
+    throw new ValidationError("Rol es requerido");
   }
 
-  // Título (opcional)
-  if (titulo !== undefined && !isValidString(titulo, 3, 200)) {
-    errors.titulo = "Título debe tener entre 3 y 200 caracteres";
+  if (!validRoles.includes(rol)) {
+    throw new ValidationError(
+      `Rol no es válido. Opciones: ${validRoles.join(", ")}`,
+    );
   }
 
-  // Descripción (opcional)
-  if (descripcion !== undefined && !isValidString(descripcion, 5, 5000)) {
-    errors.descripcion = "Descripción debe tener entre 5 y 5000 caracteres";
+  next();
+};
+
+/**
+ * Validar contraseña definida por un administrador
+ */
+export const validateSetUserPassword = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): void => {
+  const { password } = req.body || {};
+
+  if (!password) {
+    throw new ValidationError("Contraseña es requerida");
   }
 
-  // Estado (opcional, pero debe ser válido)
-  const validEstados = [
-    "ABIERTO",
-    "EN_PROGRESO",
-    "RESUELTO",
-    "CERRADO",
-    "ESCALADO",
-  ];
-  if (estado && !validEstados.includes(estado)) {
-    errors.estado = `Estado no es válido. Opciones: ${validEstados.join(", ")}`;
+  if (typeof password !== "string" || password.length < 6) {
+    throw new ValidationError("Contraseña debe tener al menos 6 caracteres");
   }
 
-  // Agente (opcional)
-  if (agenteAsignadoId && !isValidUUID(agenteAsignadoId)) {
-    errors.agenteAsignadoId = "ID de agente no es válido";
+  if (password.length > 100) {
+    throw new ValidationError(
+      "Contraseña no puede tener más de 100 caracteres",
+    );
   }
 
-  if (Object.keys(errors).length > 0) {
-    throw new ValidationError(JSON.stringify(errors));
+  next();
+};
+
+/**
+ * Validar la lista de permisos de un rol; retorna el error o null
+ */
+const getPermisosError = (permisos: unknown): string | null => {
+  const validPermisos: string[] = Object.values(Permiso);
+
+  if (!Array.isArray(permisos)) {
+    return "permisos debe ser un array";
   }
 
-  // Sanitizar
-  if (req.body.titulo) req.body.titulo = sanitizeString(req.body.titulo);
-  if (req.body.descripcion)
-    req.body.descripcion = sanitizeString(req.body.descripcion);
+  const invalidos = permisos.filter(
+    (permiso) =>
+      typeof permiso !== "string" || !validPermisos.includes(permiso),
+  );
 
-  next();
+  if (invalidos.length > 0) {
+    return `Permisos no válidos: ${invalidos.join(", ")}. Opciones: ${validPermisos.join(", ")}`;
+  }
+
+  return null;
 };
 
 /**
- * Validar datos de creación de cliente
+ * Validar alta de rol personalizado
  */
-export const validateCreateClient = (
+export const validateCreateRole = (
   req: Request,
   res: Response,
   next: NextFunction,
 ): void => {
   const errors: Record<string, string> = {};
-  const { nombre, email, tipo, empresa } = req.body || {};
+  const { nombre, descripcion, rolBase, permisos } = req.body || {};
 
-  // Nombre
   if (!nombre) {
     errors.nombre = "Nombre es requerido";
-  } else if (!isValidString(nombre, 2, 150)) {
-    errors.nombre = "Nombre debe tener entre 2 y 150 caracteres";
+  } else if (
+    typeof nombre !== "string" ||
+    !/^[A-Z][A-Z0-9_]{1,49}$/.test(nombre)
+  ) {
+    errors.nombre =
+      "Nombre debe tener entre 2 y 50 caracteres en mayúsculas, números o guiones bajos";
   }
 
-  // Email
-  if (!email) {
-    errors.email = "Email es requerido";
-  } else if (!isValidEmail(email)) {
-    errors.email = "Email no es válido";
+  if (descripcion !== undefined && !isValidString(descripcion, 1, 200)) {
+    errors.descripcion = "Descripción debe tener entre 1 y 200 caracteres";
   }
 
-  // Tipo (opcional, default es NORMAL)
-  const validTipos = ["VIP", "NORMAL"];
-  if (tipo && !validTipos.includes(tipo)) {
-    errors.tipo = `Tipo no es válido. Opciones: ${validTipos.join(", ")}`;
+  const validRolesBase = ["SUPERVISOR", "AGENTE"];
+  if (!rolBase) {
+    errors.rolBase = "rolBase es requerido";
+  } else if (!validRolesBase.includes(rolBase)) {
+    errors.rolBase = `rolBase no es válido. Opciones: ${validRolesBase.join(", ")}`;
   }
 
-  // Empresa (opcional)
-  if (
-    empresa !== undefined &&
-    empresa !== null &&
-    !isValidString(empresa, 1, 200)
-  ) {
-    errors.empresa = "Empresa debe tener entre 1 y 200 caracteres";
+  const permisosError = getPermisosError(permisos);
+  if (permisosError) {
+    errors.permisos = permisosError;
   }
 
   if (Object.keys(errors).length > 0) {
     throw new ValidationError(JSON.stringify(errors));
   }
 
-  // Sanitizar
-  if (req.body.nombre) req.body.nombre = sanitizeString(req.body.nombre);
-  if (req.body.empresa) req.body.empresa = sanitizeString(req.body.empresa);
+  if (descripcion) req.body.descripcion = sanitizeString(descripcion);
 
   next();
 };
 
 /**
- * Validar datos de actualización de cliente
+ * Validar actualización de un rol
  */
-export const validateUpdateClient = (
+export const validateUpdateRole = (
   req: Request,
   res: Response,
   next: NextFunction,
 ): void => {
   const errors: Record<string, string> = {};
-  const { nombre, email, tipo, empresa } = req.body || {};
+  const { descripcion, permisos } = req.body || {};
 
-  // Al menos un campo debe estar presente
-  if (!nombre && !email && !tipo && !empresa) {
-    throw new ValidationError("Se requiere al menos un campo para actualizar");
+  if (descripcion === undefined && permisos === undefined) {
+    throw new ValidationError("Debe enviar descripcion o permisos");
   }
 
-  // Nombre (opcional)
-  if (nombre !== undefined && !isValidString(nombre, 2, 150)) {
-    errors.nombre = "Nombre debe tener entre 2 y 150 caracteres";
+  if (descripcion !== undefined && !isValidString(descripcion, 1, 200)) {
+    errors.descripcion = "Descripción debe tener entre 1 y 200 caracteres";
   }
 
-  // Email (opcional)
-  if (email !== undefined && !isValidEmail(email)) {
-    errors.email = "Email no es válido";
+  if (permisos !== undefined) {
+    const permisosError = getPermisosError(permisos);
+    if (permisosError) {
+      errors.permisos = permisosError;
+    }
   }
 
-  // Tipo (opcional)
-  const validTipos = ["VIP", "NORMAL"];
-  if (tipo && !validTipos.includes(tipo)) {
-    errors.tipo = `Tipo no es válido. Opciones: ${validTipos.join(", ")}`;
+  if (Object.keys(errors).length > 0) {
+    throw new ValidationError(JSON.stringify(errors));
   }
 
-  // Empresa (opcional)
-  if (
-    empresa !== undefined &&
-    empresa !== null &&
-    !isValidString(empresa, 1, 200)
-  ) {
-    errors.empresa = "Empresa debe tener entre 1 y 200 caracteres";
+  if (descripcion) req.body.descripcion = sanitizeString(descripcion);
+
+  next();
+};
+
+/**
+ * Validar asignación de rol personalizado a un usuario
+ */
+export const validateSetUserCustomRole = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): void => {
+  const { rolPersonalizadoId } = req.body || {};
+
+  if (rolPersonalizadoId === undefined) {
+    throw new ValidationError(
+      "rolPersonalizadoId es requerido (null para quitar el rol personalizado)",
+    );
+  }
+
+  if (rolPersonalizadoId !== null && !isValidUUID(rolPersonalizadoId)) {
+    throw new ValidationError("rolPersonalizadoId no es válido");
+  }
+
+  next();
+};
+
+/**
+ * Validar alta de API key
+ */
+export const validateCreateApiKey = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): void => {
+  const errors: Record<string, string> = {};
+  const { nombre, scopes, usuarioId, expiresAt } = req.body || {};
+
+  if (!nombre) {
+    errors.nombre = "Nombre es requerido";
+  } else if (!isValidString(nombre, 2, 100)) {
+    errors.nombre = "Nombre debe tener entre 2 y 100 caracteres";
+  }
+
+  const validScopes = [
+    "TICKETS_LECTURA",
+    "TICKETS_CREAR",
+    "TICKETS_COMENTAR",
+    "CLIENTES_LECTURA",
+    "CLIENTES_ESCRITURA",
+  ];
+  if (!Array.isArray(scopes) || scopes.length === 0) {
+    errors.scopes = "scopes debe ser un array con al menos un scope";
+  } else if (scopes.some((scope) => !validScopes.includes(scope))) {
+    errors.scopes = `Scope no es válido. Opciones: ${validScopes.join(", ")}`;
+  }
+
+  if (!usuarioId) {
+    errors.usuarioId = "usuarioId es requerido";
+  } else if (!isValidUUID(usuarioId)) {
+    errors.usuarioId = "usuarioId no es válido";
+  }
+
+  if (expiresAt !== undefined) {
+    if (typeof expiresAt !== "string" || !isValidDate(expiresAt)) {
+      errors.expiresAt = "expiresAt debe ser una fecha válida (ISO 8601)";
+    } else if (new Date(expiresAt) <= new Date()) {
+      errors.expiresAt = "expiresAt debe ser una fecha futura";
+    }
   }
 
   if (Object.keys(errors).length > 0) {
     throw new ValidationError(JSON.stringify(errors));
   }
 
-  // Sanitizar
-  if (req.body.nombre) req.body.nombre = sanitizeString(req.body.nombre);
-  if (req.body.empresa) req.body.empresa = sanitizeString(req.body.empresa);
+  req.body.nombre = sanitizeString(nombre);
 
   next();
 };
 
 /**
- * Validar parámetros de paginación en query string
+ * Validar filtros del listado de API keys
  */
-export const validatePagination = (
+export const validateApiKeyFilters = (
   req: Request,
   res: Response,
   next: NextFunction,
 ): void => {
-  const { page, pageSize } = req.query;
+  const errors: Record<string, string> = {};
+  const { usuarioId, activas } = req.query;
 
-  if (page !== undefined) {
-    const pageNum = parseInt(page as string, 10);
-    if (isNaN(pageNum) || pageNum < 1) {
-      throw new ValidationError("page debe ser un número mayor o igual a 1");
-    }
-    req.query.page = pageNum.toString();
+  if (usuarioId && !isValidUUID(usuarioId as string)) {
+    errors.usuarioId = "usuarioId no es válido";
   }
 
-  if (pageSize !== undefined) {
-    const pageSizeNum = parseInt(pageSize as string, 10);
-    if (isNaN(pageSizeNum) || pageSizeNum < 1 || pageSizeNum > 100) {
-      throw new ValidationError("pageSize debe ser un número entre 1 y 100");
-    }
-    req.query.pageSize = pageSizeNum.toString();
+  if (activas !== undefined && activas !== "true" && activas !== "false") {
+    errors.activas = "activas debe ser true o false";
+  }
+
+  if (Object.keys(errors).length > 0) {
+    throw new ValidationError(JSON.stringify(errors));
   }
 
   next();
 };
 
 /**
- * Validar filtros de fecha en query string
+ * Validar que se envíe el refresh token
  */
-export const validateDateFilters = (
+export const validateRefreshToken = (
   req: Request,
   res: Response,
   next: NextFunction,
 ): void => {
-  const { fechaDesde, fechaHasta } = req.query;
+  const { refreshToken } = req.body || {};
 
-  if (fechaDesde && !isValidDate(fechaDesde as string)) {
-    throw new ValidationError(
-      "fechaDesde no es una fecha válida (formato ISO)",
-    );
+  if (!refreshToken || typeof refreshToken !== "string") {
+    throw new ValidationError("Refresh token es requerido");
   }
 
-  if (fechaHasta && !isValidDate(fechaHasta as string)) {
+  next();
+};
+
+/**
+ * Validar un código de segundo factor: TOTP de 6 dígitos o
+ * código de recuperación (xxxxx-xxxxx)
+ */
+const isValidTwoFactorCode = (value: unknown): value is string => {
+  return (
+    typeof value === "string" &&
+    /^(\d{6}|[0-9a-f]{5}-?[0-9a-f]{5})$/i.test(value)
+  );
+};
+
+/**
+ * Validar token de desafío de 2FA (64 caracteres hexadecimales)
+ */
+const isValidChallengeToken = (value: unknown): value is string => {
+  return typeof value === "string" && /^[0-9a-f]{64}$/i.test(value);
+};
+
+/**
+ * Validar código de segundo factor
+ */
+export const validateTwoFactorCode = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): void => {
+  const { codigo } = req.body || {};
+
+  if (!isValidTwoFactorCode(codigo)) {
     throw new ValidationError(
-      "fechaHasta no es una fecha válida (formato ISO)",
+      "Código debe tener 6 dígitos o ser un código de recuperación",
     );
   }
 
-  // Si ambas están presentes, fechaDesde debe ser menor que fechaHasta
-  if (fechaDesde && fechaHasta) {
-    const desde = new Date(fechaDesde as string);
-    const hasta = new Date(fechaHasta as string);
+  next();
+};
 
-    if (desde > hasta) {
-      throw new ValidationError("fechaDesde no puede ser mayor que fechaHasta");
-    }
+/**
+ * Validar desafío de 2FA del login
+ */
+export const validateTwoFactorChallenge = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): void => {
+  const { tokenDesafio } = req.body || {};
+
+  if (!isValidChallengeToken(tokenDesafio)) {
+    throw new ValidationError("tokenDesafio no es válido");
+  }
+
+  next();
+};
+
+/**
+ * Validar segundo paso del login con 2FA
+ */
+export const validateTwoFactorLogin = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): void => {
+  const errors: Record<string, string> = {};
+  const { tokenDesafio, codigo } = req.body || {};
+
+  if (!isValidChallengeToken(tokenDesafio)) {
+    errors.tokenDesafio = "tokenDesafio no es válido";
+  }
+
+  if (!isValidTwoFactorCode(codigo)) {
+    errors.codigo =
+      "Código debe tener 6 dígitos o ser un código de recuperación";
+  }
+
+  if (Object.keys(errors).length > 0) {
+    throw new ValidationError(JSON.stringify(errors));
+  }
+
+  next();
+};
+
+/**
+ * Validar la respuesta del proveedor OIDC: query string en GET, body en POST
+ */
+export const validateOidcCallback = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): void => {
+  const errors: Record<string, string> = {};
+  const { code, state, error } =
+    (req.method === "GET" ? req.query : req.body) || {};
+
+  if (typeof error === "string") {
+    errors.error = `El proveedor de identidad rechazó el inicio de sesión: ${error}`;
+  } else {
+    if (typeof code !== "string" || !isValidString(code, 1, 2048)) {
+      errors.code = "code es requerido";
+    }
+
+    if (typeof state !== "string" || !isValidString(state, 1, 512)) {
+      errors.state = "state es requerido";
+    }
+  }
+
+  if (Object.keys(errors).length > 0) {
+    throw new ValidationError(JSON.stringify(errors));
+  }
+
+  next();
+};
+
+/**
+ * Validar desactivación de 2FA
+ */
+export const validateDisableTwoFactor = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): void => {
+  const errors: Record<string, string> = {};
+  const { password, codigo } = req.body || {};
+
+  if (!password || typeof password !== "string") {
+    errors.password = "Contraseña es requerida";
+  }
+
+  if (!isValidTwoFactorCode(codigo)) {
+    errors.codigo =
+      "Código debe tener 6 dígitos o ser un código de recuperación";
+  }
+
+  if (Object.keys(errors).length > 0) {
+    throw new ValidationError(JSON.stringify(errors));
+  }
+
+  next();
+};
+
+/**
+ * Validar una contraseña nueva (6 a 100 caracteres)
+ */
+const getPasswordError = (password: unknown): string | null => {
+  if (!password) {
+    return "Contraseña es requerida";
+  }
+
+  if (typeof password !== "string" || password.length < 6) {
+    return "Contraseña debe tener al menos 6 caracteres";
+  }
+
+  if (password.length > 100) {
+    return "Contraseña no puede tener más de 100 caracteres";
+  }
+
+  return null;
+};
+
+/**
+ * Validar cambio de contraseña del usuario autenticado
+ */
+export const validateChangePassword = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): void => {
+  const errors: Record<string, string> = {};
+  const { passwordActual, passwordNueva } = req.body || {};
+
+  if (!passwordActual || typeof passwordActual !== "string") {
+    errors.passwordActual = "Contraseña actual es requerida";
+  }
+
+  const passwordError = getPasswordError(passwordNueva);
+  if (passwordError) {
+    errors.passwordNueva = passwordError;
+  }
+
+  if (Object.keys(errors).length > 0) {
+    throw new ValidationError(JSON.stringify(errors));
+  }
+
+  next();
+};
+
+/**
+ * Validar solicitud de recuperación de contraseña
+ */
+export const validateForgotPassword = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): void => {
+  const { email } = req.body || {};
+
+  if (!email) {
+    throw new ValidationError("Email es requerido");
+  }
+
+  if (typeof email !== "string" || !isValidEmail(email)) {
+    throw new ValidationError("Email no es válido");
+  }
+
+  next();
+};
+
+/**
+ * Validar restablecimiento de contraseña con token
+ */
+export const validateResetPassword = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): void => {
+  const errors: Record<string, string> = {};
+  const { token, password } = req.body || {};
+
+  if (!token || typeof token !== "string" || !/^[0-9a-f]{64}$/i.test(token)) {
+    errors.token = "Token de recuperación no es válido";
+  }
+
+  const passwordError = getPasswordError(password);
+  if (passwordError) {
+    errors.password = passwordError;
+  }
+
+  if (Object.keys(errors).length > 0) {
+    throw new ValidationError(JSON.stringify(errors));
+  }
+
+  next();
+};
+
+/**
+ * Validar datos de creación de ticket
+ */
+export const validateCreateTicket = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): void => {
+  const errors: Record<string, string> = {};
+  const {
+    titulo,
+    descripcion,
+    clienteId,
+    agenteAsignadoId,
+    habilidadIds,
+    equipoId,
+  } = req.body || {};
+
+  // Título
+  if (!titulo) {
+    errors.titulo = "Título es requerido";
+  } else if (!isValidString(titulo, 3, 200)) {
+    errors.titulo = "Título debe tener entre 3 y 200 caracteres";
+  }
+
+  // Descripción
+  if (!descripcion) {
+    errors.descripcion = "Descripción es requerida";
+  } else if (!isValidString(descripcion, 5, 5000)) {
+    errors.descripcion = "Descripción debe tener entre 5 y 5000 caracteres";
+  }
+
+  // Cliente ID
+  if (!clienteId) {
+    errors.clienteId = "ID de cliente es requerido";
+  } else if (!isValidUUID(clienteId)) {
+    errors.clienteId = "ID de cliente no es válido";
+  }
+
+  // Agente (opcional, pero si lo envían debe ser UUID válido)
+  if (agenteAsignadoId && !isValidUUID(agenteAsignadoId)) {
+    errors.agenteAsignadoId = "ID de agente no es válido";
+  }
+
+  // Habilidades requeridas (opcional)
+  if (habilidadIds !== undefined && !isValidUUIDArray(habilidadIds)) {
+    errors.habilidadIds = "habilidadIds debe ser un arreglo de UUIDs válidos";
+  }
+
+  // Equipo (opcional)
+  if (equipoId && !isValidUUID(equipoId)) {
+    errors.equipoId = "ID de equipo no es válido";
+  }
+
+  if (Object.keys(errors).length > 0) {
+    throw new ValidationError(JSON.stringify(errors));
+  }
+
+  // Sanitizar
+  if (req.body.titulo) req.body.titulo = sanitizeString(req.body.titulo);
+  if (req.body.descripcion)
+    req.body.descripcion = sanitizeString(req.body.descripcion);
+
+  next();
+};
+
+/**
+ * Validar datos de actualización de ticket
+ */
+export const validateUpdateTicket = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): void => {
+  const errors: Record<string, string> = {};
+  const {
+    titulo,
+    descripcion,
+    estado,
+    agenteAsignadoId,
+    habilidadIds,
+    equipoId,
+  } = req.body || {};
+
+  // Al menos un campo debe estar presente
+  if (
+    !titulo &&
+    !descripcion &&
+    !estado &&
+    !agenteAsignadoId &&
+    habilidadIds === undefined &&
+    equipoId === undefined
+  ) {
+    throw new ValidationError("Se requiere al menos un campo para actualizar");
+  }
+
+  // Título (opcional)
+  if (titulo !== undefined && !isValidString(titulo, 3, 200)) {
+    errors.titulo = "Título debe tener entre 3 y 200 caracteres";
+  }
+
+  // Descripción (opcional)
+  if (descripcion !== undefined && !isValidString(descripcion, 5, 5000)) {
+    errors.descripcion = "Descripción debe tener entre 5 y 5000 caracteres";
+  }
+
+  // Estado (opcional, pero debe ser válido)
+  const validEstados = [
+    "ABIERTO",
+    "EN_PROGRESO",
+    "EN_ESPERA",
+    "RESUELTO",
+    "CERRADO",
+    "ESCALADO",
+  ];
+  if (estado && !validEstados.includes(estado)) {
+    errors.estado = `Estado no es válido. Opciones: ${validEstados.join(", ")}`;
+  }
+
+  // Agente (opcional)
+  if (agenteAsignadoId && !isValidUUID(agenteAsignadoId)) {
+    errors.agenteAsignadoId = "ID de agente no es válido";
+  }
+
+  // Habilidades requeridas (opcional, [] las quita)
+  if (habilidadIds !== undefined && !isValidUUIDArray(habilidadIds)) {
+    errors.habilidadIds = "habilidadIds debe ser un arreglo de UUIDs válidos";
+  }
+
+  // Equipo (opcional, null saca el ticket de la cola de equipo)
+  if (equipoId !== undefined && equipoId !== null && !isValidUUID(equipoId)) {
+    errors.equipoId = "ID de equipo no es válido";
+  }
+
+  if (Object.keys(errors).length > 0) {
+    throw new ValidationError(JSON.stringify(errors));
+  }
+
+  // Sanitizar
+  if (req.body.titulo) req.body.titulo = sanitizeString(req.body.titulo);
+  if (req.body.descripcion)
+    req.body.descripcion = sanitizeString(req.body.descripcion);
+
+  next();
+};
+
+/**
+ * Validar datos de creación de comentario
+ */
+export const validateCreateComment = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): void => {
+  const errors: Record<string, string> = {};
+  const { contenido, esInterno } = req.body || {};
+
+  // Contenido
+  if (!contenido) {
+    errors.contenido = "Contenido es requerido";
+  } else if (!isValidString(contenido, 1, 5000)) {
+    errors.contenido = "Contenido debe tener entre 1 y 5000 caracteres";
+  }
+
+  // Visibilidad (opcional, por defecto es respuesta pública)
+  if (esInterno !== undefined && typeof esInterno !== "boolean") {
+    errors.esInterno = "esInterno debe ser un booleano";
+  }
+
+  if (Object.keys(errors).length > 0) {
+    throw new ValidationError(JSON.stringify(errors));
+  }
+
+  // Sanitizar
+  if (req.body.contenido)
+    req.body.contenido = sanitizeString(req.body.contenido);
+
+  next();
+};
+
+/**
+ * Validar datos de actualización de comentario
+ */
+export const validateUpdateComment = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): void => {
+  const errors: Record<string, string> = {};
+  const { contenido, esInterno } = req.body || {};
+
+  // Al menos un campo debe estar presente
+  if (contenido === undefined && esInterno === undefined) {
+    throw new ValidationError("Se requiere al menos un campo para actualizar");
+  }
+
+  // Contenido (opcional)
+  if (contenido !== undefined && !isValidString(contenido, 1, 5000)) {
+    errors.contenido = "Contenido debe tener entre 1 y 5000 caracteres";
+  }
+
+  // Visibilidad (opcional)
+  if (esInterno !== undefined && typeof esInterno !== "boolean") {
+    errors.esInterno = "esInterno debe ser un booleano";
+  }
+
+  if (Object.keys(errors).length > 0) {
+    throw new ValidationError(JSON.stringify(errors));
+  }
+
+  // Sanitizar
+  if (req.body.contenido)
+    req.body.contenido = sanitizeString(req.body.contenido);
+
+  next();
+};
+
+/**
+ * Validar datos de creación de cliente
+ */
+export const validateCreateClient = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): void => {
+  const errors: Record<string, string> = {};
+  const { nombre, email, tipo, empresa } = req.body || {};
+
+  // Nombre
+  if (!nombre) {
+    errors.nombre = "Nombre es requerido";
+  } else if (!isValidString(nombre, 2, 150)) {
+    errors.nombre = "Nombre debe tener entre 2 y 150 caracteres";
+  }
+
+  // Email
+  if (!email) {
+    errors.email = "Email es requerido";
+  } else if (!isValidEmail(email)) {
+    errors.email = "Email no es válido";
+  }
+
+  // Tipo (opcional, default es NORMAL)
+  const validTipos = ["VIP", "NORMAL"];
+  if (tipo && !validTipos.includes(tipo)) {
+    errors.tipo = `Tipo no es válido. Opciones: ${validTipos.join(", ")}`;
+  }
+
+  // Empresa (opcional)
+  if (
+    empresa !== undefined &&
+    empresa !== null &&
+    !isValidString(empresa, 1, 200)
+  ) {
+    errors.empresa = "Empresa debe tener entre 1 y 200 caracteres";
+  }
+
+  if (Object.keys(errors).length > 0) {
+    throw new ValidationError(JSON.stringify(errors));
+  }
+
+  // Sanitizar
+  if (req.body.nombre) req.body.nombre = sanitizeString(req.body.nombre);
+  if (req.body.empresa) req.body.empresa = sanitizeString(req.body.empresa);
+
+  next();
+};
+
+/**
+ * Validar datos de actualización de cliente
+ */
+export const validateUpdateClient = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): void => {
+  const errors: Record<string, string> = {};
+  const { nombre, email, tipo, empresa } = req.body || {};
+
+  // Al menos un campo debe estar presente
+  if (!nombre && !email && !tipo && !empresa) {
+    throw new ValidationError("Se requiere al menos un campo para actualizar");
+  }
+
+  // Nombre (opcional)
+  if (nombre !== undefined && !isValidString(nombre, 2, 150)) {
+    errors.nombre = "Nombre debe tener entre 2 y 150 caracteres";
+  }
+
+  // Email (opcional)
+  if (email !== undefined && !isValidEmail(email)) {
+    errors.email = "Email no es válido";
+  }
+
+  // Tipo (opcional)
+  const validTipos = ["VIP", "NORMAL"];
+  if (tipo && !validTipos.includes(tipo)) {
+    errors.tipo = `Tipo no es válido. Opciones: ${validTipos.join(", ")}`;
+  }
+
+  // Empresa (opcional)
+  if (
+    empresa !== undefined &&
+    empresa !== null &&
+    !isValidString(empresa, 1, 200)
+  ) {
+    errors.empresa = "Empresa debe tener entre 1 y 200 caracteres";
+  }
+
+  if (Object.keys(errors).length > 0) {
+    throw new ValidationError(JSON.stringify(errors));
+  }
+
+  // Sanitizar
+  if (req.body.nombre) req.body.nombre = sanitizeString(req.body.nombre);
+  if (req.body.empresa) req.body.empresa = sanitizeString(req.body.empresa);
+
+  next();
+};
+
+/**
+ * Validar parámetros de paginación en query string
+ */
+export const validatePagination = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): void => {
+  const { page, pageSize } = req.query;
+
+  if (page !== undefined) {
+    const pageNum = parseInt(page as string, 10);
+    if (isNaN(pageNum) || pageNum < 1) {
+      throw new ValidationError("page debe ser un número mayor o igual a 1");
+    }
+    req.query.page = pageNum.toString();
+  }
+
+  if (pageSize !== undefined) {
+    const pageSizeNum = parseInt(pageSize as string, 10);
+    if (isNaN(pageSizeNum) || pageSizeNum < 1 || pageSizeNum > 100) {
+      throw new ValidationError("pageSize debe ser un número entre 1 y 100");
+    }
+    req.query.pageSize = pageSizeNum.toString();
+  }
+
+  next();
+};
+
+/**
+ * Validar filtros de fecha en query string
+ */
+export const validateDateFilters = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): void => {
+  const { fechaDesde, fechaHasta } = req.query;
+
+  if (fechaDesde && !isValidDate(fechaDesde as string)) {
+    throw new ValidationError(
+      "fechaDesde no es una fecha válida (formato ISO)",
+    );
+  }
+
+  if (fechaHasta && !isValidDate(fechaHasta as string)) {
+    throw new ValidationError(
+      "fechaHasta no es una fecha válida (formato ISO)",
+    );
+  }
+
+  // Si ambas están presentes, fechaDesde debe ser menor que fechaHasta
+  if (fechaDesde && fechaHasta) {
+    const desde = new Date(fechaDesde as string);
+    const hasta = new Date(fechaHasta as string);
+
+    if (desde > hasta) {
+      throw new ValidationError("fechaDesde no puede ser mayor que fechaHasta");
+    }
+  }
+
+  next();
+};
+
+/**
+ * Validar franjas horarias y feriados de un calendario laboral
+ */
+const validateCalendarEntries = (
+  franjas: unknown,
+  feriados: unknown,
+  errors: Record<string, string>,
+): void => {
+  if (franjas !== undefined) {
+    if (!Array.isArray(franjas) || franjas.length === 0) {
+      errors.franjas = "franjas debe ser un arreglo con al menos una franja";
+    } else {
+      const invalid = franjas.some(
+        (franja) =>
+          !Number.isInteger(franja?.diaSemana) ||
+          franja.diaSemana < 0 ||
+          franja.diaSemana > 6 ||
+          !isValidHour(franja.horaInicio) ||
+          !isValidHour(franja.horaFin) ||
+          franja.horaInicio >= franja.horaFin,
+      );
+      if (invalid) {
+        errors.franjas =
+          "Cada franja requiere diaSemana (0-6) y horaInicio < horaFin en formato HH:mm";
+      }
+    }
+  }
+
+  if (feriados !== undefined) {
+    if (!Array.isArray(feriados)) {
+      errors.feriados = "feriados debe ser un arreglo";
+    } else {
+      const invalid = feriados.some(
+        (feriado) =>
+          typeof feriado?.fecha !== "string" ||
+          !/^\d{4}-\d{2}-\d{2}$/.test(feriado.fecha) ||
+          !isValidDate(feriado.fecha),
+      );
+      if (invalid) {
+        errors.feriados = "Cada feriado requiere una fecha en formato YYYY-MM-DD";
+      }
+    }
+  }
+};
+
+/**
+ * Validar datos de creación de calendario laboral
+ */
+export const validateCreateCalendar = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): void => {
+  const errors: Record<string, string> = {};
+  const { nombre, zonaHoraria, franjas, feriados } = req.body || {};
+
+  // Nombre
+  if (!nombre) {
+    errors.nombre = "Nombre es requerido";
+  } else if (!isValidString(nombre, 2, 100)) {
+    errors.nombre = "Nombre debe tener entre 2 y 100 caracteres";
+  }
+
+  // Zona horaria
+  if (!zonaHoraria) {
+    errors.zonaHoraria = "Zona horaria es requerida";
+  } else if (typeof zonaHoraria !== "string" || !isValidTimeZone(zonaHoraria)) {
+    errors.zonaHoraria = "Zona horaria no es válida (ej. America/Bogota)";
+  }
+
+  // Franjas (requeridas) y feriados (opcionales)
+  if (franjas === undefined) {
+    errors.franjas = "franjas es requerido";
+  }
+  validateCalendarEntries(franjas, feriados, errors);
+
+  if (Object.keys(errors).length > 0) {
+    throw new ValidationError(JSON.stringify(errors));
+  }
+
+  // Sanitizar
+  req.body.nombre = sanitizeString(req.body.nombre);
+
+  next();
+};
+
+/**
+ * Validar datos de actualización de calendario laboral
+ */
+export const validateUpdateCalendar = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): void => {
+  const errors: Record<string, string> = {};
+  const { nombre, zonaHoraria, franjas, feriados } = req.body || {};
+
+  // Al menos un campo debe estar presente
+  if (!nombre && !zonaHoraria && !franjas && !feriados) {
+    throw new ValidationError("Se requiere al menos un campo para actualizar");
+  }
+
+  // Nombre (opcional)
+  if (nombre !== undefined && !isValidString(nombre, 2, 100)) {
+    errors.nombre = "Nombre debe tener entre 2 y 100 caracteres";
+  }
+
+  // Zona horaria (opcional)
+  if (
+    zonaHoraria !== undefined &&
+    (typeof zonaHoraria !== "string" || !isValidTimeZone(zonaHoraria))
+  ) {
+    errors.zonaHoraria = "Zona horaria no es válida (ej. America/Bogota)";
+  }
+
+  validateCalendarEntries(franjas, feriados, errors);
+
+  if (Object.keys(errors).length > 0) {
+    throw new ValidationError(JSON.stringify(errors));
+  }
+
+  // Sanitizar
+  if (req.body.nombre) req.body.nombre = sanitizeString(req.body.nombre);
+
+  next();
+};
+
+/**
+ * Validar asignación de calendario a clientes
+ */
+export const validateAssignCalendarClients = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): void => {
+  const { clienteIds } = req.body || {};
+
+  if (
+    !Array.isArray(clienteIds) ||
+    clienteIds.length === 0 ||
+    !clienteIds.every((id) => typeof id === "string" && isValidUUID(id))
+  ) {
+    throw new ValidationError(
+      "clienteIds debe ser un arreglo no vacío de UUIDs válidos",
+    );
+  }
+
+  next();
+};
+
+/**
+ * Validar criterios y objetivos de una política SLA
+ */
+const validateSlaPolicyFields = (
+  body: Record<string, unknown>,
+  errors: Record<string, string>,
+): void => {
+  const { activo, tipoCliente, prioridad, clienteId } = body;
+
+  if (activo !== undefined && typeof activo !== "boolean") {
+    errors.activo = "activo debe ser un booleano";
+  }
+
+  // Criterios: null significa "cualquier valor"
+  const validTipos = ["VIP", "NORMAL"];
+  if (
+    tipoCliente !== undefined &&
+    tipoCliente !== null &&
+    !validTipos.includes(tipoCliente as string)
+  ) {
+    errors.tipoCliente = `Tipo de cliente no es válido. Opciones: ${validTipos.join(", ")}`;
+  }
+
+  const validPrioridades = ["ALTA", "MEDIA", "BAJA"];
+  if (
+    prioridad !== undefined &&
+    prioridad !== null &&
+    !validPrioridades.includes(prioridad as string)
+  ) {
+    errors.prioridad = `Prioridad no es válida. Opciones: ${validPrioridades.join(", ")}`;
+  }
+
+  if (
+    clienteId !== undefined &&
+    clienteId !== null &&
+    (typeof clienteId !== "string" || !isValidUUID(clienteId))
+  ) {
+    errors.clienteId = "clienteId no es válido";
+  }
+
+  if (clienteId && tipoCliente) {
+    errors.tipoCliente =
+      "Una política de cliente no puede restringir además el tipo de cliente";
+  }
+
+  // Objetivos
+  for (const campo of ["horasNivel1", "horasNivel2", "horasResolucion"]) {
+    const valor = body[campo];
+    if (valor !== undefined && (typeof valor !== "number" || !(valor > 0))) {
+      errors[campo] = `${campo} debe ser un número mayor a 0`;
+    }
+  }
+
+  const { minutosPrimeraRespuesta } = body;
+  if (
+    minutosPrimeraRespuesta !== undefined &&
+    (!Number.isInteger(minutosPrimeraRespuesta) ||
+      (minutosPrimeraRespuesta as number) <= 0)
+  ) {
+    errors.minutosPrimeraRespuesta =
+      "minutosPrimeraRespuesta debe ser un entero mayor a 0";
+  }
+};
+
+/**
+ * Validar datos de creación de política SLA
+ */
+export const validateCreateSlaPolicy = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): void => {
+  const errors: Record<string, string> = {};
+  const body = req.body || {};
+
+  // Nombre
+  if (!body.nombre) {
+    errors.nombre = "Nombre es requerido";
+  } else if (!isValidString(body.nombre, 2, 100)) {
+    errors.nombre = "Nombre debe tener entre 2 y 100 caracteres";
+  }
+
+  // Todos los objetivos son requeridos
+  for (const campo of [
+    "horasNivel1",
+    "horasNivel2",
+    "minutosPrimeraRespuesta",
+    "horasResolucion",
+  ]) {
+    if (body[campo] === undefined) {
+      errors[campo] = `${campo} es requerido`;
+    }
+  }
+
+  validateSlaPolicyFields(body, errors);
+
+  if (Object.keys(errors).length > 0) {
+    throw new ValidationError(JSON.stringify(errors));
+  }
+
+  // Sanitizar
+  req.body.nombre = sanitizeString(req.body.nombre);
+
+  next();
+};
+
+/**
+ * Validar datos de actualización de política SLA
+ */
+export const validateUpdateSlaPolicy = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): void => {
+  const errors: Record<string, string> = {};
+  const body = req.body || {};
+
+  // Al menos un campo debe estar presente
+  if (Object.keys(body).length === 0) {
+    throw new ValidationError("Se requiere al menos un campo para actualizar");
+  }
+
+  // Nombre (opcional)
+  if (body.nombre !== undefined && !isValidString(body.nombre, 2, 100)) {
+    errors.nombre = "Nombre debe tener entre 2 y 100 caracteres";
+  }
+
+  validateSlaPolicyFields(body, errors);
+
+  if (Object.keys(errors).length > 0) {
+    throw new ValidationError(JSON.stringify(errors));
+  }
+
+  // Sanitizar
+  if (req.body.nombre) req.body.nombre = sanitizeString(req.body.nombre);
+
+  next();
+};
+
+/**
+ * Validar datos de creación de habilidad
+ */
+export const validateCreateSkill = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): void => {
+  const errors: Record<string, string> = {};
+  const { nombre, descripcion } = req.body || {};
+
+  if (!nombre) {
+    errors.nombre = "Nombre es requerido";
+  } else if (!isValidString(nombre, 2, 50)) {
+    errors.nombre = "Nombre debe tener entre 2 y 50 caracteres";
+  }
+
+  if (descripcion !== undefined && !isValidString(descripcion, 1, 255)) {
+    errors.descripcion = "Descripción debe tener entre 1 y 255 caracteres";
+  }
+
+  if (Object.keys(errors).length > 0) {
+    throw new ValidationError(JSON.stringify(errors));
+  }
+
+  // Sanitizar
+  req.body.nombre = sanitizeString(req.body.nombre);
+  if (req.body.descripcion)
+    req.body.descripcion = sanitizeString(req.body.descripcion);
+
+  next();
+};
+
+/**
+ * Validar datos de actualización de habilidad
+ */
+export const validateUpdateSkill = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): void => {
+  const errors: Record<string, string> = {};
+  const { nombre, descripcion } = req.body || {};
+
+  // Al menos un campo debe estar presente
+  if (!nombre && !descripcion) {
+    throw new ValidationError("Se requiere al menos un campo para actualizar");
+  }
+
+  if (nombre !== undefined && !isValidString(nombre, 2, 50)) {
+    errors.nombre = "Nombre debe tener entre 2 y 50 caracteres";
+  }
+
+  if (descripcion !== undefined && !isValidString(descripcion, 1, 255)) {
+    errors.descripcion = "Descripción debe tener entre 1 y 255 caracteres";
+  }
+
+  if (Object.keys(errors).length > 0) {
+    throw new ValidationError(JSON.stringify(errors));
+  }
+
+  // Sanitizar
+  if (req.body.nombre) req.body.nombre = sanitizeString(req.body.nombre);
+  if (req.body.descripcion)
+    req.body.descripcion = sanitizeString(req.body.descripcion);
+
+  next();
+};
+
+/**
+ * Validar habilidades asignadas a un agente
+ */
+export const validateSetAgentSkills = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): void => {
+  const { habilidadIds } = req.body || {};
+
+  if (!isValidUUIDArray(habilidadIds)) {
+    throw new ValidationError(
+      "habilidadIds debe ser un arreglo de UUIDs válidos",
+    );
+  }
+
+  next();
+};
+
+/**
+ * Validar datos de creación de equipo
+ */
+export const validateCreateTeam = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): void => {
+  const errors: Record<string, string> = {};
+  const { nombre, descripcion } = req.body || {};
+
+  if (!nombre) {
+    errors.nombre = "Nombre es requerido";
+  } else if (!isValidString(nombre, 2, 100)) {
+    errors.nombre = "Nombre debe tener entre 2 y 100 caracteres";
+  }
+
+  if (descripcion !== undefined && !isValidString(descripcion, 1, 255)) {
+    errors.descripcion = "Descripción debe tener entre 1 y 255 caracteres";
+  }
+
+  if (Object.keys(errors).length > 0) {
+    throw new ValidationError(JSON.stringify(errors));
+  }
+
+  // Sanitizar
+  req.body.nombre = sanitizeString(req.body.nombre);
+  if (req.body.descripcion)
+    req.body.descripcion = sanitizeString(req.body.descripcion);
+
+  next();
+};
+
+/**
+ * Validar datos de actualización de equipo
+ */
+export const validateUpdateTeam = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): void => {
+  const errors: Record<string, string> = {};
+  const { nombre, descripcion } = req.body || {};
+
+  // Al menos un campo debe estar presente
+  if (!nombre && !descripcion) {
+    throw new ValidationError("Se requiere al menos un campo para actualizar");
+  }
+
+  if (nombre !== undefined && !isValidString(nombre, 2, 100)) {
+    errors.nombre = "Nombre debe tener entre 2 y 100 caracteres";
+  }
+
+  if (descripcion !== undefined && !isValidString(descripcion, 1, 255)) {
+    errors.descripcion = "Descripción debe tener entre 1 y 255 caracteres";
+  }
+
+  if (Object.keys(errors).length > 0) {
+    throw new ValidationError(JSON.stringify(errors));
+  }
+
+  // Sanitizar
+  if (req.body.nombre) req.body.nombre = sanitizeString(req.body.nombre);
+  if (req.body.descripcion)
+    req.body.descripcion = sanitizeString(req.body.descripcion);
+
+  next();
+};
+
+/**
+ * Validar miembros de un equipo
+ */
+export const validateSetTeamAgents = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): void => {
+  const { agenteIds } = req.body || {};
+
+  if (!isValidUUIDArray(agenteIds)) {
+    throw new ValidationError("agenteIds debe ser un arreglo de UUIDs válidos");
+  }
+
+  next();
+};
+
+/**
+ * Validar supervisores de un equipo
+ */
+export const validateSetTeamSupervisors = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): void => {
+  const { supervisorIds } = req.body || {};
+
+  if (!isValidUUIDArray(supervisorIds)) {
+    throw new ValidationError(
+      "supervisorIds debe ser un arreglo de UUIDs válidos",
+    );
+  }
+
+  next();
+};
+
+/**
+ * Validar filtros del listado de agentes en query string
+ */
+export const validateAgentFilters = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): void => {
+  const errors: Record<string, string> = {};
+  const { nivel, activo, equipoId } = req.query;
+
+  const validNiveles = ["NIVEL_1", "NIVEL_2", "NIVEL_3"];
+  if (nivel && !validNiveles.includes(nivel as string)) {
+    errors.nivel = `Nivel no es válido. Opciones: ${validNiveles.join(", ")}`;
+  }
+
+  if (activo !== undefined && activo !== "true" && activo !== "false") {
+    errors.activo = "activo debe ser true o false";
+  }
+
+  if (equipoId && !isValidUUID(equipoId as string)) {
+    errors.equipoId = "ID de equipo no es válido";
+  }
+
+  if (Object.keys(errors).length > 0) {
+    throw new ValidationError(JSON.stringify(errors));
+  }
+
+  next();
+};
+
+/**
+ * Validar datos de actualización de agente
+ */
+export const validateUpdateAgent = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): void => {
+  const errors: Record<string, string> = {};
+  const { nombre, email, peso } = req.body || {};
+
+  // Al menos un campo debe estar presente
+  if (!nombre && !email && peso === undefined) {
+    throw new ValidationError("Se requiere al menos un campo para actualizar");
+  }
+
+  if (nombre !== undefined && !isValidString(nombre, 2, 100)) {
+    errors.nombre = "Nombre debe tener entre 2 y 100 caracteres";
+  }
+
+  if (email !== undefined && !isValidEmail(email)) {
+    errors.email = "Email no es válido";
+  }
+
+  if (
+    peso !== undefined &&
+    (!Number.isInteger(peso) || peso < 1 || peso > 100)
+  ) {
+    errors.peso = "peso debe ser un entero entre 1 y 100";
+  }
+
+  if (Object.keys(errors).length > 0) {
+    throw new ValidationError(JSON.stringify(errors));
+  }
+
+  // Sanitizar
+  if (req.body.nombre) req.body.nombre = sanitizeString(req.body.nombre);
+
+  next();
+};
+
+/**
+ * Validar cambio de nivel de un agente
+ */
+export const validateAgentLevel = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): void => {
+  const { nivel } = req.body || {};
+
+  const validNiveles = ["NIVEL_1", "NIVEL_2", "NIVEL_3"];
+  if (!nivel) {
+    throw new ValidationError("Nivel es requerido");
+  }
+
+  if (!validNiveles.includes(nivel)) {
+    throw new ValidationError(
+      `Nivel no es válido. Opciones: ${validNiveles.join(", ")}`,
+    );
+  }
+
+  next();
+};
+
+/**
+ * Validar desactivación de un agente
+ */
+export const validateDeactivateAgent = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): void => {
+  const { reasignarTickets } = req.body || {};
+
+  if (reasignarTickets !== undefined && typeof reasignarTickets !== "boolean") {
+    throw new ValidationError("reasignarTickets debe ser booleano");
+  }
+
+  next();
+};
+
+/**
+ * Validar cambio de estado de disponibilidad de un agente
+ */
+export const validateAgentStatus = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): void => {
+  const errors: Record<string, string> = {};
+  const { estado, reasignarTickets } = req.body || {};
+
+  const validEstados = ["DISPONIBLE", "OCUPADO", "AUSENTE"];
+  if (!estado) {
+    errors.estado = "Estado es requerido";
+  } else if (!validEstados.includes(estado)) {
+    errors.estado = `Estado no es válido. Opciones: ${validEstados.join(", ")}`;
+  }
+
+  if (reasignarTickets !== undefined && typeof reasignarTickets !== "boolean") {
+    errors.reasignarTickets = "reasignarTickets debe ser booleano";
+  }
+
+  if (Object.keys(errors).length > 0) {
+    throw new ValidationError(JSON.stringify(errors));
+  }
+
+  next();
+};
+
+/**
+ * Validar asignación de turno a un agente (null lo quita)
+ */
+export const validateAgentShift = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): void => {
+  const { turnoId } = req.body || {};
+
+  if (turnoId === undefined) {
+    throw new ValidationError("turnoId es requerido (puede ser null)");
+  }
+
+  if (turnoId !== null && !isValidUUID(turnoId)) {
+    throw new ValidationError("turnoId no es válido");
+  }
+
+  next();
+};
+
+/**
+ * Validar datos de creación de ausencia de un agente
+ */
+export const validateCreateAbsence = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): void => {
+  const errors: Record<string, string> = {};
+  const { desde, hasta, motivo, reasignarTickets } = req.body || {};
+
+  if (!desde) {
+    errors.desde = "desde es requerido";
+  } else if (!isValidDate(desde)) {
+    errors.desde = "desde no es una fecha válida (formato ISO)";
+  }
+
+  if (!hasta) {
+    errors.hasta = "hasta es requerido";
+  } else if (!isValidDate(hasta)) {
+    errors.hasta = "hasta no es una fecha válida (formato ISO)";
+  }
+
+  if (!errors.desde && !errors.hasta && new Date(desde) >= new Date(hasta)) {
+    errors.hasta = "hasta debe ser posterior a desde";
+  }
+
+  if (motivo !== undefined && !isValidString(motivo, 1, 500)) {
+    errors.motivo = "Motivo debe tener entre 1 y 500 caracteres";
+  }
+
+  if (reasignarTickets !== undefined && typeof reasignarTickets !== "boolean") {
+    errors.reasignarTickets = "reasignarTickets debe ser booleano";
+  }
+
+  if (Object.keys(errors).length > 0) {
+    throw new ValidationError(JSON.stringify(errors));
+  }
+
+  if (req.body.motivo) req.body.motivo = sanitizeString(req.body.motivo);
+
+  next();
+};
+
+/**
+ * Validar el límite de ejecuciones SLA en query string
+ */
+export const validateRunsLimit = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): void => {
+  const { limit } = req.query;
+
+  if (limit !== undefined) {
+    const limitNum = parseInt(limit as string, 10);
+    if (isNaN(limitNum) || limitNum < 1 || limitNum > 100) {
+      throw new ValidationError("limit debe ser un número entre 1 y 100");
+    }
+    req.query.limit = limitNum.toString();
+  }
+
+  next();
+};
+
+/**
+ * Validar filtros del log de actividad en query string
+ */
+export const validateLogFilters = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): void => {
+  const errors: Record<string, string> = {};
+  const { actorId, apiKeyId, entidad, accion } = req.query;
+
+  if (actorId && !isValidUUID(actorId as string)) {
+    errors.actorId = "actorId no es válido";
+  }
+
+  if (apiKeyId && !isValidUUID(apiKeyId as string)) {
+    errors.apiKeyId = "apiKeyId no es válido";
+  }
+
+  const validEntidades: string[] = Object.values(EntidadLog);
+  if (entidad && !validEntidades.includes(entidad as string)) {
+    errors.entidad = `Entidad no es válida. Opciones: ${validEntidades.join(", ")}`;
+  }
+
+  const validAcciones: string[] = Object.values(AccionLog);
+  if (accion && !validAcciones.includes(accion as string)) {
+    errors.accion = `Acción no es válida. Opciones: ${validAcciones.join(", ")}`;
+  }
+
+  if (Object.keys(errors).length > 0) {
+    throw new ValidationError(JSON.stringify(errors));
+  }
+
+  next();
+};
+
+/**
+ * Validar filtros de intentos de login en query string
+ */
+export const validateLoginAttemptFilters = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): void => {
+  const errors: Record<string, string> = {};
+  const { usuarioId, exito, resultado } = req.query;
+
+  if (usuarioId && !isValidUUID(usuarioId as string)) {
+    errors.usuarioId = "usuarioId no es válido";
+  }
+
+  if (exito !== undefined && exito !== "true" && exito !== "false") {
+    errors.exito = "exito debe ser true o false";
+  }
+
+  const validResultados: string[] = Object.values(ResultadoLogin);
+  if (resultado && !validResultados.includes(resultado as string)) {
+    errors.resultado = `Resultado no es válido. Opciones: ${validResultados.join(", ")}`;
+  }
+
+  if (Object.keys(errors).length > 0) {
+    throw new ValidationError(JSON.stringify(errors));
   }
 
   next();
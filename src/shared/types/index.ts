@@ -1,5 +1,12 @@
 import { Request } from "express";
-import { Rol } from "@prisma/client";
+import {
+  Rol,
+  TipoCliente,
+  Prioridad,
+  EstadoDisponibilidad,
+  NivelEscalamiento,
+  ScopeApiKey,
+} from "@prisma/client";
 
 // ============================================================
 // REQUEST TYPES
@@ -9,6 +16,13 @@ export interface JwtPayload {
   userId: string;
   email: string;
   rol: Rol;
+  // Rol personalizado cuyos permisos reemplazan a los del rol base
+  rolPersonalizadoId?: string;
+  // Sesión (familia de refresh tokens) a la que pertenece el token
+  sid?: string;
+  // Versión de tokens del usuario al emitirlo (ver TokenRevocationService)
+  ver?: number;
+  jti?: string;
   iat?: number;
   exp?: number;
 }
@@ -19,6 +33,18 @@ export interface JwtPayload {
  */
 export interface AuthRequest extends Request {
   user?: JwtPayload;
+  // Presente cuando la petición se autenticó con una API key
+  apiKey?: ApiKeyContext;
+}
+
+/**
+ * API key con la que se autenticó la petición. scopeVerificado lo marca
+ * requireScope: las rutas que no lo declaran rechazan las API keys.
+ */
+export interface ApiKeyContext {
+  id: string;
+  scopes: ScopeApiKey[];
+  scopeVerificado: boolean;
 }
 
 // ============================================================
@@ -69,6 +95,27 @@ export interface TicketFilters {
   prioridad?: string;
   clienteId?: string;
   agenteAsignadoId?: string;
+  equipoId?: string;
+  fechaDesde?: Date;
+  fechaHasta?: Date;
+}
+
+export interface LogFilters {
+  actorId?: string;
+  apiKeyId?: string;
+  entidad?: string;
+  entidadId?: string;
+  accion?: string;
+  fechaDesde?: Date;
+  fechaHasta?: Date;
+}
+
+export interface LoginAttemptFilters {
+  email?: string;
+  usuarioId?: string;
+  ip?: string;
+  exito?: boolean;
+  resultado?: string;
   fechaDesde?: Date;
   fechaHasta?: Date;
 }
@@ -86,15 +133,139 @@ export interface CreateTicketDto {
   descripcion: string;
   clienteId: string;
   agenteAsignadoId?: string;
+  habilidadIds?: string[];
+  equipoId?: string;
 }
 
+/**
+ * habilidadIds reemplaza por completo las habilidades requeridas.
+ * equipoId null saca el ticket de la cola de equipo.
+ */
 export interface UpdateTicketDto {
   titulo?: string;
   descripcion?: string;
   estado?: string;
   agenteAsignadoId?: string;
+  habilidadIds?: string[];
+  equipoId?: string | null;
+}
+
+export interface CreateCommentDto {
+  contenido: string;
+  esInterno?: boolean;
+}
+
+export interface UpdateCommentDto {
+  contenido?: string;
+  esInterno?: boolean;
+}
+
+export interface FranjaHorariaDto {
+  diaSemana: number;
+  horaInicio: string;
+  horaFin: string;
+}
+
+export interface FeriadoDto {
+  fecha: string;
+  descripcion?: string;
+}
+
+export interface CreateCalendarDto {
+  nombre: string;
+  zonaHoraria: string;
+  franjas: FranjaHorariaDto[];
+  feriados?: FeriadoDto[];
+}
+
+export interface UpdateCalendarDto {
+  nombre?: string;
+  zonaHoraria?: string;
+  franjas?: FranjaHorariaDto[];
+  feriados?: FeriadoDto[];
+}
+
+export interface CreateSkillDto {
+  nombre: string;
+  descripcion?: string;
+}
+
+export interface UpdateSkillDto {
+  nombre?: string;
+  descripcion?: string;
 }
 
+export interface CreateTeamDto {
+  nombre: string;
+  descripcion?: string;
+}
+
+export interface UpdateTeamDto {
+  nombre?: string;
+  descripcion?: string;
+}
+
+export interface AgentFilters {
+  nivel?: NivelEscalamiento;
+  activo?: boolean;
+  equipoId?: string;
+}
+
+/**
+ * nombre y email se actualizan también en el Usuario vinculado.
+ */
+export interface UpdateAgentDto {
+  nombre?: string;
+  email?: string;
+  peso?: number;
+}
+
+export interface UpdateAgentLevelDto {
+  nivel: NivelEscalamiento;
+}
+
+/**
+ * Con reasignarTickets en false, los tickets abiertos quedan sin agente
+ * (en la cola de su equipo) en lugar de repartirse automáticamente.
+ */
+export interface DeactivateAgentDto {
+  reasignarTickets?: boolean;
+}
+
+/**
+ * reasignarTickets reparte los tickets abiertos del agente
+ * al dejar de estar disponible.
+ */
+export interface UpdateAgentStatusDto {
+  estado: EstadoDisponibilidad;
+  reasignarTickets?: boolean;
+}
+
+export interface CreateAbsenceDto {
+  desde: string;
+  hasta: string;
+  motivo?: string;
+  reasignarTickets?: boolean;
+}
+
+/**
+ * Criterios nulos u omitidos aplican a cualquier valor.
+ * Una política de cliente (clienteId) no puede restringir tipoCliente.
+ */
+export interface CreateSlaPolicyDto {
+  nombre: string;
+  activo?: boolean;
+  tipoCliente?: TipoCliente | null;
+  prioridad?: Prioridad | null;
+  clienteId?: string | null;
+  horasNivel1: number;
+  horasNivel2: number;
+  minutosPrimeraRespuesta: number;
+  horasResolucion: number;
+}
+
+export type UpdateSlaPolicyDto = Partial<CreateSlaPolicyDto>;
+
 export interface LoginDto {
   email: string;
   password: string;
@@ -115,6 +286,115 @@ export interface RefreshTokenDto {
   refreshToken: string;
 }
 
+export interface ChangePasswordDto {
+  passwordActual: string;
+  passwordNueva: string;
+}
+
+export interface ForgotPasswordDto {
+  email: string;
+}
+
+/**
+ * token es el valor en claro recibido por correo.
+ */
+export interface ResetPasswordDto {
+  token: string;
+  password: string;
+}
+
+/**
+ * codigo: TOTP de 6 dígitos o código de recuperación.
+ */
+export interface TwoFactorCodeDto {
+  codigo: string;
+}
+
+export interface TwoFactorChallengeDto {
+  tokenDesafio: string;
+}
+
+export interface TwoFactorLoginDto {
+  tokenDesafio: string;
+  codigo: string;
+}
+
+export interface DisableTwoFactorDto {
+  password: string;
+  codigo: string;
+}
+
+/**
+ * Respuesta del proveedor OIDC al volver del login (redirect_uri).
+ */
+export interface OidcCallbackDto {
+  code: string;
+  state: string;
+}
+
+/**
+ * Origen de la petición que inicia o renueva una sesión.
+ */
+export interface SessionContext {
+  ip?: string;
+  userAgent?: string;
+}
+
+export interface ApiKeyFilters {
+  usuarioId?: string;
+  activas?: boolean;
+}
+
+export interface UserFilters {
+  rol?: Rol;
+  activo?: boolean;
+  search?: string;
+}
+
+export interface UpdateUserRoleDto {
+  rol: Rol;
+}
+
+/**
+ * Contraseña definida por un administrador para otro usuario.
+ */
+export interface SetUserPasswordDto {
+  password: string;
+}
+
+/**
+ * Asignar (o quitar, con null) un rol personalizado a un usuario.
+ */
+export interface SetUserCustomRoleDto {
+  rolPersonalizadoId: string | null;
+}
+
+/**
+ * Alta de un rol personalizado. rolBase define las reglas de visibilidad
+ * de datos (por ejemplo, qué tickets ve) y permisos las rutas permitidas.
+ */
+export interface CreateRoleDto {
+  nombre: string;
+  descripcion?: string;
+  rolBase: Rol;
+  permisos: string[];
+}
+
+export interface UpdateRoleDto {
+  descripcion?: string;
+  permisos?: string[];
+}
+
+/**
+ * Alta de una API key. Sin usuarioId la key actúa en nombre de quien la crea.
+ */
+export interface CreateApiKeyDto {
+  nombre: string;
+  scopes: ScopeApiKey[];
+  usuarioId: string;
+  expiresAt?: string;
+}
+
 // ============================================================
 // BUSINESS LOGIC TYPES
 // ============================================================
@@ -125,12 +405,33 @@ export interface AuthTokens {
   expiresIn: string;
 }
 
+/**
+ * Respuesta del login cuando falta el segundo factor.
+ * TOTP: enviar el código a /login/2fa.
+ * ENROLAMIENTO: el rol exige 2FA y el usuario aún no lo configuró.
+ */
+export interface TwoFactorChallenge {
+  requiere2FA: true;
+  metodo: "TOTP" | "ENROLAMIENTO";
+  tokenDesafio: string;
+  expiresIn: number;
+}
+
+export type LoginResult = AuthTokens | TwoFactorChallenge;
+
+export interface TwoFactorSetup {
+  secreto: string;
+  otpauthUrl: string;
+}
+
 export interface UserResponse {
   id: string;
   email: string;
   nombre: string;
   rol: Rol;
   activo: boolean;
+  totpHabilitado: boolean;
+  rolPersonalizadoId: string | null;
   createdAt: Date;
 }
 
@@ -159,6 +460,30 @@ export interface TicketWithRelations {
   tiempoResolucion?: number | null;
 }
 
+/**
+ * Estado de un objetivo SLA (primera respuesta o resolución).
+ * Los tiempos se expresan en minutos de reloj SLA (hábiles si el cliente
+ * tiene calendario y sin contar pausas EN_ESPERA).
+ */
+export interface SlaTargetStatus {
+  objetivoMinutos: number;
+  consumidoMinutos: number;
+  restanteMinutos: number;
+  vencido: boolean;
+  completado: boolean;
+}
+
+export type SlaObjetivo = "PRIMERA_RESPUESTA" | "RESOLUCION";
+
+export interface TicketSlaStatus {
+  // Política aplicada; null si se usan los valores por defecto
+  politicaId: string | null;
+  primeraRespuesta: SlaTargetStatus;
+  resolucion: SlaTargetStatus;
+  pausado: boolean;
+  objetivosVencidos: SlaObjetivo[];
+}
+
 // ============================================================
 // CLASES DE ERROR
 // ============================================================
@@ -208,3 +533,9 @@ export class ConflictError extends AppError {
     super(message, 409);
   }
 }
+
+export class AccountLockedError extends AppError {
+  constructor(message: string = "Cuenta bloqueada temporalmente") {
+    super(message, 423);
+  }
+}
@@ -0,0 +1,21 @@
+/**
+ * Variables mínimas para cargar env.config en las pruebas unitarias.
+ * Las pruebas no se conectan a ningún servicio.
+ */
+Object.assign(process.env, {
+  NODE_ENV: "test",
+  POSTGRES_USER: "test",
+  POSTGRES_PASSWORD: "test",
+  POSTGRES_HOST: "localhost",
+  POSTGRES_PORT: "5432",
+  POSTGRES_DB: "test",
+  MONGO_USER: "test",
+  MONGO_PASSWORD: "test",
+  MONGO_HOST: "localhost",
+  MONGO_PORT: "27017",
+  MONGO_DB: "test",
+  JWT_SECRET: "jwt-secret-de-pruebas",
+  JWT_REFRESH_SECRET: "jwt-refresh-secret-de-pruebas",
+  TOTP_ENCRYPTION_KEY: "clave-de-cifrado-totp-de-pruebas",
+  TOTP_ISSUER: "TechSupport Pro",
+});